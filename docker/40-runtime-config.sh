@@ -0,0 +1,72 @@
+#!/bin/sh
+# Writes /config.json from the container environment on start-up, so the same
+# image can be promoted from staging to production. Unset variables are left
+# out and the app falls back to the values it was built with.
+#
+#   API_BASE_URL                    e.g. https://api.example.com
+#   WS_BASE_URL                     defaults to API_BASE_URL with ws(s)://
+#   FEATURE_SIGNUP                  true | false
+#   FEATURE_PASSWORD_RESET          true | false
+#   FEATURE_REQUIRE_VERIFIED_EMAIL  true | false (gate sharing and large uploads)
+#   OAUTH_PROVIDERS                 comma-separated, e.g. google,github ("" disables)
+#   PROCESSING_POLL_INTERVAL_MS     document processing poll interval
+#   IDLE_TIMEOUT_MS                 sign out after this long idle (0 disables)
+#   IDLE_WARNING_MS                 countdown shown before the idle sign-out
+set -eu
+
+CONFIG_FILE="${RUNTIME_CONFIG_FILE:-/usr/share/nginx/html/config.json}"
+
+json_string() {
+  printf '"%s"' "$(printf '%s' "$1" | sed 's/\\/\\\\/g; s/"/\\"/g')"
+}
+
+json_bool() {
+  case "$1" in
+    true|1|yes) printf 'true' ;;
+    false|0|no) printf 'false' ;;
+    *) echo "runtime-config: ignoring non-boolean value '$1'" >&2; return 1 ;;
+  esac
+}
+
+json_list() {
+  items=""
+  for item in $(printf '%s' "$1" | tr ',' ' '); do
+    items="${items:+$items,}$(json_string "$item")"
+  done
+  printf '[%s]' "$items"
+}
+
+fields=""
+add() {
+  fields="${fields:+$fields,}
+  \"$1\": $2"
+}
+
+features=""
+add_feature() {
+  if value=$(json_bool "$2"); then
+    features="${features:+$features, }\"$1\": $value"
+  fi
+}
+
+[ -n "${API_BASE_URL:-}" ] && add apiBaseUrl "$(json_string "$API_BASE_URL")"
+[ -n "${WS_BASE_URL:-}" ] && add wsBaseUrl "$(json_string "$WS_BASE_URL")"
+[ -n "${FEATURE_SIGNUP:-}" ] && add_feature signup "$FEATURE_SIGNUP"
+[ -n "${FEATURE_PASSWORD_RESET:-}" ] && add_feature passwordReset "$FEATURE_PASSWORD_RESET"
+[ -n "${FEATURE_REQUIRE_VERIFIED_EMAIL:-}" ] && add_feature requireVerifiedEmail "$FEATURE_REQUIRE_VERIFIED_EMAIL"
+[ -n "$features" ] && add features "{ $features }"
+[ "${OAUTH_PROVIDERS+set}" = set ] && add oauthProviders "$(json_list "$OAUTH_PROVIDERS")"
+add_number() {
+  case "$3" in
+    '') ;;
+    *[!0-9]*) echo "runtime-config: ignoring non-numeric $2" >&2 ;;
+    *) add "$1" "$3" ;;
+  esac
+}
+
+add_number processingPollIntervalMs PROCESSING_POLL_INTERVAL_MS "${PROCESSING_POLL_INTERVAL_MS:-}"
+add_number idleTimeoutMs IDLE_TIMEOUT_MS "${IDLE_TIMEOUT_MS:-}"
+add_number idleWarningMs IDLE_WARNING_MS "${IDLE_WARNING_MS:-}"
+
+printf '{%s\n}\n' "$fields" > "$CONFIG_FILE"
+echo "runtime-config: wrote $CONFIG_FILE"
@@ -3,20 +3,37 @@ import { FileText } from 'lucide-react';
 import { Header } from './components/Header';
 import { ChatPanel } from './components/ChatPanel';
 import { DocumentPreview } from './components/DocumentPreview';
-import { DocumentSidebar } from './components/DocumentSidebar';
+import { DocumentSidebar, toViewDocument } from './components/DocumentSidebar';
 import { SignupScreen } from './components/SignupScreen';
 import { LoginScreen } from './components/LoginScreen';
-import { UploadModal } from './components/UploadModal';
+import { UploadModal, describeUploadBatch } from './components/UploadModal';
 import { SettingsModal } from './components/SettingsModal';
 import { ConfirmationModal } from './components/ConfirmationModal';
 import { ShareModal } from './components/ShareModal';
 import { ProfileModal } from './components/ProfileModal';
+import { ChangePasswordModal } from './components/ChangePasswordModal';
+import { EmailVerificationBanner } from './components/EmailVerificationBanner';
+import { IdleTimeoutDialog } from './components/IdleTimeoutDialog';
 import { PasswordResetScreen } from './components/PasswordResetScreen';
+import { AdminConsole } from './components/AdminConsole';
+import { SharedChatScreen } from './components/SharedChatScreen';
 import { LoadingOverlay } from './components/ui/loading-overlay';
 import { Toaster } from './components/ui/sonner';
+import { showErrorToast } from './components/errorToast';
 import { toast } from 'sonner';
-import { useAuthStore, useAppStore, useDocumentsStore } from './stores';
-import { useAppReady } from './stores/hooks';
+import { useAuthStore, useAppStore, useDocumentsStore, useRouterStore } from './stores';
+import { useAppReady, useEmailVerification } from './stores/hooks';
+import {
+  AuthService,
+  DocumentService,
+  ErrorUtils,
+  OAUTH_PROVIDER_NAMES,
+  NotFoundError,
+  Router,
+  ValidationError,
+  isProtectedRoute,
+} from './services';
+import type { AppRoute, NavigateOptions } from './services';
 
 export interface Message {
   id: string;
@@ -35,64 +52,135 @@ export interface Document {
   file_url?: string;  // PDF file URL for preview
 }
 
-type AuthView = 'signup' | 'login' | 'app' | 'passwordReset';
+const ROUTE_TITLES: Partial<Record<AppRoute['name'], string>> = {
+  login: 'Login',
+  signup: 'Sign up',
+  resetPassword: 'Reset password',
+};
 
 export default function App() {
-  const { user, isAuthenticated, isLoading: authLoading, checkAuth, logout } = useAuthStore();
+  const { user, isAuthenticated, isLoading: authLoading, checkAuth, logout, completeOAuth, verifyEmail } = useAuthStore();
   const { initialize, isInitialized } = useAppStore();
   const { deleteDocument } = useDocumentsStore();
-  const { isReady, needsAuth } = useAppReady();
-  
-  const [authView, setAuthView] = useState<AuthView>('login');
+  const uploadBatchSummary = useDocumentsStore((state) => state.batchSummary);
+  const { isReady, needsAuth, hasCheckedAuth } = useAppReady();
+  const { canShare } = useEmailVerification();
+  const route = useRouterStore((state) => state.route);
+  const navigate = useRouterStore((state) => state.navigate);
+  // The stored session is only trusted once checkAuth has confirmed it
+  const inSession = hasCheckedAuth && isAuthenticated;
+
+  // Carried between the login and password reset screens so it isn't typed twice
+  const [authEmail, setAuthEmail] = useState('');
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [settingsModalOpen, setSettingsModalOpen] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [profileModalOpen, setProfileModalOpen] = useState(false);
-  const [passwordChangeConfirmOpen, setPasswordChangeConfirmOpen] = useState(false);
+  const [changePasswordOpen, setChangePasswordOpen] = useState(false);
+  const [adminConsoleOpen, setAdminConsoleOpen] = useState(false);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [documentToDelete, setDocumentToDelete] = useState<string | null>(null);
 
+  // Providers send the browser back to /oauth/callback; finish the flow and return to where it started
+  const handleOAuthCallback = async () => {
+    const params = new URLSearchParams(window.location.search);
+    new URLSearchParams(window.location.hash.slice(1)).forEach((value, key) => params.set(key, value));
+    // Keep codes and tokens out of the address bar and history
+    window.history.replaceState(null, '', '/');
+
+    try {
+      const result = await completeOAuth(params);
+      navigate(result.returnTo, { replace: true });
+      toast.success(
+        result.mode === 'link'
+          ? `Your ${OAUTH_PROVIDER_NAMES[result.provider]} account is now linked.`
+          : `Welcome, ${result.user.first_name || result.user.email}!`
+      );
+    } catch (error) {
+      navigate('/', { replace: true });
+      showErrorToast(error, 'Sign-in failed. Please try again.');
+    }
+  };
+
+  // Verification emails link to /verify-email?token=...; works whether or not the user is signed in
+  const handleEmailVerification = async () => {
+    const token = new URLSearchParams(window.location.search).get('token');
+    window.history.replaceState(null, '', '/');
+    if (!token) {
+      navigate('/', { replace: true });
+      return;
+    }
+
+    try {
+      await verifyEmail(token);
+      toast.success(
+        useAuthStore.getState().isAuthenticated
+          ? 'Your email address has been verified.'
+          : 'Your email address has been verified. Sign in to continue.'
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        toast.error(
+          error.code === 'token_used'
+            ? 'This verification link has already been used.'
+            : 'This verification link is invalid or has expired. Sign in to request a new one.'
+        );
+        return;
+      }
+      showErrorToast(error, 'Email verification failed. Please try again.');
+    } finally {
+      navigate('/', { replace: true });
+    }
+  };
+
   // Initialize app and check authentication on load
   useEffect(() => {
     const initApp = async () => {
       await initialize();
+      const landing = Router.current().name;
+      if (landing === 'oauthCallback') {
+        await handleOAuthCallback();
+      }
       await checkAuth();
+      if (landing === 'verifyEmail') {
+        await handleEmailVerification();
+      }
     };
     initApp();
   }, [initialize, checkAuth]);
 
-  // Update auth view based on authentication state
+  // Keep the route in line with the session. A reset link stays on the reset screen whatever the session state.
   useEffect(() => {
-    if (isReady) {
-      if (isAuthenticated) {
-        setAuthView('app');
-        // Clear selected document and messages when user logs in
-        setSelectedDocument(null);
-        setMessages([]);
-      } else if (needsAuth) {
-        setAuthView('login');
-      }
+    if (route.name === 'notFound') {
+      navigate('/', { replace: true });
+      return;
     }
-  }, [isReady, isAuthenticated, needsAuth]);
+    if (!isReady) return;
+
+    // Covers deep links opened while signed out as well as sessions that end while in use
+    // (expired or revoked refresh, idle timeout, logout in another tab). Unsent chat drafts
+    // are kept in storage, so coming back to the same URL picks them up again.
+    if (isProtectedRoute(route) && needsAuth) {
+      const returnPath = Router.currentPath();
+      navigate({ name: 'login', next: returnPath === '/' ? undefined : returnPath }, { replace: true });
+      setAdminConsoleOpen(false);
+    } else if ((route.name === 'login' || route.name === 'signup') && isAuthenticated) {
+      navigate(route.next ?? '/', { replace: true });
+    }
+  }, [route, isReady, isAuthenticated, needsAuth]);
 
-  // Authentication handlers
-  const handleLoginSuccess = () => {
-    // Login was successful - the auth store will update shortly
-    // Don't check state here due to timing, let the useEffect handle it
-    setAuthView('app');
-  };
+  // Where the sign-in screens lead once they're done
+  const authNext = route.name === 'login' || route.name === 'signup' ? route.next : undefined;
 
-  const handleSignupSuccess = () => {
-    setAuthView('app');
-    if (user) {
-      toast.success(`Welcome to DocChat AI, ${user.first_name}!`);
-    }
+  // Authentication handlers
+  const handleAuthSuccess = () => {
+    navigate(authNext ?? '/', { replace: true });
   };
 
   const handleLogout = async () => {
     try {
       await logout();
-      setAuthView('login');
+      navigate({ name: 'login' }, { replace: true });
       toast.success('You have been logged out successfully.');
     } catch (error) {
       console.error('Logout error:', error);
@@ -101,31 +189,7 @@ export default function App() {
 
   // App state  
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
   
-  // User profile state (legacy - will be replaced by user from AuthService)
-  const [userProfile, setUserProfile] = useState({
-    name: 'John Doe',
-    email: 'john.doe@example.com',
-    avatarUrl: '',
-    joinDate: 'October 2025',
-  });
-
-  // Update user profile when user changes
-  useEffect(() => {
-    if (user) {
-      setUserProfile({
-        name: user.full_name,
-        email: user.email,
-        avatarUrl: user.avatar_url || '',
-        joinDate: new Date(user.created_at).toLocaleDateString('en-US', { 
-          month: 'long', 
-          year: 'numeric' 
-        }),
-      });
-    }
-  }, [user]);
-
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
 
   const [documents, setDocuments] = useState<Document[]>([]);
@@ -134,8 +198,61 @@ export default function App() {
 
   const [highlightedPages, setHighlightedPages] = useState<number[]>([]);
 
+  // The document, page and chat session come from the URL
+  const routeDocumentId = route.name === 'document' ? route.documentId : null;
+  const routeSessionId = route.name === 'document' ? route.sessionId : undefined;
+  const currentPage = (route.name === 'document' && route.page) || 1;
+
+  useEffect(() => {
+    if (!routeDocumentId || !inSession) {
+      setSelectedDocument(null);
+      return;
+    }
+
+    const listed = documents.find((doc) => doc.id === routeDocumentId);
+    if (listed) {
+      setSelectedDocument(listed);
+      return;
+    }
+
+    // Not in the sidebar (yet): a deep link, or a document further down the list
+    const controller = new AbortController();
+    DocumentService.getDocument(routeDocumentId, { signal: controller.signal })
+      .then((doc) => setSelectedDocument(toViewDocument(doc)))
+      .catch((error) => {
+        if (controller.signal.aborted || ErrorUtils.isAbortError(error)) return;
+        if (error instanceof NotFoundError) {
+          toast.error('That document doesn\'t exist or has been deleted.');
+          navigate('/', { replace: true });
+          return;
+        }
+        showErrorToast(error, 'Failed to open the document.');
+      });
+    return () => controller.abort();
+  }, [routeDocumentId, documents, inSession]);
+
+  // Each document starts with an empty chat; ChatPanel brings back a session's history
+  useEffect(() => {
+    setMessages([]);
+    setHighlightedPages([]);
+  }, [routeDocumentId]);
+
+  const goToPage = (page: number, options?: NavigateOptions) => {
+    if (route.name === 'document') {
+      navigate({ ...route, page }, options);
+    }
+  };
+
+  // The session is ChatPanel's to pick; it goes into the URL without adding a history entry
+  const handleSessionChange = (sessionId: string) => {
+    const current = Router.current();
+    if (current.name === 'document') {
+      navigate({ ...current, sessionId }, { replace: true });
+    }
+  };
+
   const handlePageReference = (page: number) => {
-    setCurrentPage(page);
+    goToPage(page);
     setHighlightedPages([page]);
     setTimeout(() => setHighlightedPages([]), 3000);
   };
@@ -168,13 +285,22 @@ export default function App() {
     setMessages([]);
   };
 
-  const handleAuthSuccess = () => {
-    setAuthView('app');
-  };
-
-  const handleUploadComplete = (fileName: string) => {
-    toast.success(`${fileName} has been uploaded and is ready to use!`);
-  };
+  // One toast per finished upload batch, wherever the files were dropped
+  useEffect(() => {
+    if (!uploadBatchSummary || uploadBatchSummary.total === uploadBatchSummary.cancelled) return;
+
+    const { completed, total, documentIds } = uploadBatchSummary;
+    const message = describeUploadBatch(uploadBatchSummary);
+    if (completed === total) {
+      toast.success(message, documentIds.length === 1
+        ? { action: { label: 'Open', onClick: () => navigate({ name: 'document', documentId: documentIds[0] }) } }
+        : undefined);
+    } else {
+      toast.warning(message, {
+        action: { label: 'Details', onClick: () => setUploadModalOpen(true) },
+      });
+    }
+  }, [uploadBatchSummary]);
 
   const handleDeleteDocument = (documentId: string) => {
     setDocumentToDelete(documentId);
@@ -187,93 +313,122 @@ export default function App() {
         await deleteDocument(documentToDelete);
         toast.success('Document deleted successfully');
         
-        // Clear selection if the deleted document was selected
+        // Move off the deleted document if it was open
         if (selectedDocument?.id === documentToDelete) {
           const remainingDocs = documents.filter(doc => doc.id !== documentToDelete);
-          if (remainingDocs.length > 0) {
-            setSelectedDocument(remainingDocs[0]);
-          } else {
-            setSelectedDocument(null);
-            setMessages([]);
-          }
+          navigate(
+            remainingDocs.length > 0 ? { name: 'document', documentId: remainingDocs[0].id } : { name: 'home' },
+            { replace: true }
+          );
         }
       } catch (error: any) {
         console.error('Delete error:', error);
-        toast.error(error.message || 'Failed to delete document');
+        showErrorToast(error, 'Failed to delete document');
       } finally {
         setDocumentToDelete(null);
       }
     }
   };
 
-  const handleAvatarUpload = (file: File) => {
-    // Simulate uploading the file and getting a URL
-    const mockUrl = URL.createObjectURL(file);
-    setUserProfile({ ...userProfile, avatarUrl: mockUrl });
-    // In a real app, you would upload to a server and get back a URL
-  };
-
   const handlePasswordChangeRequest = () => {
     setProfileModalOpen(false);
-    setPasswordChangeConfirmOpen(true);
+    setChangePasswordOpen(true);
   };
 
-  const confirmPasswordChange = () => {
-    setPasswordChangeConfirmOpen(false);
-    toast.info('Logging you out for security...');
-    setTimeout(() => {
-      setAuthView('passwordReset');
-    }, 1000);
+  // A one-time reset token is replaced in history rather than left behind
+  const leavePasswordReset = (target: AppRoute) => {
+    navigate(target, { replace: route.name === 'resetPassword' && route.token !== null });
   };
 
   const handlePasswordResetComplete = () => {
+    leavePasswordReset({ name: 'home' });
     toast.success('Welcome back! Your password has been updated.');
-    setAuthView('app');
+  };
+
+  const handlePasswordResetBackToLogin = (email?: string) => {
+    if (email) setAuthEmail(email);
+    leavePasswordReset({ name: 'login' });
+  };
+
+  const handleForgotPassword = (email: string) => {
+    setAuthEmail(email);
+    navigate({ name: 'resetPassword', token: null });
   };
 
   useEffect(() => {
-    document.title = authView === 'login' ? 'Login' : 'ChatPDF';
-  }, [authView]);
+    // The shared chat screen names the tab itself
+    if (route.name === 'shared') return;
+    document.title = route.name === 'document' && selectedDocument
+      ? `${selectedDocument.name} · ChatPDF`
+      : ROUTE_TITLES[route.name] ?? 'ChatPDF';
+  }, [route.name, selectedDocument?.name]);
+
+  if (route.name === 'shared') {
+    return (
+      <>
+        <SharedChatScreen shareId={route.shareId} onOpenApp={() => navigate('/')} />
+        <Toaster />
+      </>
+    );
+  }
 
-  if (authView === 'signup') {
+  if (route.name === 'signup') {
     return (
       <>
         <SignupScreen
           onSignupSuccess={handleAuthSuccess}
-          onSwitchToLogin={() => setAuthView('login')}
+          onSwitchToLogin={() => navigate({ name: 'login', next: authNext })}
         />
         <Toaster />
       </>
     );
   }
 
-  if (authView === 'login') {
+  if (route.name === 'resetPassword') {
     return (
       <>
-        <LoginScreen
-          onLoginSuccess={handleLoginSuccess}
-          onSwitchToSignup={() => setAuthView('signup')}
+        <PasswordResetScreen
+          token={route.token}
+          initialEmail={authEmail || user?.email}
+          onResetComplete={handlePasswordResetComplete}
+          onBackToLogin={handlePasswordResetBackToLogin}
         />
-        {/* Show loading overlay on top of login screen while initializing */}
-        {(!isReady || authLoading) && (
-          <LoadingOverlay 
-            title="Initializing DocChat AI..."
-            message="Setting up your workspace and checking authentication"
-            fullScreen={true}
-          />
-        )}
         <Toaster />
       </>
     );
   }
 
-  if (authView === 'passwordReset') {
+  // Workspace URLs never render the workspace (or the login screen) on a session that hasn't been checked
+  if (isProtectedRoute(route) && !inSession) {
     return (
       <>
-        <PasswordResetScreen
-          onResetComplete={handlePasswordResetComplete}
-          userEmail={userProfile.email}
+        <LoadingOverlay
+          title="Initializing DocChat AI..."
+          message="Setting up your workspace and checking authentication"
+          fullScreen={true}
+        />
+        <Toaster />
+      </>
+    );
+  }
+
+  if (!isProtectedRoute(route)) {
+    return (
+      <>
+        <LoginScreen
+          onLoginSuccess={handleAuthSuccess}
+          onSwitchToSignup={() => navigate({ name: 'signup', next: authNext })}
+          onForgotPassword={handleForgotPassword}
+          initialEmail={authEmail}
         />
+        {/* Show loading overlay on top of login screen while initializing */}
+        {(!isReady || authLoading || route.name === 'oauthCallback' || route.name === 'verifyEmail') && (
+          <LoadingOverlay 
+            title="Initializing DocChat AI..."
+            message="Setting up your workspace and checking authentication"
+            fullScreen={true}
+          />
+        )}
         <Toaster />
       </>
     );
@@ -285,11 +440,7 @@ export default function App() {
         <DocumentSidebar
           documents={documents}
           selectedDocument={selectedDocument}
-          onSelectDocument={(doc) => {
-            setSelectedDocument(doc);
-            setMessages([]);
-            setCurrentPage(1);
-          }}
+          onSelectDocument={(doc) => navigate({ name: 'document', documentId: doc.id })}
           isOpen={sidebarOpen}
           onToggle={() => setSidebarOpen(!sidebarOpen)}
           onUploadClick={() => setUploadModalOpen(true)}
@@ -298,11 +449,18 @@ export default function App() {
         />
 
         <div className="flex flex-col flex-1 overflow-hidden">
+          <EmailVerificationBanner />
           <Header
             document={selectedDocument}
             onToggleSidebar={() => setSidebarOpen(!sidebarOpen)}
             onSettingsClick={() => setSettingsModalOpen(true)}
-            onShareClick={() => setShareModalOpen(true)}
+            onShareClick={() => {
+              if (!canShare) {
+                toast.warning('Verify your email address to share chats.');
+                return;
+              }
+              setShareModalOpen(true);
+            }}
             onDeleteClick={() => selectedDocument && handleDeleteDocument(selectedDocument.id)}
             onProfileClick={() => {
               console.log('Opening profile modal - current state:', profileModalOpen);
@@ -310,7 +468,7 @@ export default function App() {
               console.log('Profile modal state set to true');
             }}
             onLogout={handleLogout}
-            userProfile={userProfile}
+            onAdminClick={() => setAdminConsoleOpen(true)}
           />
 
           <div className="flex flex-1 overflow-hidden">
@@ -324,6 +482,9 @@ export default function App() {
                 id: selectedDocument.id,
                 name: selectedDocument.name,
               } : undefined}
+              sessionId={routeSessionId}
+              onSessionChange={handleSessionChange}
+              onMessagesLoaded={setMessages}
             />
 
             {selectedDocument ? (
@@ -331,7 +492,7 @@ export default function App() {
                 document={selectedDocument}
                 currentPage={currentPage}
                 highlightedPages={highlightedPages}
-                onPageChange={setCurrentPage}
+                onPageChange={(page) => goToPage(page, { replace: true })}
               />
             ) : (
               <div className="flex flex-col w-1/2 bg-gray-100">
@@ -360,7 +521,6 @@ export default function App() {
       <UploadModal
         open={uploadModalOpen}
         onOpenChange={setUploadModalOpen}
-        onUploadComplete={handleUploadComplete}
       />
 
       <SettingsModal
@@ -372,28 +532,28 @@ export default function App() {
         open={shareModalOpen}
         onOpenChange={setShareModalOpen}
         documentName={selectedDocument?.name || ''}
+        sessionId={routeSessionId ?? null}
       />
 
       <ProfileModal
         open={profileModalOpen}
         onOpenChange={setProfileModalOpen}
-        userProfile={userProfile}
-        onAvatarUpload={handleAvatarUpload}
         onPasswordChangeRequest={handlePasswordChangeRequest}
         onLogout={handleLogout}
       />
 
-      <ConfirmationModal
-        open={passwordChangeConfirmOpen}
-        onOpenChange={setPasswordChangeConfirmOpen}
-        title="Change Password?"
-        description="You will be logged out of all devices and receive a password reset link via email. This is a security measure to protect your account."
-        confirmText="Continue"
-        cancelText="Cancel"
-        variant="warning"
-        onConfirm={confirmPasswordChange}
+      <ChangePasswordModal
+        open={changePasswordOpen}
+        onOpenChange={setChangePasswordOpen}
       />
 
+      <IdleTimeoutDialog onLogout={handleLogout} />
+
+      {/* Not mounted at all for non-staff accounts */}
+      {AuthService.isStaff(user) && (
+        <AdminConsole open={adminConsoleOpen} onOpenChange={setAdminConsoleOpen} />
+      )}
+
       <ConfirmationModal
         open={deleteConfirmOpen}
         onOpenChange={setDeleteConfirmOpen}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Skeleton } from './ui/skeleton';
+import { toast } from 'sonner@2.0.3';
+import { AuthService, DateUtils } from '../services';
+import type { AuthSession } from '../services';
+import { showErrorToast } from './errorToast';
+
+const isMobileDevice = (device: string) => /iphone|ipad|android|mobile|tablet/i.test(device);
+
+// Devices signed in to the account, with sign-out for any of them but this one
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<AuthSession[] | null>(null);
+  // Id of the session being revoked, or 'others' while revoking all of them
+  const [pendingRevoke, setPendingRevoke] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    AuthService.getSessions({ signal: controller.signal })
+      .then(setSessions)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        setSessions([]);
+        showErrorToast(error, 'Failed to load your sessions.');
+      });
+    return () => controller.abort();
+  }, []);
+
+  const otherSessions = sessions?.filter((session) => !session.is_current) ?? [];
+
+  const handleRevoke = async (session: AuthSession) => {
+    setPendingRevoke(session.id);
+    try {
+      await AuthService.revokeSession(session.id);
+      setSessions((current) => current?.filter(({ id }) => id !== session.id) ?? null);
+      toast.success(`Signed out ${session.browser} on ${session.device}`);
+    } catch (error) {
+      showErrorToast(error, 'Failed to sign out that session.');
+    } finally {
+      setPendingRevoke(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setPendingRevoke('others');
+    try {
+      const result = await AuthService.revokeOtherSessions();
+      setSessions((current) => current?.filter(({ is_current }) => is_current) ?? null);
+      toast.success(result.revoked === 1 ? 'Signed out 1 other session' : `Signed out ${result.revoked} other sessions`);
+    } catch (error) {
+      showErrorToast(error, 'Failed to sign out your other sessions.');
+    } finally {
+      setPendingRevoke(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm">Sessions</h4>
+        {otherSessions.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            disabled={pendingRevoke !== null}
+            onClick={handleRevokeOthers}
+          >
+            {pendingRevoke === 'others' ? 'Signing out...' : 'Sign out all others'}
+          </Button>
+        )}
+      </div>
+
+      {sessions === null ? (
+        <div className="space-y-2">
+          <Skeleton className="h-14 w-full" />
+          <Skeleton className="h-14 w-full" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobileDevice(session.device) ? Smartphone : Monitor;
+            return (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-3 px-3 py-2 rounded-md border border-gray-200"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <DeviceIcon className="h-4 w-4 text-gray-500 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm text-gray-700 truncate">
+                        {session.browser} on {session.device}
+                      </p>
+                      {session.is_current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">
+                      {[session.location, session.ip_address].filter(Boolean).join(' · ')}
+                      {' · '}
+                      {session.is_current ? 'Active now' : `Last seen ${DateUtils.formatRelativeTime(session.last_active).toLowerCase()}`}
+                    </p>
+                  </div>
+                </div>
+                {!session.is_current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={pendingRevoke !== null}
+                    onClick={() => handleRevoke(session)}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    {pendingRevoke === session.id ? 'Signing out...' : 'Sign out'}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Database, FileText, RefreshCw, Search, ShieldCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Skeleton } from './ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import { toast } from 'sonner@2.0.3';
+import { useAuthStore } from '../stores';
+import { AdminService, AuthService, DateUtils } from '../services';
+import type { AdminDocument, Document, Paginated } from '../services';
+import { showErrorToast } from './errorToast';
+import { ConfirmationModal } from './ConfirmationModal';
+import { AdminDocumentInspector } from './AdminDocumentInspector';
+import { VectorCachePanel } from './VectorCachePanel';
+
+const PAGE_SIZE = 10;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type StatusFilter = Document['processing_status'] | 'all';
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'failed', label: 'Failed' },
+];
+
+const STATUS_BADGE_CLASSES: Partial<Record<Document['processing_status'], string>> = {
+  completed: 'bg-green-100 text-green-800',
+  processing: 'bg-blue-100 text-blue-800',
+  queued: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+interface AdminConsoleProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Staff-only maintenance: every user's documents and the RAG vector cache
+export function AdminConsole({ open, onOpenChange }: AdminConsoleProps) {
+  const user = useAuthStore((state) => state.user);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [page, setPage] = useState(1);
+  const [documents, setDocuments] = useState<Paginated<AdminDocument> | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [inspecting, setInspecting] = useState<AdminDocument | null>(null);
+  const [confirmBulk, setConfirmBulk] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ completed: number; total: number } | null>(null);
+  const isStaff = AuthService.isStaff(user);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (!open || !isStaff) return;
+
+    const controller = new AbortController();
+    setDocuments(null);
+    AdminService.getDocuments(
+      page,
+      PAGE_SIZE,
+      { search, status: status === 'all' ? undefined : status },
+      { signal: controller.signal }
+    )
+      .then(setDocuments)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        showErrorToast(error, 'Failed to load documents.');
+      });
+    return () => controller.abort();
+  }, [open, isStaff, page, search, status, reloadKey]);
+
+  // Start from a clean slate each time the console is opened
+  useEffect(() => {
+    if (!open) {
+      setSelectedIds(new Set());
+      setInspecting(null);
+    }
+  }, [open]);
+
+  // Belt and braces: the console is only mounted for staff, and the server refuses everyone else
+  if (!isStaff) return null;
+
+  const pageIds = documents?.results.map(({ id }) => id) ?? [];
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.has(id));
+  const totalPages = documents ? Math.max(1, Math.ceil(documents.count / PAGE_SIZE)) : 1;
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const togglePage = (selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      pageIds.forEach((id) => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const handleBulkReprocess = async () => {
+    const ids = [...selectedIds];
+    setBulkProgress({ completed: 0, total: ids.length });
+    try {
+      const outcomes = await AdminService.reprocessDocuments(ids, {
+        onProgress: (completed, total) => setBulkProgress({ completed, total }),
+      });
+      const failed = outcomes.filter((outcome) => outcome.error !== undefined);
+      if (failed.length === 0) {
+        toast.success(ids.length === 1 ? 'Reprocessing started for 1 document' : `Reprocessing started for ${ids.length} documents`);
+      } else {
+        toast.warning(`Reprocessing started for ${outcomes.length - failed.length} of ${ids.length} documents`, {
+          description: `${failed.length} failed; they are still selected so you can try again.`,
+        });
+      }
+      setSelectedIds(new Set(failed.map(({ documentId }) => documentId)));
+      setReloadKey((key) => key + 1);
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const renderDocuments = () => {
+    if (inspecting) {
+      return (
+        <AdminDocumentInspector
+          document={inspecting}
+          onBack={() => setInspecting(null)}
+          onReprocessed={() => setReloadKey((key) => key + 1)}
+        />
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name, file or owner email"
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={status}
+            onValueChange={(value: StatusFilter) => {
+              setStatus(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTERS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 min-h-9">
+          <p className="text-sm text-gray-500">
+            {bulkProgress
+              ? `Reprocessing ${bulkProgress.completed} of ${bulkProgress.total}...`
+              : selectedIds.size > 0
+                ? `${selectedIds.size} selected`
+                : documents && `${documents.count} ${documents.count === 1 ? 'document' : 'documents'}`}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selectedIds.size === 0 || bulkProgress !== null}
+            onClick={() => setConfirmBulk(true)}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${bulkProgress ? 'animate-spin' : ''}`} />
+            Reprocess selected
+          </Button>
+        </div>
+
+        {documents === null ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }, (_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : documents.results.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No documents match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={allOnPageSelected}
+                    onCheckedChange={(checked: boolean) => togglePage(checked === true)}
+                    aria-label="Select all on this page"
+                  />
+                </TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Chunks</TableHead>
+                <TableHead>Uploaded</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.results.map((document) => (
+                <TableRow
+                  key={document.id}
+                  className="cursor-pointer"
+                  onClick={() => setInspecting(document)}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selectedIds.has(document.id)}
+                      onCheckedChange={(checked: boolean) => toggleSelected(document.id, checked === true)}
+                      aria-label={`Select ${document.name}`}
+                    />
+                  </TableCell>
+                  <TableCell className="max-w-[14rem]">
+                    <p className="truncate" title={document.name}>{document.name}</p>
+                  </TableCell>
+                  <TableCell className="max-w-[10rem] text-xs text-gray-500">
+                    <p className="truncate" title={document.owner.email}>{document.owner.email}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={STATUS_BADGE_CLASSES[document.processing_status]}>
+                      {document.processing_status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{document.chunk_count}</TableCell>
+                  <TableCell className="text-xs text-gray-500">{DateUtils.formatRelativeTime(document.created_at)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {documents && totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <span className="text-xs text-gray-500">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="ghost" size="icon" disabled={!documents.previous} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" disabled={!documents.next} onClick={() => setPage(page + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-blue-600" />
+            Admin Console
+          </DialogTitle>
+          <DialogDescription>Inspect any user's document processing and maintain the vector cache</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="documents" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="documents" className="flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              Documents
+            </TabsTrigger>
+            <TabsTrigger value="vector-cache" className="flex items-center gap-2">
+              <Database className="h-4 w-4" />
+              Vector Cache
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="documents" className="mt-4">
+            {renderDocuments()}
+          </TabsContent>
+
+          <TabsContent value="vector-cache" className="mt-4">
+            <VectorCachePanel />
+          </TabsContent>
+        </Tabs>
+
+        <ConfirmationModal
+          open={confirmBulk}
+          onOpenChange={setConfirmBulk}
+          title={`Reprocess ${selectedIds.size === 1 ? '1 document' : `${selectedIds.size} documents`}?`}
+          description="Their chunks and embeddings are rebuilt from the original files. Owners can't query them until processing finishes, and their cached vectors are dropped."
+          confirmText="Reprocess"
+          variant="warning"
+          onConfirm={() => {
+            // Runs in the background; progress shows above the table
+            handleBulkReprocess();
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Skeleton } from './ui/skeleton';
+import { toast } from 'sonner@2.0.3';
+import { RAGService, DateUtils } from '../services';
+import type { AdminDocument, DocumentValidation, RAGDocumentChunk } from '../services';
+import { showErrorToast } from './errorToast';
+
+const CHUNK_PAGE_SIZE = 20;
+
+interface AdminDocumentInspectorProps {
+  document: AdminDocument;
+  onBack: () => void;
+  onReprocessed: () => void;
+}
+
+// One document's processing state as the RAG pipeline sees it, with its stored chunks
+export function AdminDocumentInspector({ document, onBack, onReprocessed }: AdminDocumentInspectorProps) {
+  const [validation, setValidation] = useState<DocumentValidation | null>(null);
+  const [chunks, setChunks] = useState<RAGDocumentChunk[] | null>(null);
+  const [chunkCount, setChunkCount] = useState(0);
+  const [chunkPage, setChunkPage] = useState(1);
+  const [isLoadingChunks, setIsLoadingChunks] = useState(false);
+  const [isReprocessing, setIsReprocessing] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setValidation(null);
+    setChunks(null);
+    setChunkPage(1);
+
+    Promise.all([
+      RAGService.validateDocumentProcessing(document.id, { signal: controller.signal }),
+      RAGService.getDocumentChunks(document.id, 1, CHUNK_PAGE_SIZE, { signal: controller.signal }),
+    ])
+      .then(([validationResult, firstPage]) => {
+        setValidation(validationResult);
+        setChunks(firstPage.results);
+        setChunkCount(firstPage.count);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        setChunks([]);
+        showErrorToast(error, 'Failed to load this document\'s processing details.');
+      });
+    return () => controller.abort();
+  }, [document.id, reloadKey]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingChunks(true);
+    try {
+      const nextPage = await RAGService.getDocumentChunks(document.id, chunkPage + 1, CHUNK_PAGE_SIZE);
+      setChunks((current) => [...(current ?? []), ...nextPage.results]);
+      setChunkCount(nextPage.count);
+      setChunkPage(chunkPage + 1);
+    } catch (error) {
+      showErrorToast(error, 'Failed to load more chunks.');
+    } finally {
+      setIsLoadingChunks(false);
+    }
+  };
+
+  const handleReprocess = async () => {
+    setIsReprocessing(true);
+    try {
+      const result = await RAGService.reprocessDocument(document.id);
+      toast.success(`${document.name}: ${result.message}`);
+      setReloadKey((key) => key + 1);
+      onReprocessed();
+    } catch (error) {
+      showErrorToast(error, `Failed to reprocess ${document.name}`);
+    } finally {
+      setIsReprocessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All documents
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleReprocess} disabled={isReprocessing}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isReprocessing ? 'animate-spin' : ''}`} />
+          {isReprocessing ? 'Reprocessing...' : 'Reprocess'}
+        </Button>
+      </div>
+
+      <div className="rounded-md border border-gray-200 p-3 space-y-1">
+        <p className="text-sm text-gray-900 truncate" title={document.name}>{document.name}</p>
+        <p className="text-xs text-gray-500 truncate">
+          {document.original_filename} · {document.pages} pages · owned by {document.owner.email}
+        </p>
+        <p className="text-xs text-gray-500">
+          Uploaded {DateUtils.formatRelativeTime(document.created_at).toLowerCase()}
+          {document.processed_at && ` · processed ${DateUtils.formatRelativeTime(document.processed_at).toLowerCase()}`}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm">Pipeline state</h4>
+        {validation === null ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <div className="rounded-md bg-gray-50 px-3 py-2">
+              <p className="text-xs text-gray-500">Status</p>
+              <p className="text-gray-900">{validation.processing_status}</p>
+            </div>
+            <div className="rounded-md bg-gray-50 px-3 py-2">
+              <p className="text-xs text-gray-500">Queryable</p>
+              <p className="text-gray-900">{validation.is_processed ? 'Yes' : 'No'}</p>
+            </div>
+            <div className="rounded-md bg-gray-50 px-3 py-2">
+              <p className="text-xs text-gray-500">Chunks</p>
+              <p className="text-gray-900">{validation.chunk_count}</p>
+            </div>
+            {validation.error_message && (
+              <p className="col-span-3 rounded-md bg-red-50 border border-red-200 px-3 py-2 text-xs text-red-800">
+                {validation.error_message}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm">
+          Chunks {chunks !== null && <span className="text-gray-500">({chunks.length} of {chunkCount})</span>}
+        </h4>
+        {chunks === null ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : chunks.length === 0 ? (
+          <p className="text-sm text-gray-500">No chunks stored for this document.</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+            {chunks.map((chunk, index) => (
+              <div key={index} className="rounded-md border border-gray-200 px-3 py-2">
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge variant="secondary">Page {chunk.page_number}</Badge>
+                  <span className="text-xs text-gray-400">#{chunk.metadata?.chunk_index ?? index}</span>
+                </div>
+                <p className="text-xs text-gray-700 whitespace-pre-wrap">{chunk.text}</p>
+              </div>
+            ))}
+            {chunks.length < chunkCount && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={handleLoadMore} disabled={isLoadingChunks}>
+                {isLoadingChunks ? 'Loading...' : 'Load more chunks'}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
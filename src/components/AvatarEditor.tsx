@@ -0,0 +1,232 @@
+import { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw, ZoomIn, ZoomOut } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { toast } from 'sonner@2.0.3';
+
+// Uploaded avatars are always this many pixels square
+const AVATAR_SIZE = 256;
+const PREVIEW_SIZE = 256;
+const MAX_ZOOM = 3;
+
+interface CropState {
+  zoom: number;
+  // Degrees clockwise, a multiple of 90
+  rotation: number;
+  // Pan from the centre, as a fraction of the crop square's side
+  offset: { x: number; y: number };
+}
+
+const INITIAL_CROP: CropState = { zoom: 1, rotation: 0, offset: { x: 0, y: 0 } };
+
+// At zoom 1 the image's short side fills the square, so it never shows empty corners
+const coverScale = (image: HTMLImageElement, size: number) => size / Math.min(image.naturalWidth, image.naturalHeight);
+
+// Keep the (rotated, zoomed) image covering the whole square
+function clampOffset(image: HTMLImageElement, { zoom, rotation }: CropState, offset: CropState['offset']) {
+  const sideways = rotation % 180 !== 0;
+  const scale = coverScale(image, 1) * zoom;
+  const maxX = ((sideways ? image.naturalHeight : image.naturalWidth) * scale - 1) / 2;
+  const maxY = ((sideways ? image.naturalWidth : image.naturalHeight) * scale - 1) / 2;
+  return {
+    x: Math.min(maxX, Math.max(-maxX, offset.x)),
+    y: Math.min(maxY, Math.max(-maxY, offset.y)),
+  };
+}
+
+function drawCrop(canvas: HTMLCanvasElement, image: HTMLImageElement, { zoom, rotation, offset }: CropState) {
+  const size = canvas.width;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const scale = coverScale(image, size) * zoom;
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+
+  ctx.save();
+  // JPEG has no transparency; give transparent PNGs a white background instead of black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(size / 2 + offset.x * size, size / 2 + offset.y * size);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  ctx.restore();
+}
+
+interface AvatarEditorProps {
+  // The picked image; the editor is open while this is set
+  file: File | null;
+  onCancel: () => void;
+  onSave: (avatar: File) => void;
+}
+
+// Crop, zoom and rotate a picked photo, then hand back a small square JPEG for upload
+export function AvatarEditor({ file, onCancel, onSave }: AvatarEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<CropState>(INITIAL_CROP);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setImage(null);
+    setCrop(INITIAL_CROP);
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => {
+      toast.error("This image couldn't be read. Please choose another one.");
+      onCancel();
+    };
+    img.src = url;
+    return () => {
+      img.onload = null;
+      img.onerror = null;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (image && canvasRef.current) {
+      drawCrop(canvasRef.current, image, crop);
+    }
+  }, [image, crop]);
+
+  const updateCrop = (changes: Partial<CropState> | ((current: CropState) => Partial<CropState>)) => {
+    setCrop((current) => {
+      const next = { ...current, ...(typeof changes === 'function' ? changes(current) : changes) };
+      return image ? { ...next, offset: clampOffset(image, next, next.offset) } : next;
+    });
+  };
+
+  const rotate = (degrees: number) => {
+    updateCrop((current) => ({ rotation: (current.rotation + degrees + 360) % 360 }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+
+    // Offsets are in crop-square units, so scale by the canvas' on-screen size
+    const side = e.currentTarget.getBoundingClientRect().width || PREVIEW_SIZE;
+    const dx = (e.clientX - drag.x) / side;
+    const dy = (e.clientY - drag.y) / side;
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+    updateCrop((current) => ({ offset: { x: current.offset.x + dx, y: current.offset.y + dy } }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) {
+      dragRef.current = null;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!image || !file) return;
+    setIsSaving(true);
+    try {
+      const output = document.createElement('canvas');
+      output.width = AVATAR_SIZE;
+      output.height = AVATAR_SIZE;
+      drawCrop(output, image, crop);
+
+      const blob = await new Promise<Blob | null>((resolve) => output.toBlob(resolve, 'image/jpeg', 0.9));
+      if (!blob) {
+        throw new Error('Canvas export failed');
+      }
+      const baseName = file.name.replace(/\.[^.]+$/, '') || 'avatar';
+      onSave(new File([blob], `${baseName}.jpg`, { type: 'image/jpeg' }));
+    } catch (error) {
+      console.error('❌ Avatar crop failed:', error);
+      toast.error("Couldn't process this image. Please try another one.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open: boolean) => !open && !isSaving && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Profile Photo</DialogTitle>
+          <DialogDescription>Drag to reposition, then zoom or rotate until it looks right</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-4 py-2">
+          <div
+            className="relative overflow-hidden rounded-lg bg-gray-100"
+            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+          >
+            <canvas
+              ref={canvasRef}
+              width={PREVIEW_SIZE}
+              height={PREVIEW_SIZE}
+              className="block h-full w-full cursor-move touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {/* Avatars are shown round; dim what the circle cuts off */}
+            <div className="pointer-events-none absolute inset-0 rounded-full shadow-[0_0_0_9999px_rgba(0,0,0,0.4)]" />
+            {!image && (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+                Loading image...
+              </div>
+            )}
+          </div>
+
+          <div className="flex w-full items-center gap-3">
+            <ZoomOut className="h-4 w-4 text-gray-500" />
+            <Slider
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={[crop.zoom]}
+              onValueChange={([zoom]: number[]) => updateCrop({ zoom })}
+              disabled={!image}
+              aria-label="Zoom"
+            />
+            <ZoomIn className="h-4 w-4 text-gray-500" />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => rotate(-90)} disabled={!image}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Rotate Left
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => rotate(90)} disabled={!image}>
+              <RotateCw className="h-4 w-4 mr-2" />
+              Rotate Right
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!image || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Photo'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Eye, EyeOff, KeyRound, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { toast } from 'sonner@2.0.3';
+import { AuthService, ValidationError } from '../services';
+import { showErrorToast } from './errorToast';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+interface ChangePasswordModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface FormErrors {
+  currentPassword?: string;
+  newPassword?: string;
+  confirmPassword?: string;
+}
+
+type PasswordField = keyof FormErrors;
+
+export function ChangePasswordModal({ open, onOpenChange }: ChangePasswordModalProps) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [visible, setVisible] = useState<Record<PasswordField, boolean>>({
+    currentPassword: false,
+    newPassword: false,
+    confirmPassword: false,
+  });
+  const [signOutOtherSessions, setSignOutOtherSessions] = useState(true);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const resetForm = () => {
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setVisible({ currentPassword: false, newPassword: false, confirmPassword: false });
+    setSignOutOtherSessions(true);
+    setErrors({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isLoading) return;
+    if (!nextOpen) resetForm();
+    onOpenChange(nextOpen);
+  };
+
+  const validate = (): FormErrors => {
+    const nextErrors: FormErrors = {};
+    if (!currentPassword) nextErrors.currentPassword = 'Current password is required';
+    if (!newPassword) {
+      nextErrors.newPassword = 'New password is required';
+    } else if (newPassword.length < 8) {
+      nextErrors.newPassword = 'Password must be at least 8 characters';
+    } else if (newPassword === currentPassword) {
+      nextErrors.newPassword = 'New password must be different from your current password';
+    }
+    if (!confirmPassword) {
+      nextErrors.confirmPassword = 'Please confirm your new password';
+    } else if (confirmPassword !== newPassword) {
+      nextErrors.confirmPassword = 'Passwords do not match';
+    }
+    return nextErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validate();
+    setErrors(validationErrors);
+    if (Object.values(validationErrors).some(Boolean)) return;
+
+    setIsLoading(true);
+    try {
+      await AuthService.changePassword({
+        current_password: currentPassword,
+        new_password: newPassword,
+        sign_out_other_sessions: signOutOtherSessions,
+      });
+
+      toast.success(
+        signOutOtherSessions
+          ? 'Password changed. Your other sessions have been signed out.'
+          : 'Password changed successfully.'
+      );
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      const serverErrors: FormErrors = error instanceof ValidationError
+        ? {
+            currentPassword: error.getFieldError('current_password'),
+            newPassword: error.getFieldError('new_password') || error.getFieldError('password'),
+          }
+        : {};
+
+      if (serverErrors.currentPassword || serverErrors.newPassword) {
+        setErrors(serverErrors);
+      } else {
+        showErrorToast(error, 'Failed to change password. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderPasswordField = (
+    field: PasswordField,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    autoComplete: string
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <div className="relative">
+        <Input
+          id={field}
+          type={visible[field] ? 'text' : 'password'}
+          placeholder="••••••••"
+          autoComplete={autoComplete}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            if (errors[field]) setErrors({ ...errors, [field]: undefined });
+          }}
+          disabled={isLoading}
+          className={`pr-10 transition-all ${
+            errors[field] ? 'border-red-500 focus-visible:ring-red-500' : ''
+          }`}
+        />
+        <button
+          type="button"
+          onClick={() => setVisible({ ...visible, [field]: !visible[field] })}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          {visible[field] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+        </button>
+      </div>
+      {errors[field] && (
+        <div className="flex items-center gap-1 text-sm text-red-600">
+          <X className="h-3 w-3" />
+          <span>{errors[field]}</span>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Change Password
+          </DialogTitle>
+          <DialogDescription>
+            Enter your current password, then choose a new one. You'll stay signed in on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {renderPasswordField('currentPassword', 'Current Password', currentPassword, setCurrentPassword, 'current-password')}
+
+          <div className="space-y-2">
+            {renderPasswordField('newPassword', 'New Password', newPassword, setNewPassword, 'new-password')}
+            {newPassword && !errors.newPassword && <PasswordStrengthMeter password={newPassword} />}
+          </div>
+
+          {renderPasswordField('confirmPassword', 'Confirm New Password', confirmPassword, setConfirmPassword, 'new-password')}
+
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="signOutOtherSessions"
+              checked={signOutOtherSessions}
+              onCheckedChange={(checked: boolean) => setSignOutOtherSessions(checked)}
+              disabled={isLoading}
+            />
+            <label
+              htmlFor="signOutOtherSessions"
+              className="text-sm text-gray-700 cursor-pointer select-none leading-tight"
+            >
+              Sign out of all other sessions
+              <span className="block text-xs text-gray-500">
+                Recommended if you think someone else knows your password
+              </span>
+            </label>
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Changing...' : 'Change Password'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,10 +5,13 @@ import { Textarea } from './ui/textarea';
 import { ScrollArea } from './ui/scroll-area';
 import { Badge } from './ui/badge';
 import { toast } from 'sonner';
-import { WebSocketChatClient, ChatService, ErrorUtils } from '../services';
+import { WebSocketChatClient, ChatService, ErrorUtils, StorageUtils, chatDraftKey, NotFoundError } from '../services';
+import type { Message as ChatMessage } from '../services';
+import { useAuthStore } from '../stores';
 import type { Message } from '../App';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { showErrorToast } from './errorToast';
 
 const normalizeMarkdownContent = (text: string): string => {
   if (!text) {
@@ -32,6 +35,21 @@ const normalizeMarkdownContent = (text: string): string => {
   return normalized;
 };
 
+// Messages kept in a chat session are brought back into the UI's shape
+const toPanelMessages = (history: ChatMessage[]): Message[] =>
+  history
+    .filter((message) => message.role !== 'system')
+    .map((message) => ({
+      id: message.id,
+      role: message.role === 'assistant' ? 'ai' : 'user',
+      content: message.content,
+      pageReferences: message.page_references,
+      timestamp: new Date(message.created_at),
+    }));
+
+// Up to this many messages are restored when a chat is reopened from its URL
+const RESTORED_MESSAGE_LIMIT = 100;
+
 interface ChatPanelProps {
   messages: Message[];
   onSendMessage: (content: string) => void;
@@ -44,6 +62,10 @@ interface ChatPanelProps {
     can_be_queried?: boolean;
     processing_status?: string;
   };
+  // Chat session to reopen (e.g. from the URL); a new one is started when absent or not found
+  sessionId?: string;
+  onSessionChange?: (sessionId: string) => void;
+  onMessagesLoaded?: (messages: Message[]) => void;
 }
 
 export function ChatPanel({
@@ -53,115 +75,195 @@ export function ChatPanel({
   onPageReference,
   onSettingsClick,
   currentDocument,
+  sessionId,
+  onSessionChange,
+  onMessagesLoaded,
 }: ChatPanelProps) {
   const [input, setInput] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [wsClient, setWsClient] = useState<WebSocketChatClient | null>(null);
-  const [chatSession, setChatSession] = useState<string | null>(null);
+  const [chatSession, setChatSession] = useState<{ id: string; documentId: string } | null>(null);
   const [streamingMessage, setStreamingMessage] = useState('');
   const [isConnected, setIsConnected] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const userId = useAuthStore((state) => state.user?.id);
+
+  // Unsent text is kept per user and document, so it survives a sign-out (e.g. the idle timeout)
+  const draftKey = userId !== undefined && currentDocument ? chatDraftKey(userId, currentDocument.id) : null;
 
-  // Initialize chat session and WebSocket connection
   useEffect(() => {
-    const initializeChat = async () => {
-      if (!currentDocument) {
-        console.log('ChatPanel: No document selected, skipping WebSocket initialization');
-        return;
-      }
+    setInput(draftKey ? StorageUtils.getItem(draftKey, '') : '');
+  }, [draftKey]);
+
+  const updateInput = (value: string) => {
+    setInput(value);
+    if (!draftKey) return;
+    if (value) {
+      StorageUtils.setItem(draftKey, value);
+    } else {
+      StorageUtils.removeItem(draftKey);
+    }
+  };
+
+  const documentId = currentDocument?.id;
+  const documentName = currentDocument?.name;
+  const canBeQueried = currentDocument?.can_be_queried;
+
+  // Pick the chat session: reopen the requested one, or start a new one
+  useEffect(() => {
+    if (!documentId || !documentName) {
+      console.log('ChatPanel: No document selected, skipping chat initialization');
+      setChatSession(null);
+      return;
+    }
+
+    // Check if document can be queried
+    if (canBeQueried === false) {
+      console.log('Document cannot be queried yet, status:', currentDocument?.processing_status);
+      setChatSession(null);
+      return;
+    }
 
-      // Check if document can be queried
-      if (currentDocument.can_be_queried === false) {
-        console.log('Document cannot be queried yet, status:', currentDocument.processing_status);
-        return;
+    // The session this panel just opened coming back through the URL; nothing to do
+    if (sessionId && chatSession?.id === sessionId && chatSession.documentId === documentId) {
+      return;
+    }
+
+    // Switching documents aborts the previous document's setup before it can connect
+    const controller = new AbortController();
+    setChatSession(null);
+
+    const restoreSession = async (id: string): Promise<Message[] | null> => {
+      try {
+        const session = await ChatService.getChatSession(id, { signal: controller.signal });
+        if (session.document !== documentId) return null;
+        const history = await ChatService.getChatMessages(id, 1, RESTORED_MESSAGE_LIMIT, { signal: controller.signal });
+        return toPanelMessages(history.results);
+      } catch (error) {
+        if (error instanceof NotFoundError) return null;
+        throw error;
       }
+    };
 
-      console.log('ChatPanel: Initializing chat for document:', currentDocument.id);
+    const openSession = async () => {
+      console.log('ChatPanel: Initializing chat for document:', documentId);
 
       try {
-        // Create or get chat session for this document
+        const restored = sessionId ? await restoreSession(sessionId) : null;
+        if (controller.signal.aborted) return;
+
+        if (restored) {
+          console.log('Chat session restored:', sessionId, 'messages:', restored.length);
+          setChatSession({ id: sessionId!, documentId });
+          onMessagesLoaded?.(restored);
+          return;
+        }
+
+        if (sessionId) {
+          // Don't carry the previous session's messages over into the new one
+          onMessagesLoaded?.([]);
+          toast.info('That chat could not be found, so a new one was started.');
+        }
+
         const session = await ChatService.createChatSession({
-          document_id: currentDocument.id,
-          title: `Chat with ${currentDocument.name}`,
-        });
+          document_id: documentId,
+          title: `Chat with ${documentName}`,
+        }, { signal: controller.signal });
 
-        console.log('Chat session created:', session);
-        console.log('Session ID:', session.id);
+        console.log('Chat session created:', session.id);
+        setChatSession({ id: session.id, documentId });
+        onSessionChange?.(session.id);
+      } catch (error) {
+        if (controller.signal.aborted || ErrorUtils.isAbortError(error)) return;
+        console.error('Failed to initialize chat:', error);
+        showErrorToast(error, 'Failed to initialize chat');
+      }
+    };
 
-        setChatSession(session.id);
+    openSession();
 
-        // Initialize WebSocket client
-        const client = new WebSocketChatClient(session.id, currentDocument.id);
-        console.log('WebSocket client initialized with session:', session.id, 'document:', currentDocument.id);
-        
-        client.onConnect = () => {
-          setIsConnected(true);
-          console.log('WebSocket connected');
-        };
-
-        client.onDisconnect = () => {
-          setIsConnected(false);
-          console.log('WebSocket disconnected');
-        };
-
-        client.onToken = (data) => {
-          setStreamingMessage(prev => prev + data.token);
-        };
-
-        client.onResponseComplete = (data) => {
-          // Extract page references from chunks
-          const pageReferences = data.chunks
-            ?.map((chunk: any) => chunk.page || chunk.page_number)
-            .filter((page): page is number => typeof page === 'number' && page > 0) || [];
-          
-          // Remove duplicates
-          const uniquePages = Array.from(new Set(pageReferences)).sort((a, b) => a - b);
-
-          // Add completed message to chat
-          const newMessage: Message = {
-            id: data.message_id,
-            role: 'ai',
-            content: data.content,
-            pageReferences: uniquePages,
-            timestamp: new Date(data.timestamp),
-          };
-
-          // Add to messages via parent component
-          onSendMessage('INTERNAL_AI_MESSAGE:' + JSON.stringify(newMessage));
-          setStreamingMessage('');
-          setIsGenerating(false);
-        };
-
-        client.onChatError = (data) => {
-          toast.error(data.message);
-          setIsGenerating(false);
-          setStreamingMessage('');
-        };
-
-        // Connect to WebSocket
+    return () => controller.abort();
+  }, [documentId, documentName, canBeQueried, sessionId]);
+
+  // Connect the WebSocket for the chosen session
+  useEffect(() => {
+    if (!chatSession) return;
+
+    let cancelled = false;
+    const client = new WebSocketChatClient(chatSession.id, chatSession.documentId);
+    console.log('WebSocket client initialized with session:', chatSession.id, 'document:', chatSession.documentId);
+
+    client.onConnect = () => {
+      setIsConnected(true);
+      console.log('WebSocket connected');
+    };
+
+    client.onDisconnect = () => {
+      setIsConnected(false);
+      console.log('WebSocket disconnected');
+    };
+
+    client.onToken = (data) => {
+      setStreamingMessage(prev => prev + data.token);
+    };
+
+    client.onResponseComplete = (data) => {
+      // Extract page references from chunks
+      const pageReferences = data.chunks
+        ?.map((chunk: any) => chunk.page || chunk.page_number)
+        .filter((page): page is number => typeof page === 'number' && page > 0) || [];
+
+      // Remove duplicates
+      const uniquePages = Array.from(new Set(pageReferences)).sort((a, b) => a - b);
+
+      // Add completed message to chat
+      const newMessage: Message = {
+        id: data.message_id,
+        role: 'ai',
+        content: data.content,
+        pageReferences: uniquePages,
+        timestamp: new Date(data.timestamp),
+      };
+
+      // Add to messages via parent component
+      onSendMessage('INTERNAL_AI_MESSAGE:' + JSON.stringify(newMessage));
+      setStreamingMessage('');
+      setIsGenerating(false);
+    };
+
+    client.onChatError = (data) => {
+      toast.error(data.message);
+      setIsGenerating(false);
+      setStreamingMessage('');
+    };
+
+    const connect = async () => {
+      try {
         console.log('Attempting to connect to WebSocket...');
         await client.connect();
+        if (cancelled) return;
         console.log('WebSocket connection established');
         setWsClient(client);
-
       } catch (error) {
-        console.error('Failed to initialize chat:', error);
-        toast.error('Failed to initialize chat: ' + (error instanceof Error ? error.message : String(error)));
+        if (cancelled) return;
+        console.error('Failed to connect chat:', error);
+        showErrorToast(error, 'Failed to initialize chat');
       }
     };
 
-    initializeChat();
+    connect();
 
-    // Cleanup on unmount or document change
+    // Cleanup on unmount or session change
     return () => {
-      if (wsClient) {
-        console.log('ChatPanel: Cleaning up WebSocket connection');
-        wsClient.disconnect();
-        setWsClient(null);
-        setIsConnected(false);
-      }
+      cancelled = true;
+      console.log('ChatPanel: Cleaning up WebSocket connection');
+      client.disconnect();
+      setWsClient(null);
+      setIsConnected(false);
+      setIsGenerating(false);
+      setStreamingMessage('');
     };
-  }, [currentDocument]);
+  }, [chatSession]);
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
@@ -191,7 +293,7 @@ export function ChatPanel({
       
         onSendMessage(JSON.stringify(userMessage));
       
-        setInput('');
+        updateInput('');
         setIsGenerating(true);
         setStreamingMessage('');
       } catch (error) {
@@ -420,7 +522,7 @@ export function ChatPanel({
         <div className="relative">
           <Textarea
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => updateInput(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder={currentDocument ? "Ask anything about your document..." : "Select a document to start chatting..."}
             className="min-h-[80px] pr-24 resize-none"
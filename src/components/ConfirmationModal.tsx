@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { AlertTriangle, Trash2, Info, CheckCircle } from 'lucide-react';
 import {
   Dialog,
@@ -17,7 +18,12 @@ interface ConfirmationModalProps {
   confirmText?: string;
   cancelText?: string;
   variant?: 'danger' | 'warning' | 'info' | 'success';
-  onConfirm: () => void;
+  // A returned promise keeps the dialog open until it settles; if it rejects the dialog stays
+  // open, so report the error inside onConfirm
+  onConfirm: () => void | Promise<void>;
+  // Extra content between the description and the buttons, e.g. inputs the action needs
+  children?: React.ReactNode;
+  confirmDisabled?: boolean;
 }
 
 export function ConfirmationModal({
@@ -29,10 +35,21 @@ export function ConfirmationModal({
   cancelText = 'Cancel',
   variant = 'info',
   onConfirm,
+  children,
+  confirmDisabled = false,
 }: ConfirmationModalProps) {
-  const handleConfirm = () => {
-    onConfirm();
-    onOpenChange(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    try {
+      await onConfirm();
+      onOpenChange(false);
+    } catch {
+      // onConfirm has already shown the error; leave the dialog open to retry
+    } finally {
+      setIsConfirming(false);
+    }
   };
 
   const getIcon = () => {
@@ -66,7 +83,7 @@ export function ConfirmationModal({
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={(nextOpen: boolean) => !isConfirming && onOpenChange(nextOpen)}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <div className="flex items-start gap-4">
@@ -82,11 +99,13 @@ export function ConfirmationModal({
           </div>
         </DialogHeader>
 
+        {children}
+
         <DialogFooter className="mt-6">
-          <Button variant="outline" onClick={() => onOpenChange(false)}>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isConfirming}>
             {cancelText}
           </Button>
-          <Button variant={getButtonVariant()} onClick={handleConfirm}>
+          <Button variant={getButtonVariant()} onClick={handleConfirm} disabled={confirmDisabled || isConfirming}>
             {confirmText}
           </Button>
         </DialogFooter>
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { toast } from 'sonner@2.0.3';
+import { ConfirmationModal } from './ConfirmationModal';
+import { useAuthStore } from '../stores';
+import {
+  ACCOUNT_DELETION_CONFIRMATION,
+  AuthService,
+  ChatService,
+  DocumentService,
+  ValidationError,
+  OAUTH_PROVIDER_NAMES,
+} from '../services';
+import { showErrorToast } from './errorToast';
+
+interface DeleteAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeleted: () => void;
+}
+
+interface DeletionSummary {
+  documents: number;
+  chatSessions: number;
+}
+
+// Account deletion: lists what goes, then needs the password and the typed confirmation word
+export function DeleteAccountDialog({ open, onOpenChange, onDeleted }: DeleteAccountDialogProps) {
+  const { user, deleteAccount } = useAuthStore();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [errors, setErrors] = useState<{ password?: string; confirmation?: string }>({});
+  const [summary, setSummary] = useState<DeletionSummary | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setPassword('');
+    setConfirmation('');
+    setErrors({});
+    setSummary(null);
+
+    // Counts only: one-item pages are enough to read `count`
+    const controller = new AbortController();
+    Promise.all([
+      DocumentService.getDocuments(1, 1, { signal: controller.signal }),
+      ChatService.getChatSessions(1, 1, { signal: controller.signal }),
+    ])
+      .then(([documents, chats]) => setSummary({ documents: documents.count, chatSessions: chats.count }))
+      .catch(() => {
+        // The list below falls back to wording without numbers
+      });
+    return () => controller.abort();
+  }, [open]);
+
+  const linkedProviders = AuthService.getLinkedOAuthProviders(user);
+  const confirmationMatches = confirmation.trim() === ACCOUNT_DELETION_CONFIRMATION;
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+  const handleDelete = async () => {
+    try {
+      await deleteAccount({ password, confirmation: confirmation.trim() });
+      toast.success('Your account and all of its data have been deleted.');
+      onDeleted();
+    } catch (error) {
+      if (error instanceof ValidationError && (error.getFieldError('password') || error.getFieldError('confirmation'))) {
+        setErrors({ password: error.getFieldError('password'), confirmation: error.getFieldError('confirmation') });
+      } else {
+        showErrorToast(error, 'Failed to delete your account. Please try again.');
+      }
+      throw error;
+    }
+  };
+
+  const renderError = (message?: string) =>
+    message && (
+      <div className="flex items-center gap-1 text-sm text-red-600">
+        <X className="h-3 w-3" />
+        <span>{message}</span>
+      </div>
+    );
+
+  return (
+    <ConfirmationModal
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Delete your account?"
+      description="This permanently deletes your account and everything in it. It can't be undone — download your data first if you want to keep a copy."
+      confirmText="Delete Account"
+      variant="danger"
+      onConfirm={handleDelete}
+      confirmDisabled={!password || !confirmationMatches}
+    >
+      <div className="space-y-4">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-900 mb-2">The following will be removed:</p>
+          <ul className="space-y-1 text-xs text-red-800 list-disc pl-4">
+            <li>
+              Your profile and settings
+              {linkedProviders.length > 0 &&
+                `, and the link to ${linkedProviders.map((provider) => OAUTH_PROVIDER_NAMES[provider]).join(' and ')}`}
+            </li>
+            <li>
+              {summary ? plural(summary.documents, 'document') : 'All your documents'} and the original files
+            </li>
+            <li>
+              {summary ? plural(summary.chatSessions, 'chat session') : 'All your chat sessions'} with every message
+            </li>
+            <li>Your question history</li>
+            <li>Every signed-in session, on all devices</li>
+          </ul>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="deleteAccountPassword">Password</Label>
+          <Input
+            id="deleteAccountPassword"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              setErrors({ ...errors, password: undefined });
+            }}
+          />
+          {renderError(errors.password)}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="deleteAccountConfirmation">
+            Type <span className="font-mono font-semibold">{ACCOUNT_DELETION_CONFIRMATION}</span> to confirm
+          </Label>
+          <Input
+            id="deleteAccountConfirmation"
+            autoComplete="off"
+            value={confirmation}
+            onChange={(e) => {
+              setConfirmation(e.target.value);
+              setErrors({ ...errors, confirmation: undefined });
+            }}
+          />
+          {renderError(errors.confirmation)}
+        </div>
+      </div>
+    </ConfirmationModal>
+  );
+}
@@ -9,8 +9,10 @@ import {
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
 import { toast } from 'sonner';
-import { FileValidator, ErrorUtils } from '../services';
+import type { Document as ApiDocument } from '../services';
+import { showErrorToast } from './errorToast';
 import { useDocumentsStore } from '../stores';
+import { useUploadQueue } from '../stores/hooks';
 import type { Document } from '../App';
 import { API_CONFIG } from '../services/api';
 
@@ -19,7 +21,7 @@ const resolveFileUrl = (url?: string | null): string | undefined => {
     return undefined;
   }
 
-  if (/^https?:\/\//i.test(url)) {
+  if (/^(https?:\/\/|blob:|data:)/i.test(url)) {
     return url;
   }
 
@@ -28,6 +30,16 @@ const resolveFileUrl = (url?: string | null): string | undefined => {
   return `${base}${path}`;
 };
 
+// Shape the rest of the UI works with (see App.tsx)
+export const toViewDocument = (doc: ApiDocument): Document => ({
+  id: doc.id,
+  name: doc.name,
+  pages: doc.pages || 0,
+  size: doc.file_size_formatted || `${(doc.file_size / (1024 * 1024)).toFixed(1)} MB`,
+  uploadDate: new Date(doc.upload_date),
+  file_url: resolveFileUrl(doc.file_url),  // Include file_url for PDF preview
+});
+
 interface DocumentSidebarProps {
   documents: Document[];
   selectedDocument: Document | null;
@@ -55,11 +67,10 @@ export function DocumentSidebar({
   const { 
     documents: storeDocuments,
     fetchDocuments, 
-    uploadDocument, 
     deleteDocument: deleteFromStore,
     isLoading: loading,
-    isUploading: uploading,
   } = useDocumentsStore();
+  const { addFiles } = useUploadQueue();
 
   // Load documents from API on component mount
   useEffect(() => {
@@ -70,14 +81,7 @@ export function DocumentSidebar({
   useEffect(() => {
     console.log('🔄 DocumentSidebar: Store documents changed, count:', storeDocuments.length);
     
-    const formattedDocs: Document[] = storeDocuments.map((doc) => ({
-      id: doc.id,
-      name: doc.name,
-      pages: doc.pages || 0,
-      size: doc.file_size_formatted || `${(doc.file_size / (1024 * 1024)).toFixed(1)} MB`,
-      uploadDate: new Date(doc.upload_date),
-      file_url: resolveFileUrl(doc.file_url),  // Include file_url for PDF preview
-    }));
+    const formattedDocs: Document[] = storeDocuments.map(toViewDocument);
     
     console.log('📋 DocumentSidebar: Syncing to App.tsx, formatted docs:', formattedDocs.length);
     console.log('🔗 DocumentSidebar: First doc file_url:', formattedDocs[0]?.file_url);
@@ -101,42 +105,9 @@ export function DocumentSidebar({
     
     const files = Array.from(e.dataTransfer.files) as File[];
     if (files.length > 0) {
-      handleFileUpload(files[0]);
-    }
-  };
-
-  const handleFileUpload = async (file: File) => {
-    // Validate file
-    const validation = FileValidator.isValidFile(file);
-    if (!validation.valid) {
-      toast.error(validation.error);
-      return;
-    }
-
-    try {
-      const uploadedDoc = await uploadDocument({
-        file,
-        name: file.name.replace(/\.[^/.]+$/, ''), // Remove extension
-      });
-
-      // Convert to local Document format for App.tsx
-      const newDoc: Document = {
-        id: uploadedDoc.id,
-        name: uploadedDoc.name,
-        pages: uploadedDoc.pages || 0,
-        size: uploadedDoc.file_size_formatted || `${(uploadedDoc.file_size / (1024 * 1024)).toFixed(1)} MB`,
-        uploadDate: new Date(uploadedDoc.upload_date),
-        file_url: resolveFileUrl(uploadedDoc.file_url),
-      };
-      
-      // Select the newly uploaded document
-      onSelectDocument(newDoc);
-      
-      toast.success('Document uploaded successfully!');
-      // Note: No need to manually update documents list - the useEffect will sync from store
-    } catch (error) {
-      console.error('Upload failed:', error);
-      toast.error(ErrorUtils.getErrorMessage(error));
+      addFiles(files);
+      // The upload dialog shows the queue
+      onUploadClick();
     }
   };
 
@@ -155,7 +126,7 @@ export function DocumentSidebar({
       // Note: No need to manually update documents list - the useEffect will sync from store
     } catch (error) {
       console.error('Delete failed:', error);
-      toast.error(ErrorUtils.getErrorMessage(error));
+      showErrorToast(error);
     }
   };
 
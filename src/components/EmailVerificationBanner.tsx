@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { Button } from './ui/button';
+import { toast } from 'sonner';
+import { useAuthStore } from '../stores';
+import { AuthService, RateLimitedError } from '../services';
+import { showErrorToast } from './errorToast';
+
+// Seconds before another verification email can be requested
+const RESEND_COOLDOWN_SECONDS = 60;
+
+// Shown above the workspace until the signed-in user's email is verified
+export function EmailVerificationBanner() {
+  const user = useAuthStore((state) => state.user);
+  const [isSending, setIsSending] = useState(false);
+  const [resendCooldown, setResendCooldown] = useState(0);
+
+  // Tick the resend cooldown down once a second
+  useEffect(() => {
+    if (resendCooldown <= 0) return;
+    const timer = setTimeout(() => setResendCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCooldown]);
+
+  if (!user || user.is_email_verified) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await AuthService.resendVerificationEmail();
+      setResendCooldown(RESEND_COOLDOWN_SECONDS);
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error) {
+      if (error instanceof RateLimitedError) {
+        setResendCooldown(Math.ceil((error.retryAfterMs ?? RESEND_COOLDOWN_SECONDS * 1000) / 1000));
+      }
+      showErrorToast(error, 'Failed to send verification email. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-yellow-50 border-b border-yellow-200">
+      <MailWarning className="h-4 w-4 text-yellow-700 shrink-0" />
+      <p className="flex-1 text-sm text-yellow-900">
+        Please verify your email address. We sent a link to <span className="font-medium">{user.email}</span>.
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleResend}
+        disabled={isSending || resendCooldown > 0}
+        className="border-yellow-300 bg-white hover:bg-yellow-100"
+      >
+        {isSending
+          ? 'Sending...'
+          : resendCooldown > 0
+          ? `Resend in ${resendCooldown}s`
+          : 'Resend email'}
+      </Button>
+    </div>
+  );
+}
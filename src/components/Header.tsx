@@ -1,4 +1,4 @@
-import { Download, Share2, Trash2, Menu } from 'lucide-react';
+import { Download, Share2, Trash2, Menu, ShieldCheck } from 'lucide-react';
 import { Button } from './ui/button';
 import {
   DropdownMenu,
@@ -9,6 +9,8 @@ import {
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
 import { Avatar, AvatarFallback } from './ui/avatar';
+import { useAuthStore } from '../stores';
+import { AuthService } from '../services';
 import type { Document } from '../App';
 
 interface HeaderProps {
@@ -19,23 +21,11 @@ interface HeaderProps {
   onDeleteClick: () => void;
   onProfileClick: () => void;
   onLogout?: () => void;
-  userProfile: {
-    name: string;
-    email: string;
-    avatarUrl?: string;
-    joinDate: string;
-  };
+  onAdminClick: () => void;
 }
 
-export function Header({ document, onToggleSidebar, onSettingsClick, onShareClick, onDeleteClick, onProfileClick, onLogout, userProfile }: HeaderProps) {
-  const getInitials = (name: string) => {
-    return name
-      .split(' ')
-      .map((n) => n[0])
-      .join('')
-      .toUpperCase()
-      .slice(0, 2);
-  };
+export function Header({ document, onToggleSidebar, onSettingsClick, onShareClick, onDeleteClick, onProfileClick, onLogout, onAdminClick }: HeaderProps) {
+  const user = useAuthStore((state) => state.user);
   return (
     <header className="flex items-center justify-between px-6 py-4 bg-white border-b border-gray-200">
       <div className="flex items-center gap-4">
@@ -103,6 +93,12 @@ export function Header({ document, onToggleSidebar, onSettingsClick, onShareClic
           <Trash2 className="h-4 w-4 mr-2" />
           Delete
         </Button>
+        {AuthService.isStaff(user) && (
+          <Button variant="ghost" size="sm" onClick={onAdminClick}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Admin
+          </Button>
+        )}
         
         <Button 
           variant="ghost" 
@@ -114,11 +110,11 @@ export function Header({ document, onToggleSidebar, onSettingsClick, onShareClic
           }}
         >
           <Avatar className="h-8 w-8 cursor-pointer hover:ring-2 hover:ring-blue-500 transition-all">
-            {userProfile.avatarUrl ? (
-              <img src={userProfile.avatarUrl} alt={userProfile.name} className="object-cover" />
+            {user?.avatar_url ? (
+              <img src={user.avatar_url} alt={user.full_name} className="object-cover" />
             ) : (
               <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-600 text-white">
-                {getInitials(userProfile.name)}
+                {user?.initials || '?'}
               </AvatarFallback>
             )}
           </Avatar>
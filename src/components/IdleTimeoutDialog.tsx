@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { useAuthStore } from '../stores';
+import { ActivityTracker, getRuntimeConfig } from '../services';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface IdleTimeoutDialogProps {
+  // The "Log Out" button: a regular sign-out, not an idle one
+  onLogout: () => void;
+}
+
+// Counts down before the idle sign-out; any activity (here or in another tab) keeps the session
+export function IdleTimeoutDialog({ onLogout }: IdleTimeoutDialogProps) {
+  const { isAuthenticated, logout } = useAuthStore();
+  const { idleTimeoutMs, idleWarningMs } = getRuntimeConfig();
+  // Time left before sign-out while the warning is showing, null otherwise
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated || idleTimeoutMs <= 0) return;
+
+    let signingOut = false;
+    const signOut = () => {
+      if (signingOut) return;
+      signingOut = true;
+      setRemainingMs(null);
+      console.log('⏰ Signing out after inactivity');
+      logout('idle');
+    };
+
+    const check = () => {
+      const remaining = idleTimeoutMs - ActivityTracker.getIdleMs();
+      if (remaining <= 0) {
+        signOut();
+      } else {
+        setRemainingMs(remaining <= idleWarningMs ? remaining : null);
+      }
+    };
+
+    const unsubscribe = ActivityTracker.subscribe((idleMs) => {
+      // Background tabs throttle timers, so the deadline can pass before the next check runs
+      if (idleMs >= idleTimeoutMs) {
+        signOut();
+      } else {
+        setRemainingMs(null);
+      }
+    });
+    check();
+    const timer = setInterval(check, 1000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+      setRemainingMs(null);
+    };
+  }, [isAuthenticated, idleTimeoutMs, idleWarningMs, logout]);
+
+  const handleStaySignedIn = () => {
+    ActivityTracker.recordActivity();
+    setRemainingMs(null);
+  };
+
+  return (
+    <Dialog open={remainingMs !== null} onOpenChange={(open: boolean) => !open && handleStaySignedIn()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-yellow-600" />
+            Are you still there?
+          </DialogTitle>
+          <DialogDescription>
+            You'll be signed out in{' '}
+            <span className="font-medium text-gray-900 tabular-nums">{formatCountdown(remainingMs ?? 0)}</span>{' '}
+            because you've been inactive. Anything you were typing will be kept for when you sign back in.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onLogout}>
+            Log Out
+          </Button>
+          <Button onClick={handleStaySignedIn}>Stay Signed In</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
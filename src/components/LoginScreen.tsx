@@ -1,16 +1,21 @@
 import React, { useState } from 'react';
-import { Eye, EyeOff, X } from 'lucide-react';
+import { Eye, EyeOff, ShieldAlert, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Checkbox } from './ui/checkbox';
 import { toast } from 'sonner';
 import { useAuthStore } from '../stores';
-import { AuthService, ApiException, ErrorUtils } from '../services';
+import { AuthService, AuthExpiredError, ValidationError, getRuntimeConfig, OAUTH_PROVIDER_NAMES } from '../services';
+import type { OAuthProvider, SessionEndReason } from '../services';
+import { showErrorToast } from './errorToast';
+import { TwoFactorLoginStep } from './TwoFactorLoginStep';
 
 interface LoginScreenProps {
   onLoginSuccess: () => void;
   onSwitchToSignup: () => void;
+  onForgotPassword: (email: string) => void;
+  initialEmail?: string;
 }
 
 interface FormErrors {
@@ -18,15 +23,26 @@ interface FormErrors {
   password?: string;
 }
 
-export function LoginScreen({ onLoginSuccess, onSwitchToSignup }: LoginScreenProps) {
-  const { login, isLoading: authLoading, error: authError, clearError } = useAuthStore();
+const SESSION_END_MESSAGES: Record<SessionEndReason, string> = {
+  expired: 'Your session has expired. Sign in again to pick up where you left off.',
+  revoked: 'You were signed out because this session was ended from another device. Sign in again to continue.',
+  idle: 'You were signed out after a period of inactivity. Sign in again to pick up where you left off.',
+};
+
+export function LoginScreen({ onLoginSuccess, onSwitchToSignup, onForgotPassword, initialEmail = '' }: LoginScreenProps) {
+  const { login, isLoading: authLoading, clearError, sessionEndReason } = useAuthStore();
+  const { features, oauthProviders } = getRuntimeConfig();
   
-  const [email, setEmail] = useState('');
+  const [email, setEmail] = useState(initialEmail);
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
+  // Only rejected credentials get the inline message; other failures are toasted
+  const [invalidCredentials, setInvalidCredentials] = useState(false);
+  // Set when the password was right but the account also needs a TOTP or recovery code
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
 
   const validateField = (field: string, value: string): string | undefined => {
     switch (field) {
@@ -49,11 +65,21 @@ export function LoginScreen({ onLoginSuccess, onSwitchToSignup }: LoginScreenPro
     setErrors({ ...errors, [field]: error });
   };
 
+  const handleLoginComplete = () => {
+    toast.success('Welcome back to ChatPdf!', {
+      duration: 3000,
+    });
+
+    // Call success handler immediately - no delay needed
+    onLoginSuccess();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Clear any previous auth errors
     clearError();
+    setInvalidCredentials(false);
 
     const emailError = validateField('email', email);
     const passwordError = validateField('password', password);
@@ -74,45 +100,41 @@ export function LoginScreen({ onLoginSuccess, onSwitchToSignup }: LoginScreenPro
 
     try {
       // Use auth store for login
-      await login({
+      const challenge = await login({
         email,
         password,
         remember_me: rememberMe,
       });
 
-      // Only execute success logic if login was successful
-      toast.success('Welcome back to ChatPdf!', {
-        duration: 3000,
-      });
+      if (challenge) {
+        setTwoFactorChallenge(challenge.challenge_token);
+        return;
+      }
 
-      // Call success handler immediately - no delay needed
-      onLoginSuccess();
+      handleLoginComplete();
 
     } catch (error) {
-      // Login failed - get the actual server error message for toast
-      const serverErrorMessage = ErrorUtils.getErrorMessage(error);
-      
-      // Show server error in toast
-      toast.error(serverErrorMessage);
-      
-      // Don't set local form errors - use authError from store instead
-      // The auth store will have the error, and we'll display a user-friendly message
+      if (error instanceof ValidationError || error instanceof AuthExpiredError) {
+        setInvalidCredentials(true);
+        return;
+      }
+
+      // Network, rate limit and server failures say nothing about the credentials
+      showErrorToast(error, 'Login failed. Please try again.');
     }
   };
 
-  const handleSocialLogin = async (provider: string) => {
+  const handleSocialLogin = async (provider: OAuthProvider) => {
     try {
-      const authUrl = await AuthService.getOAuthUrl(provider as 'google' | 'github');
+      const authUrl = await AuthService.getOAuthUrl(provider, { remember_me: rememberMe });
       window.location.href = authUrl;
     } catch (error) {
-      toast.error(`${provider} authentication is not configured`);
+      toast.error(`${OAUTH_PROVIDER_NAMES[provider]} authentication is not configured`);
     }
   };
 
   const handleForgotPassword = () => {
-    toast.info('Password reset link would be sent to your email', {
-      duration: 2000,
-    });
+    onForgotPassword(email.trim());
   };
 
   return (
@@ -224,173 +246,207 @@ export function LoginScreen({ onLoginSuccess, onSwitchToSignup }: LoginScreenPro
 
         <div className="w-full max-w-md relative z-10">
           <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-            <div className="mb-8">
-              <h2 className="mb-2 text-gray-900">Sign in to ChatPdf</h2>
-              <p className="text-gray-600">Welcome back! Please enter your details</p>
-            </div>
-
-            <form onSubmit={handleSubmit} className="space-y-5">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email Address</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="you@example.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  onBlur={() => handleBlur('email')}
-                  className={`transition-all ${
-                    touched.email && errors.email
-                      ? 'border-red-500 ring-2 ring-red-200'
-                      : 'focus:ring-2 focus:ring-blue-200 focus:border-blue-500'
-                  }`}
-                />
-                {touched.email && errors.email && (
-                  <div className="flex items-center gap-1 text-sm text-red-600">
-                    <X className="h-3 w-3" />
-                    <span>{errors.email}</span>
-                  </div>
-                )}
+            {twoFactorChallenge ? (
+              <TwoFactorLoginStep
+                challengeToken={twoFactorChallenge}
+                rememberMe={rememberMe}
+                onSuccess={handleLoginComplete}
+                onCancel={() => {
+                  setTwoFactorChallenge(null);
+                  setPassword('');
+                }}
+              />
+            ) : (
+              <>
+              <div className="mb-8">
+                <h2 className="mb-2 text-gray-900">Sign in to ChatPdf</h2>
+                <p className="text-gray-600">Welcome back! Please enter your details</p>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
+              {sessionEndReason && (
+                <div className="flex items-start gap-2 mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <ShieldAlert className="h-4 w-4 mt-0.5 text-yellow-700 shrink-0" />
+                  <p className="text-sm text-yellow-900">{SESSION_END_MESSAGES[sessionEndReason]}</p>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email Address</Label>
                   <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    placeholder="••••••••"
-                    value={password}
-                    onChange={(e) => {
-                      setPassword(e.target.value);
-                      // Clear both local password error and auth error when user types
-                      if (errors.password) {
-                        setErrors(prev => ({ ...prev, password: undefined }));
-                      }
-                      if (authError) {
-                        clearError();
-                      }
-                    }}
-                    onBlur={() => handleBlur('password')}
-                    className={`pr-10 transition-all ${
-                      (touched.password && errors.password) || authError
+                    id="email"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    onBlur={() => handleBlur('email')}
+                    className={`transition-all ${
+                      touched.email && errors.email
                         ? 'border-red-500 ring-2 ring-red-200'
                         : 'focus:ring-2 focus:ring-blue-200 focus:border-blue-500'
                     }`}
                   />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                  >
-                    {showPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </button>
+                  {touched.email && errors.email && (
+                    <div className="flex items-center gap-1 text-sm text-red-600">
+                      <X className="h-3 w-3" />
+                      <span>{errors.email}</span>
+                    </div>
+                  )}
                 </div>
-                {(touched.password && errors.password) || authError ? (
-                  <div className="flex items-center gap-1 text-sm text-red-600">
-                    <X className="h-3 w-3" />
-                    <span>
-                      {authError ? 'Invalid email or password. Please try again.' : errors.password}
-                    </span>
+
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      placeholder="••••••••"
+                      value={password}
+                      onChange={(e) => {
+                        setPassword(e.target.value);
+                        // Clear both local password error and auth error when user types
+                        if (errors.password) {
+                          setErrors(prev => ({ ...prev, password: undefined }));
+                        }
+                        if (invalidCredentials) {
+                          setInvalidCredentials(false);
+                          clearError();
+                        }
+                      }}
+                      onBlur={() => handleBlur('password')}
+                      className={`pr-10 transition-all ${
+                        (touched.password && errors.password) || invalidCredentials
+                          ? 'border-red-500 ring-2 ring-red-200'
+                          : 'focus:ring-2 focus:ring-blue-200 focus:border-blue-500'
+                      }`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                    </button>
                   </div>
-                ) : null}
-              </div>
+                  {(touched.password && errors.password) || invalidCredentials ? (
+                    <div className="flex items-center gap-1 text-sm text-red-600">
+                      <X className="h-3 w-3" />
+                      <span>
+                        {invalidCredentials ? 'Invalid email or password. Please try again.' : errors.password}
+                      </span>
+                    </div>
+                  ) : null}
+                </div>
 
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="remember"
-                    checked={rememberMe}
-                    onCheckedChange={(checked: boolean) => setRememberMe(checked)}
-                  />
-                  <label
-                    htmlFor="remember"
-                    className="text-sm text-gray-700 cursor-pointer select-none"
-                  >
-                    Remember me
-                  </label>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="remember"
+                      checked={rememberMe}
+                      onCheckedChange={(checked: boolean) => setRememberMe(checked)}
+                    />
+                    <label
+                      htmlFor="remember"
+                      className="text-sm text-gray-700 cursor-pointer select-none"
+                    >
+                      Remember me
+                    </label>
+                  </div>
+                  {features.passwordReset && (
+                    <button
+                      type="button"
+                      onClick={handleForgotPassword}
+                      className="text-sm text-blue-600 hover:text-blue-700 hover:underline transition-colors"
+                    >
+                      Forgot password?
+                    </button>
+                  )}
                 </div>
-                <button
-                  type="button"
-                  onClick={handleForgotPassword}
-                  className="text-sm text-blue-600 hover:text-blue-700 hover:underline transition-colors"
-                >
-                  Forgot password?
-                </button>
-              </div>
 
-              <Button
-                type="submit"
-                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all"
-                disabled={authLoading}
-              >
-                {authLoading ? 'Signing in...' : 'Sign In'}
-              </Button>
-            </form>
-
-            <div className="relative my-6">
-              <div className="absolute inset-0 flex items-center">
-                <div className="w-full border-t border-gray-200" />
-              </div>
-              <div className="relative flex justify-center text-sm">
-                <span className="px-4 bg-white text-gray-500">Or continue with</span>
-              </div>
-            </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all"
+                  disabled={authLoading}
+                >
+                  {authLoading ? 'Signing in...' : 'Sign In'}
+                </Button>
+              </form>
+
+              {oauthProviders.length > 0 && (
+                <>
+                  <div className="relative my-6">
+                    <div className="absolute inset-0 flex items-center">
+                      <div className="w-full border-t border-gray-200" />
+                    </div>
+                    <div className="relative flex justify-center text-sm">
+                      <span className="px-4 bg-white text-gray-500">Or continue with</span>
+                    </div>
+                  </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => handleSocialLogin('Google')}
-                className="transition-all hover:bg-gray-50"
-              >
-                <svg className="h-5 w-5 mr-2" viewBox="0 0 24 24">
-                  <path
-                    fill="#4285F4"
-                    d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                  />
-                  <path
-                    fill="#34A853"
-                    d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                  />
-                  <path
-                    fill="#FBBC05"
-                    d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                  />
-                  <path
-                    fill="#EA4335"
-                    d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                  />
-                </svg>
-                Google
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => handleSocialLogin('GitHub')}
-                className="transition-all hover:bg-gray-50"
-              >
-                <svg className="h-5 w-5 mr-2" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
-                </svg>
-                GitHub
-              </Button>
-            </div>
+                  <div className={`grid ${oauthProviders.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} gap-3`}>
+                    {oauthProviders.includes('google') && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleSocialLogin('google')}
+                        className="transition-all hover:bg-gray-50"
+                      >
+                        <svg className="h-5 w-5 mr-2" viewBox="0 0 24 24">
+                          <path
+                            fill="#4285F4"
+                            d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                          />
+                          <path
+                            fill="#34A853"
+                            d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                          />
+                          <path
+                            fill="#FBBC05"
+                            d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                          />
+                          <path
+                            fill="#EA4335"
+                            d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                          />
+                        </svg>
+                        Google
+                      </Button>
+                    )}
+                    {oauthProviders.includes('github') && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleSocialLogin('github')}
+                        className="transition-all hover:bg-gray-50"
+                      >
+                        <svg className="h-5 w-5 mr-2" fill="currentColor" viewBox="0 0 24 24">
+                          <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
+                        </svg>
+                        GitHub
+                      </Button>
+                    )}
+                  </div>
+                </>
+              )}
 
-            <p className="text-center text-sm text-gray-600 mt-6">
-              Don't have an account?{' '}
-              <button
-                type="button"
-                onClick={onSwitchToSignup}
-                className="text-blue-600 hover:text-blue-700 hover:underline transition-colors"
-              >
-                Sign up for ChatPdf
-              </button>
-            </p>
+              {features.signup && (
+                <p className="text-center text-sm text-gray-600 mt-6">
+                  Don't have an account?{' '}
+                  <button
+                    type="button"
+                    onClick={onSwitchToSignup}
+                    className="text-blue-600 hover:text-blue-700 hover:underline transition-colors"
+                  >
+                    Sign up for ChatPdf
+                  </button>
+                </p>
+              )}
+              </>
+            )}
           </div>
 
           <p className="text-center text-xs text-gray-500 mt-6">
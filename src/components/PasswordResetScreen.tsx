@@ -1,23 +1,54 @@
-import { useState } from 'react';
-import { Eye, EyeOff, X, Check, ArrowLeft } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Eye, EyeOff, X, Check, ArrowLeft, Mail, AlertTriangle } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Progress } from './ui/progress';
 import { toast } from 'sonner@2.0.3';
+import { useAuthStore } from '../stores';
+import { AuthService, NotFoundError, RateLimitedError, ValidationError } from '../services';
+import { showErrorToast } from './errorToast';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
 
 interface PasswordResetScreenProps {
+  // Token from a /reset-password?token=... link; without one the screen starts by asking for an email
+  token?: string | null;
+  initialEmail?: string;
   onResetComplete: () => void;
-  userEmail: string;
+  onBackToLogin: (email?: string) => void;
 }
 
 interface FormErrors {
+  email?: string;
   password?: string;
   confirmPassword?: string;
 }
 
-export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordResetScreenProps) {
-  const [step, setStep] = useState<'confirm' | 'reset'>('confirm');
+type ResetStep = 'request' | 'sent' | 'reset' | 'invalid';
+
+// Seconds before another reset email can be requested
+const RESEND_COOLDOWN_SECONDS = 60;
+
+const TOKEN_ERROR_MESSAGES: Record<string, string> = {
+  token_expired: 'This reset link has expired. Reset links are only valid for a short time, so please request a new one.',
+  token_used: 'This reset link has already been used. If you still need to change your password, request a new link.',
+};
+
+// Expired, used or unknown tokens, as opposed to problems with the new password
+const getTokenError = (error: unknown): string | null => {
+  if (error instanceof NotFoundError) {
+    return 'This reset link is invalid. Please request a new one.';
+  }
+  if (error instanceof ValidationError && (error.getFieldError('token') || error.code?.startsWith('token_'))) {
+    return (error.code && TOKEN_ERROR_MESSAGES[error.code]) || error.getFieldError('token') || 'This reset link is invalid. Please request a new one.';
+  }
+  return null;
+};
+
+export function PasswordResetScreen({ token, initialEmail = '', onResetComplete, onBackToLogin }: PasswordResetScreenProps) {
+  const { login } = useAuthStore();
+
+  const [step, setStep] = useState<ResetStep>(token ? 'reset' : 'request');
+  const [email, setEmail] = useState(initialEmail);
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -25,33 +56,22 @@ export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordRese
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [resendCooldown, setResendCooldown] = useState(0);
 
-  const calculatePasswordStrength = (pwd: string): number => {
-    let strength = 0;
-    if (pwd.length >= 8) strength += 25;
-    if (pwd.length >= 12) strength += 15;
-    if (/[a-z]/.test(pwd) && /[A-Z]/.test(pwd)) strength += 20;
-    if (/[0-9]/.test(pwd)) strength += 20;
-    if (/[^a-zA-Z0-9]/.test(pwd)) strength += 20;
-    return Math.min(strength, 100);
-  };
-
-  const passwordStrength = calculatePasswordStrength(password);
-
-  const getPasswordStrengthColor = () => {
-    if (passwordStrength < 40) return 'bg-red-500';
-    if (passwordStrength < 70) return 'bg-yellow-500';
-    return 'bg-green-500';
-  };
-
-  const getPasswordStrengthText = () => {
-    if (passwordStrength < 40) return 'Weak';
-    if (passwordStrength < 70) return 'Medium';
-    return 'Strong';
-  };
+  // Tick the resend cooldown down once a second
+  useEffect(() => {
+    if (resendCooldown <= 0) return;
+    const timer = setTimeout(() => setResendCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCooldown]);
 
   const validateField = (field: string, value: string): string | undefined => {
     switch (field) {
+      case 'email':
+        if (!value.trim()) return 'Email is required';
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim())) return 'Please enter a valid email';
+        return undefined;
       case 'password':
         if (!value) return 'Password is required';
         if (value.length < 8) return 'Password must be at least 8 characters';
@@ -67,24 +87,42 @@ export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordRese
 
   const handleBlur = (field: string) => {
     setTouched({ ...touched, [field]: true });
-    const value = field === 'password' ? password : confirmPassword;
+    const value = field === 'email' ? email : field === 'password' ? password : confirmPassword;
     const error = validateField(field, value);
     setErrors({ ...errors, [field]: error });
   };
 
-  const handleSendResetLink = () => {
+  const handleSendResetLink = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    const emailError = validateField('email', email);
+    setErrors({ ...errors, email: emailError });
+    setTouched({ ...touched, email: true });
+    if (emailError || resendCooldown > 0) {
+      return;
+    }
+
     setIsLoading(true);
-    // Simulate sending reset link
-    setTimeout(() => {
-      setIsLoading(false);
+    try {
+      await AuthService.requestPasswordReset({ email: email.trim() });
+      setStep('sent');
+      setResendCooldown(RESEND_COOLDOWN_SECONDS);
       toast.success('Password reset link sent to your email!');
-      setTimeout(() => {
-        setStep('reset');
-      }, 1000);
-    }, 1500);
+    } catch (error) {
+      if (error instanceof RateLimitedError) {
+        setResendCooldown(Math.ceil((error.retryAfterMs ?? RESEND_COOLDOWN_SECONDS * 1000) / 1000));
+      }
+      if (error instanceof ValidationError && error.getFieldError('email')) {
+        setErrors({ ...errors, email: error.getFieldError('email') });
+        return;
+      }
+      showErrorToast(error, 'Could not send the reset link. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleResetPassword = (e: React.FormEvent) => {
+  const handleResetPassword = async (e: React.FormEvent) => {
     e.preventDefault();
 
     const passwordError = validateField('password', password);
@@ -100,23 +138,50 @@ export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordRese
       confirmPassword: true,
     });
 
-    if (passwordError || confirmPasswordError) {
+    if (passwordError || confirmPasswordError || !token) {
       return;
     }
 
     setIsLoading(true);
-
-    // Simulate password reset
-    setTimeout(() => {
+    try {
+      const result = await AuthService.confirmPasswordReset({ token, password });
+      const accountEmail = result.email || email.trim();
+
+      // Sign straight in when we know whose password this was; otherwise (or if that
+      // fails, or the account needs its second factor) go to login
+      if (accountEmail) {
+        try {
+          const challenge = await login({ email: accountEmail, password });
+          if (!challenge) {
+            toast.success('Password reset successful! Logging you in...');
+            onResetComplete();
+            return;
+          }
+        } catch (error) {
+          console.warn('⚠️ Automatic sign-in after password reset failed:', error);
+        }
+      }
+
+      toast.success('Password reset successful! Please sign in with your new password.');
+      onBackToLogin(accountEmail || undefined);
+    } catch (error) {
+      const linkError = getTokenError(error);
+      if (linkError) {
+        setTokenError(linkError);
+        setStep('invalid');
+        return;
+      }
+      if (error instanceof ValidationError && error.getFieldError('password')) {
+        setErrors({ password: error.getFieldError('password') });
+        return;
+      }
+      showErrorToast(error, 'Password reset failed. Please try again.');
+    } finally {
       setIsLoading(false);
-      toast.success('Password reset successful! Logging you in...');
-      setTimeout(() => {
-        onResetComplete();
-      }, 1500);
-    }, 1500);
+    }
   };
 
-  if (step === 'confirm') {
+  if (step !== 'reset') {
     return (
       <div className="flex min-h-screen">
         {/* Left Side - Branding */}
@@ -216,7 +281,7 @@ export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordRese
           </div>
         </div>
 
-        {/* Right Side - Confirmation */}
+        {/* Right Side - Request / Status */}
         <div className="flex-1 flex items-center justify-center p-8 bg-gray-50 relative overflow-hidden">
           {/* Background gradient circles */}
           <div className="absolute top-0 right-0 w-96 h-96 bg-blue-200 opacity-20 rounded-full blur-3xl translate-x-1/3 -translate-y-1/3" />
@@ -224,43 +289,140 @@ export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordRese
 
           <div className="w-full max-w-md relative z-10">
             <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-              <div className="mb-8 text-center">
-                <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
-                  <svg className="w-8 h-8 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                  </svg>
-                </div>
-                <h2 className="mb-2 text-gray-900">Reset Your Password</h2>
-                <p className="text-gray-600">We'll send a reset link to your email</p>
-              </div>
+              {step === 'request' && (
+                <>
+                  <div className="mb-8 text-center">
+                    <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+                      <svg className="w-8 h-8 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                      </svg>
+                    </div>
+                    <h2 className="mb-2 text-gray-900">Reset Your Password</h2>
+                    <p className="text-gray-600">We'll send a reset link to your email</p>
+                  </div>
+
+                  <form onSubmit={handleSendResetLink} className="space-y-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="reset-email">Email</Label>
+                      <Input
+                        id="reset-email"
+                        type="email"
+                        placeholder="you@example.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        onBlur={() => handleBlur('email')}
+                        className={`transition-all ${
+                          touched.email && errors.email
+                            ? 'border-red-500 ring-2 ring-red-200'
+                            : 'focus:ring-2 focus:ring-blue-200 focus:border-blue-500'
+                        }`}
+                      />
+                      {touched.email && errors.email && (
+                        <div className="flex items-center gap-1 text-sm text-red-600">
+                          <X className="h-3 w-3" />
+                          <span>{errors.email}</span>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                      <p className="text-sm text-yellow-900">
+                        ⚠️ You will be logged out of all devices for security purposes.
+                      </p>
+                    </div>
+
+                    <Button
+                      type="submit"
+                      disabled={isLoading || resendCooldown > 0}
+                      className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                    >
+                      {isLoading
+                        ? 'Sending Reset Link...'
+                        : resendCooldown > 0
+                        ? `Send Reset Link (${resendCooldown}s)`
+                        : 'Send Reset Link'}
+                    </Button>
+
+                    <p className="text-center text-sm text-gray-500">
+                      Remembered it?{' '}
+                      <button type="button" onClick={() => onBackToLogin(email.trim() || undefined)} className="text-blue-600 hover:underline">
+                        Back to sign in
+                      </button>
+                    </p>
+                  </form>
+                </>
+              )}
+
+              {step === 'sent' && (
+                <div className="space-y-6">
+                  <div className="text-center">
+                    <div className="mx-auto w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mb-4">
+                      <Mail className="w-8 h-8 text-green-600" />
+                    </div>
+                    <h2 className="mb-2 text-gray-900">Check Your Inbox</h2>
+                    <p className="text-gray-600">If an account exists for this email, a reset link is on its way.</p>
+                  </div>
 
-              <div className="space-y-6">
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                  <p className="text-sm text-blue-900 mb-2">Reset link will be sent to:</p>
-                  <p className="text-blue-600">{userEmail}</p>
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                    <p className="text-sm text-blue-900 mb-2">Reset link sent to:</p>
+                    <p className="text-blue-600">{email.trim()}</p>
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleSendResetLink()}
+                    disabled={isLoading || resendCooldown > 0}
+                    className="w-full"
+                  >
+                    {isLoading
+                      ? 'Sending...'
+                      : resendCooldown > 0
+                      ? `Resend link in ${resendCooldown}s`
+                      : 'Resend link'}
+                  </Button>
+
+                  <div className="flex items-center justify-between text-sm">
+                    <button type="button" onClick={() => setStep('request')} className="text-blue-600 hover:underline">
+                      Use a different email
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onBackToLogin(email.trim())}
+                      className="flex items-center gap-1 text-gray-600 hover:text-gray-900"
+                    >
+                      <ArrowLeft className="h-4 w-4" />
+                      Back to sign in
+                    </button>
+                  </div>
                 </div>
+              )}
 
-                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                  <p className="text-sm text-yellow-900">
-                    ⚠️ You will be logged out of all devices for security purposes.
+              {step === 'invalid' && (
+                <div className="space-y-6">
+                  <div className="text-center">
+                    <div className="mx-auto w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
+                      <AlertTriangle className="w-8 h-8 text-red-600" />
+                    </div>
+                    <h2 className="mb-2 text-gray-900">Reset Link Not Valid</h2>
+                    <p className="text-gray-600">{tokenError}</p>
+                  </div>
+
+                  <Button
+                    type="button"
+                    onClick={() => setStep('request')}
+                    className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                  >
+                    Request a New Link
+                  </Button>
+
+                  <p className="text-center text-sm text-gray-500">
+                    <button type="button" onClick={() => onBackToLogin()} className="text-blue-600 hover:underline">
+                      Back to sign in
+                    </button>
                   </p>
                 </div>
-
-                <Button
-                  onClick={handleSendResetLink}
-                  disabled={isLoading}
-                  className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                >
-                  {isLoading ? 'Sending Reset Link...' : 'Send Reset Link'}
-                </Button>
-
-                <p className="text-center text-sm text-gray-500">
-                  Didn't request a password reset?{' '}
-                  <button className="text-blue-600 hover:underline">
-                    Cancel
-                  </button>
-                </p>
-              </div>
+              )}
             </div>
           </div>
         </div>
@@ -360,27 +522,7 @@ export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordRese
                   </div>
                 )}
                 {password && !errors.password && (
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-xs">
-                      <span className="text-gray-600">Password strength:</span>
-                      <span
-                        className={`${
-                          passwordStrength < 40
-                            ? 'text-red-600'
-                            : passwordStrength < 70
-                            ? 'text-yellow-600'
-                            : 'text-green-600'
-                        }`}
-                      >
-                        {getPasswordStrengthText()}
-                      </span>
-                    </div>
-                    <Progress
-                      value={passwordStrength}
-                      className="h-1.5"
-                      indicatorClassName={getPasswordStrengthColor()}
-                    />
-                  </div>
+                  <PasswordStrengthMeter password={password} />
                 )}
               </div>
 
@@ -423,6 +565,12 @@ export function PasswordResetScreen({ onResetComplete, userEmail }: PasswordRese
               >
                 {isLoading ? 'Resetting Password...' : 'Reset Password'}
               </Button>
+
+              <p className="text-center text-sm text-gray-500">
+                <button type="button" onClick={() => onBackToLogin()} className="text-blue-600 hover:underline">
+                  Back to sign in
+                </button>
+              </p>
             </form>
           </div>
         </div>
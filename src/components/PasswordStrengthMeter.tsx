@@ -0,0 +1,54 @@
+import { Progress } from './ui/progress';
+
+// 0-100 score from length and character variety
+export const calculatePasswordStrength = (pwd: string): number => {
+  let strength = 0;
+  if (pwd.length >= 8) strength += 25;
+  if (pwd.length >= 12) strength += 15;
+  if (/[a-z]/.test(pwd) && /[A-Z]/.test(pwd)) strength += 20;
+  if (/[0-9]/.test(pwd)) strength += 20;
+  if (/[^a-zA-Z0-9]/.test(pwd)) strength += 20;
+  return Math.min(strength, 100);
+};
+
+const getPasswordStrengthColor = (strength: number) => {
+  if (strength < 40) return 'bg-red-500';
+  if (strength < 70) return 'bg-yellow-500';
+  return 'bg-green-500';
+};
+
+const getPasswordStrengthTextColor = (strength: number) => {
+  if (strength < 40) return 'text-red-600';
+  if (strength < 70) return 'text-yellow-600';
+  return 'text-green-600';
+};
+
+const getPasswordStrengthText = (strength: number) => {
+  if (strength < 40) return 'Weak';
+  if (strength < 70) return 'Medium';
+  return 'Strong';
+};
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+export function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const strength = calculatePasswordStrength(password);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-600">Password strength:</span>
+        <span className={getPasswordStrengthTextColor(strength)}>
+          {getPasswordStrengthText(strength)}
+        </span>
+      </div>
+      <Progress
+        value={strength}
+        className="h-1.5"
+        indicatorClassName={getPasswordStrengthColor(strength)}
+      />
+    </div>
+  );
+}
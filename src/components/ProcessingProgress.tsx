@@ -2,7 +2,8 @@ import { useEffect, useState } from 'react';
 import { Loader2, CheckCircle2, XCircle, Clock } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Progress } from './ui/progress';
-import { API_BASE_URL, TokenManager } from '../services';
+import { DocumentService, ErrorUtils, getRuntimeConfig } from '../services';
+import type { ProcessingStatus } from '../services';
 
 interface ProcessingProgressProps {
   documentId: string;
@@ -11,17 +12,6 @@ interface ProcessingProgressProps {
   onError?: (error: string) => void;
 }
 
-interface ProcessingStatus {
-  processing_status: 'pending' | 'queued' | 'processing' | 'completed' | 'failed';
-  progress_current: number;
-  progress_total: number;
-  progress_percentage: number;
-  progress_stage: string;
-  chunk_count: number;
-  can_be_queried: boolean;
-  processing_error?: string;
-}
-
 export function ProcessingProgress({
   documentId,
   documentName,
@@ -32,23 +22,13 @@ export function ProcessingProgress({
   const [polling, setPolling] = useState(true);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const pollStatus = async () => {
       try {
-        const token = TokenManager.getAccessToken();
-        const response = await fetch(
-          `${API_BASE_URL}/api/documents/${documentId}/processing_status/`,
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch processing status');
-        }
-
-        const data = await response.json();
+        const data = await DocumentService.getProcessingStatus(documentId, {
+          signal: controller.signal,
+        });
         setStatus(data);
 
         // Stop polling if completed or failed
@@ -60,6 +40,7 @@ export function ProcessingProgress({
           onError?.(data.processing_error || 'Processing failed');
         }
       } catch (error) {
+        if (ErrorUtils.isAbortError(error)) return;
         console.error('Error polling processing status:', error);
         // Continue polling even on error (might be temporary network issue)
       }
@@ -68,13 +49,14 @@ export function ProcessingProgress({
     // Initial poll
     pollStatus();
 
-    // Set up polling interval (every 2 seconds)
+    // Set up polling interval (2 seconds unless the deployment tunes it)
     let interval: NodeJS.Timeout | null = null;
     if (polling) {
-      interval = setInterval(pollStatus, 2000);
+      interval = setInterval(pollStatus, getRuntimeConfig().processingPollIntervalMs);
     }
 
     return () => {
+      controller.abort();
       if (interval) {
         clearInterval(interval);
       }
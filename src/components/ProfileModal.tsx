@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react';
-import { User, Camera, Key, Mail, Calendar, Upload } from 'lucide-react';
+import { User, Camera, Key, Mail, Calendar, Upload, Link2, Unlink } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -13,17 +13,17 @@ import { Label } from './ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Separator } from './ui/separator';
 import { toast } from 'sonner@2.0.3';
+import { useAuthStore } from '../stores';
+import { AuthService, getRuntimeConfig, OAUTH_PROVIDER_NAMES } from '../services';
+import type { OAuthProvider } from '../services';
+import { showErrorToast } from './errorToast';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { ActiveSessions } from './ActiveSessions';
+import { AvatarEditor } from './AvatarEditor';
 
 interface ProfileModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  userProfile: {
-    name: string;
-    email: string;
-    avatarUrl?: string;
-    joinDate: string;
-  };
-  onAvatarUpload: (file: File) => void;
   onPasswordChangeRequest: () => void;
   onLogout: () => Promise<void>;
 }
@@ -31,14 +31,17 @@ interface ProfileModalProps {
 export function ProfileModal({
   open,
   onOpenChange,
-  userProfile,
-  onAvatarUpload,
   onPasswordChangeRequest,
   onLogout,
 }: ProfileModalProps) {
   const [isEditing, setIsEditing] = useState(false);
-  const [displayName, setDisplayName] = useState(userProfile.name);
+  const [displayName, setDisplayName] = useState('');
+  const [avatarSource, setAvatarSource] = useState<File | null>(null);
+  const [pendingProvider, setPendingProvider] = useState<OAuthProvider | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user, updateProfile, unlinkOAuthProvider } = useAuthStore();
+  const { oauthProviders } = getRuntimeConfig();
+  const linkedProviders = AuthService.getLinkedOAuthProviders(user);
 
   console.log('ProfileModal render, open:', open);
 
@@ -48,6 +51,8 @@ export function ProfileModal({
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Let the same file be picked again after cancelling the editor
+    e.target.value = '';
     if (file) {
       // Validate file type
       if (!file.type.startsWith('image/')) {
@@ -61,26 +66,77 @@ export function ProfileModal({
         return;
       }
 
-      onAvatarUpload(file);
+      setAvatarSource(file);
+    }
+  };
+
+  // The store shows the new photo right away and puts the old one back if the upload fails
+  const handleAvatarSave = async (avatar: File) => {
+    setAvatarSource(null);
+    try {
+      await updateProfile({ avatar });
       toast.success('Profile photo updated successfully!');
+    } catch (error) {
+      showErrorToast(error, 'Failed to update your profile photo');
     }
   };
 
-  const handleSaveProfile = () => {
+  const handleEditName = () => {
+    setDisplayName(user?.full_name ?? '');
+    setIsEditing(true);
+  };
+
+  const handleSaveProfile = async () => {
+    const name = displayName.trim().replace(/\s+/g, ' ');
+    if (!name) {
+      toast.error('Please enter your name');
+      return;
+    }
+
     setIsEditing(false);
-    toast.success('Profile updated successfully!');
-    // In a real app, you would save the changes to the backend
+    if (name === user?.full_name) return;
+
+    // Everything after the first word is the last name
+    const [firstName, ...lastNames] = name.split(' ');
+    try {
+      await updateProfile({ first_name: firstName, last_name: lastNames.join(' ') });
+      toast.success('Profile updated successfully!');
+    } catch (error) {
+      showErrorToast(error, 'Failed to update your profile');
+      // Give the typed name back so it can be fixed and saved again
+      setDisplayName(name);
+      setIsEditing(true);
+    }
   };
 
-  const getInitials = (name: string) => {
-    return name
-      .split(' ')
-      .map((n) => n[0])
-      .join('')
-      .toUpperCase()
-      .slice(0, 2);
+  const handleLinkProvider = async (provider: OAuthProvider) => {
+    setPendingProvider(provider);
+    try {
+      // Comes back through the OAuth callback, which reports the result
+      window.location.href = await AuthService.getOAuthUrl(provider, { mode: 'link' });
+    } catch (error) {
+      showErrorToast(error, `Couldn't connect ${OAUTH_PROVIDER_NAMES[provider]}`);
+      setPendingProvider(null);
+    }
   };
 
+  const handleUnlinkProvider = async (provider: OAuthProvider) => {
+    setPendingProvider(provider);
+    try {
+      await unlinkOAuthProvider(provider);
+      toast.success(`${OAUTH_PROVIDER_NAMES[provider]} account disconnected`);
+    } catch (error) {
+      // e.g. the provider is the only way left to sign in
+      showErrorToast(error, `Couldn't disconnect ${OAUTH_PROVIDER_NAMES[provider]}`);
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
+  const joinDate = user
+    ? new Date(user.created_at).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : '';
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
@@ -96,9 +152,9 @@ export function ProfileModal({
           <div className="flex flex-col items-center gap-4">
             <div className="relative">
               <Avatar className="h-24 w-24 border-4 border-gray-100">
-                <AvatarImage src={userProfile.avatarUrl} alt={userProfile.name} />
+                <AvatarImage src={user?.avatar_url || undefined} alt={user?.full_name} />
                 <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-600 text-white text-2xl">
-                  {getInitials(userProfile.name)}
+                  {user?.initials || '?'}
                 </AvatarFallback>
               </Avatar>
               <button
@@ -116,7 +172,7 @@ export function ProfileModal({
               />
             </div>
             <div className="text-center">
-              <p className="text-sm text-gray-500">Click the camera icon to upload a new photo</p>
+              <p className="text-sm text-gray-500">Click the camera icon to choose a photo, then crop it</p>
               <p className="text-xs text-gray-400 mt-1">JPG, PNG or GIF (max. 5MB)</p>
             </div>
           </div>
@@ -130,7 +186,7 @@ export function ProfileModal({
               <div className="flex gap-2">
                 <Input
                   id="name"
-                  value={displayName}
+                  value={isEditing ? displayName : user?.full_name ?? ''}
                   onChange={(e) => setDisplayName(e.target.value)}
                   disabled={!isEditing}
                   className={!isEditing ? 'bg-gray-50' : ''}
@@ -138,7 +194,7 @@ export function ProfileModal({
                 {!isEditing ? (
                   <Button
                     variant="outline"
-                    onClick={() => setIsEditing(true)}
+                    onClick={handleEditName}
                   >
                     Edit
                   </Button>
@@ -152,7 +208,7 @@ export function ProfileModal({
               <Label htmlFor="email">Email Address</Label>
               <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 rounded-md border border-gray-200">
                 <Mail className="h-4 w-4 text-gray-400" />
-                <span className="text-sm text-gray-700">{userProfile.email}</span>
+                <span className="text-sm text-gray-700">{user?.email}</span>
               </div>
               <p className="text-xs text-gray-500">Email cannot be changed</p>
             </div>
@@ -161,18 +217,52 @@ export function ProfileModal({
               <Label htmlFor="joinDate">Member Since</Label>
               <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 rounded-md border border-gray-200">
                 <Calendar className="h-4 w-4 text-gray-400" />
-                <span className="text-sm text-gray-700">{userProfile.joinDate}</span>
+                <span className="text-sm text-gray-700">{joinDate}</span>
               </div>
             </div>
           </div>
 
+          {oauthProviders.length > 0 && (
+            <>
+              <Separator />
+
+              {/* Connected Accounts */}
+              <div className="space-y-3">
+                <h4 className="text-sm">Connected Accounts</h4>
+                {oauthProviders.map((provider) => {
+                  const isLinked = linkedProviders.includes(provider);
+                  return (
+                    <div
+                      key={provider}
+                      className="flex items-center justify-between px-3 py-2 rounded-md border border-gray-200"
+                    >
+                      <div>
+                        <p className="text-sm text-gray-700">{OAUTH_PROVIDER_NAMES[provider]}</p>
+                        <p className="text-xs text-gray-500">{isLinked ? 'Connected' : 'Not connected'}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pendingProvider !== null}
+                        onClick={() => (isLinked ? handleUnlinkProvider(provider) : handleLinkProvider(provider))}
+                      >
+                        {isLinked ? <Unlink className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+                        {isLinked ? 'Disconnect' : 'Connect'}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
           <Separator />
 
           {/* Account Actions */}
           <div className="space-y-3">
             <h4 className="text-sm">Account Security</h4>
             <Button
-              variant="destructive"
+              variant="outline"
               className="w-full justify-start"
               onClick={onPasswordChangeRequest}
             >
@@ -180,12 +270,18 @@ export function ProfileModal({
               Change Password
             </Button>
             <p className="text-xs text-gray-500">
-              You will be logged out and receive a password reset link via email
+              Requires your current password. You can also sign out your other sessions.
             </p>
+            <TwoFactorSettings />
           </div>
 
           <Separator />
 
+          {/* Signed-in devices */}
+          <ActiveSessions />
+
+          <Separator />
+
           {/* Logout Button */}
           <div className="pt-2">
             <Button
@@ -214,6 +310,8 @@ export function ProfileModal({
           </div>
         </div>
       </DialogContent>
+
+      <AvatarEditor file={avatarSource} onCancel={() => setAvatarSource(null)} onSave={handleAvatarSave} />
     </Dialog>
   );
 }
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Bot, Zap, Lock, Bell, Sparkles, Layers, Brain } from 'lucide-react';
+import { Settings, Bot, Zap, Lock, Bell, Sparkles, Layers, Brain, Download, Trash2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -16,26 +16,28 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Separator } from './ui/separator';
 import { toast } from 'sonner@2.0.3';
-import { TokenManager } from '../services/api';
+import { RAGService } from '../services/rag';
+import type { AIModel } from '../services/rag';
 import { getUserSettings, updateUserSettings, applySettings } from '../services/settings';
+import { ErrorUtils } from '../services/utils';
+import { DataExportService } from '../services/dataExport';
+import type { DataExportStage } from '../services/dataExport';
+import { showErrorToast } from './errorToast';
+import { DeleteAccountDialog } from './DeleteAccountDialog';
 
 interface SettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-interface AIModel {
-  id: string;
-  model_string: string;
-  name: string;
-  description: string;
-  category: string;
-  max_tokens: number;
-  recommended_temperature: number;
-  icon: string;
-  is_default: boolean;
-  features: string[];
-}
+const EXPORT_STAGE_LABELS: Record<DataExportStage, string> = {
+  profile: 'Collecting profile...',
+  documents: 'Collecting documents...',
+  files: 'Downloading files...',
+  chats: 'Collecting chats...',
+  queries: 'Collecting history...',
+  archive: 'Building archive...',
+};
 
 export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
   const [aiModels, setAiModels] = useState<AIModel[]>([]);
@@ -49,50 +51,27 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
   const [loadingModels, setLoadingModels] = useState(false);
   const [loadingSettings, setLoadingSettings] = useState(false);
   const [saving, setSaving] = useState(false);
+  // Current step while the data export runs
+  const [exportStage, setExportStage] = useState<DataExportStage | null>(null);
+  const [deleteAccountOpen, setDeleteAccountOpen] = useState(false);
 
   // Fetch available AI models from backend
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchModels = async () => {
       setLoadingModels(true);
       try {
-        const token = TokenManager.getAccessToken();
-        console.log('🔑 Fetching models with token:', token ? 'Token exists' : 'No token found');
-        
-        if (!token) {
-          console.error('❌ No access token found');
-          toast.error('Please log in to view model settings');
-          setLoadingModels(false);
-          return;
-        }
-        
-        const response = await fetch('http://localhost:8000/api/rag/models/', {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        console.log('📡 Models API response status:', response.status);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log('✅ Models fetched successfully:', data);
-          setAiModels(data.models || []);
-          if (data.default_category) {
-            setAiModel(data.default_category);
-          }
-        } else if (response.status === 401) {
-          console.error('❌ 401 Unauthorized - Token might be invalid');
-          const errorData = await response.json().catch(() => ({}));
-          console.error('Error details:', errorData);
-          toast.error('Session expired. Please log in again.');
-        } else {
-          console.error('❌ Failed to fetch models:', response.status);
-          toast.error('Failed to load AI models');
+        const data = await RAGService.getAvailableModels({ signal: controller.signal });
+        console.log('✅ Models fetched successfully:', data);
+        setAiModels(data.models || []);
+        if (data.default_category) {
+          setAiModel(data.default_category);
         }
       } catch (error) {
+        if (ErrorUtils.isAbortError(error)) return;
         console.error('❌ Exception while fetching models:', error);
-        toast.error('Failed to load AI models');
+        showErrorToast(error, 'Failed to load AI models');
       } finally {
         setLoadingModels(false);
       }
@@ -101,16 +80,21 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     if (open) {
       fetchModels();
     }
+
+    // Closing the modal cancels a slow request instead of letting it update stale state
+    return () => controller.abort();
   }, [open]);
 
   // Load user settings from backend
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadSettings = async () => {
       if (!open) return;
       
       setLoadingSettings(true);
       try {
-        const settings = await getUserSettings();
+        const settings = await getUserSettings({ signal: controller.signal });
         
         // Apply settings to UI
         setAiModel(settings.ai_model);
@@ -123,14 +107,17 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
         
         console.log('✅ Settings loaded successfully:', settings);
       } catch (error: any) {
+        if (ErrorUtils.isAbortError(error)) return;
         console.error('❌ Error loading settings:', error);
-        toast.error(error.message || 'Failed to load settings');
+        showErrorToast(error, 'Failed to load settings');
       } finally {
         setLoadingSettings(false);
       }
     };
     
     loadSettings();
+
+    return () => controller.abort();
   }, [open]);
 
   const handleSave = async () => {
@@ -153,7 +140,7 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
       onOpenChange(false);
     } catch (error: any) {
       console.error('❌ Error saving settings:', error);
-      toast.error(error.message || 'Failed to save settings');
+      showErrorToast(error, 'Failed to save settings');
     } finally {
       setSaving(false);
     }
@@ -190,7 +177,31 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
       toast.info('Settings reset to defaults');
     } catch (error: any) {
       console.error('❌ Error resetting settings:', error);
-      toast.error(error.message || 'Failed to reset settings');
+      showErrorToast(error, 'Failed to reset settings');
+    }
+  };
+
+  const handleExportData = async () => {
+    try {
+      const { archive, filename, missingFiles } = await DataExportService.exportAccountData({ onProgress: setExportStage });
+
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (missingFiles.length > 0) {
+        toast.warning(`Your data was downloaded, but ${missingFiles.length} original file(s) couldn't be included.`);
+      } else {
+        toast.success('Your data export has been downloaded');
+      }
+    } catch (error) {
+      console.error('❌ Data export failed:', error);
+      showErrorToast(error, 'Failed to export your data. Please try again.');
+    } finally {
+      setExportStage(null);
     }
   };
 
@@ -441,10 +452,24 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                 <Separator />
 
                 <div className="space-y-3">
-                  <Button variant="outline" className="w-full justify-start">
-                    Download My Data
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={handleExportData}
+                    disabled={exportStage !== null}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {exportStage ? EXPORT_STAGE_LABELS[exportStage] : 'Download My Data'}
                   </Button>
-                  <Button variant="outline" className="w-full justify-start text-red-600 hover:text-red-700">
+                  <p className="text-xs text-gray-500">
+                    A ZIP with your profile, settings, documents (with the original files), chats and question history.
+                  </p>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-red-600 hover:text-red-700"
+                    onClick={() => setDeleteAccountOpen(true)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
                     Delete All My Data
                   </Button>
                 </div>
@@ -476,6 +501,12 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
           </Button>
         </DialogFooter>
       </DialogContent>
+
+      <DeleteAccountDialog
+        open={deleteAccountOpen}
+        onOpenChange={setDeleteAccountOpen}
+        onDeleted={() => onOpenChange(false)}
+      />
     </Dialog>
   );
 }
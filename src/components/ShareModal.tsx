@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Link2, Copy, Check, Mail, MessageCircle, Facebook, Twitter } from 'lucide-react';
 import {
   Dialog,
@@ -12,25 +12,43 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Separator } from './ui/separator';
 import { toast } from 'sonner@2.0.3';
+import { ChatService, DateUtils, buildPath } from '../services';
+import type { ChatShare } from '../services';
+import { showErrorToast } from './errorToast';
 
 interface ShareModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   documentName: string;
+  // Chat being shared; null until a chat has been started
+  sessionId: string | null;
 }
 
-export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps) {
+export function ShareModal({ open, onOpenChange, documentName, sessionId }: ShareModalProps) {
   const [copied, setCopied] = useState(false);
-  
-  // Generate a shareable link (in a real app, this would be generated by your backend)
-  const shareLink = `${window.location.origin}/chat/shared/${generateShareId()}`;
+  const [share, setShare] = useState<ChatShare | null>(null);
 
-  function generateShareId(): string {
-    // Generate a random share ID for demo purposes
-    return Math.random().toString(36).substring(2, 15);
-  }
+  // The server hands back the same link while it's valid, so asking on every open is fine
+  useEffect(() => {
+    if (!open || !sessionId) return;
+
+    const controller = new AbortController();
+    setShare(null);
+    ChatService.shareChatSession(sessionId, { signal: controller.signal })
+      .then(setShare)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        showErrorToast(error, 'Failed to create a share link.');
+      });
+    return () => controller.abort();
+  }, [open, sessionId]);
+
+  const shareLink = share
+    ? `${window.location.origin}${buildPath({ name: 'shared', shareId: share.share_id })}`
+    : '';
 
   const handleCopyLink = async () => {
+    if (!shareLink) return;
     try {
       await navigator.clipboard.writeText(shareLink);
       setCopied(true);
@@ -42,6 +60,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
   };
 
   const handleShareVia = (platform: string) => {
+    if (!shareLink) return;
     const encodedLink = encodeURIComponent(shareLink);
     const encodedText = encodeURIComponent(`Check out this chat about "${documentName}" on DocChat AI`);
     
@@ -85,7 +104,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
             <div className="flex items-center gap-2">
               <Input
                 id="share-link"
-                value={shareLink}
+                value={sessionId ? shareLink || 'Creating link...' : 'Start a chat to share it'}
                 readOnly
                 className="bg-gray-50"
               />
@@ -93,6 +112,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
                 size="icon"
                 variant={copied ? "default" : "outline"}
                 onClick={handleCopyLink}
+                disabled={!shareLink}
                 className="flex-shrink-0"
               >
                 {copied ? (
@@ -102,9 +122,11 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
                 )}
               </Button>
             </div>
-            <p className="text-xs text-gray-500">
-              This link will expire in 7 days
-            </p>
+            {share && (
+              <p className="text-xs text-gray-500">
+                This link will expire on {DateUtils.formatDate(share.expires_at)}
+              </p>
+            )}
           </div>
 
           <Separator />
@@ -115,6 +137,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
               <Button
                 variant="outline"
                 onClick={() => handleShareVia('email')}
+                disabled={!shareLink}
                 className="justify-start"
               >
                 <Mail className="h-4 w-4 mr-2" />
@@ -123,6 +146,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
               <Button
                 variant="outline"
                 onClick={() => handleShareVia('whatsapp')}
+                disabled={!shareLink}
                 className="justify-start"
               >
                 <MessageCircle className="h-4 w-4 mr-2" />
@@ -131,6 +155,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
               <Button
                 variant="outline"
                 onClick={() => handleShareVia('twitter')}
+                disabled={!shareLink}
                 className="justify-start"
               >
                 <Twitter className="h-4 w-4 mr-2" />
@@ -139,6 +164,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
               <Button
                 variant="outline"
                 onClick={() => handleShareVia('facebook')}
+                disabled={!shareLink}
                 className="justify-start"
               >
                 <Facebook className="h-4 w-4 mr-2" />
@@ -172,7 +198,7 @@ export function ShareModal({ open, onOpenChange, documentName }: ShareModalProps
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Close
           </Button>
-          <Button onClick={handleCopyLink}>
+          <Button onClick={handleCopyLink} disabled={!shareLink}>
             {copied ? 'Copied!' : 'Copy Link'}
           </Button>
         </div>
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { FileText, Link2Off, MessageSquare } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Skeleton } from './ui/skeleton';
+import { ChatService, DateUtils, NotFoundError } from '../services';
+import type { SharedChat } from '../services';
+import { showErrorToast } from './errorToast';
+
+interface SharedChatScreenProps {
+  shareId: string;
+  onOpenApp: () => void;
+}
+
+// Read-only view of a chat someone shared; works without signing in
+export function SharedChatScreen({ shareId, onOpenApp }: SharedChatScreenProps) {
+  const [chat, setChat] = useState<SharedChat | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setChat(null);
+    setNotFound(false);
+    ChatService.getSharedChat(shareId, { signal: controller.signal })
+      .then(setChat)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        if (error instanceof NotFoundError) {
+          setNotFound(true);
+          return;
+        }
+        showErrorToast(error, 'Failed to load the shared chat.');
+      });
+    return () => controller.abort();
+  }, [shareId]);
+
+  useEffect(() => {
+    document.title = chat ? `${chat.title} · Shared chat` : 'Shared chat';
+  }, [chat]);
+
+  const renderBody = () => {
+    if (notFound) {
+      return (
+        <div className="flex flex-col items-center justify-center p-12 text-center">
+          <Link2Off className="h-12 w-12 text-gray-400 mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">This link doesn't work anymore</h3>
+          <p className="text-gray-600">The shared chat doesn't exist or its link has expired.</p>
+        </div>
+      );
+    }
+
+    if (!chat) {
+      return (
+        <div className="space-y-4">
+          <Skeleton className="h-16 w-2/3 ml-auto" />
+          <Skeleton className="h-24 w-3/4" />
+          <Skeleton className="h-16 w-1/2 ml-auto" />
+        </div>
+      );
+    }
+
+    const messages = chat.messages.filter((message) => message.role !== 'system');
+    if (messages.length === 0) {
+      return <p className="text-sm text-gray-500 py-12 text-center">This chat has no messages yet.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        {messages.map((message) => {
+          const isUserMessage = message.role === 'user';
+          return (
+            <div key={message.id} className={`flex ${isUserMessage ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-2xl px-4 py-3 ${
+                  isUserMessage
+                    ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white'
+                    : 'bg-gray-100 text-gray-900'
+                }`}
+              >
+                {isUserMessage ? (
+                  <p className="whitespace-pre-wrap">{message.content}</p>
+                ) : (
+                  <div className="markdown-content text-sm">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+                  </div>
+                )}
+                {message.page_references.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {message.page_references.map((page) => (
+                      <Badge key={page} variant="secondary">
+                        Page {page}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b border-gray-200 bg-white">
+        <div className="max-w-3xl mx-auto flex items-center justify-between gap-4 px-6 py-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 text-gray-900">
+              <MessageSquare className="h-5 w-5 text-blue-500 flex-shrink-0" />
+              <h1 className="text-lg truncate">{chat?.title ?? 'Shared chat'}</h1>
+            </div>
+            {chat && (
+              <p className="flex items-center gap-1 text-xs text-gray-500 mt-1 truncate">
+                <FileText className="h-3 w-3 flex-shrink-0" />
+                {chat.document_name} · shared {DateUtils.formatRelativeTime(chat.created_at).toLowerCase()}
+              </p>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={onOpenApp}>
+            Open DocChat AI
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-8">{renderBody()}</main>
+    </div>
+  );
+}
@@ -3,11 +3,13 @@ import { Eye, EyeOff, Check, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Progress } from './ui/progress';
 import { LoadingOverlay } from './ui/loading-overlay';
 import { toast } from 'sonner';
 import { useAuthStore } from '../stores';
-import { AuthService, ApiException, ErrorUtils } from '../services';
+import { AuthService, ValidationError, ErrorUtils, getRuntimeConfig, OAUTH_PROVIDER_NAMES } from '../services';
+import type { OAuthProvider } from '../services';
+import { showErrorToast } from './errorToast';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
 
 interface SignupScreenProps {
   onSignupSuccess: () => void;
@@ -23,6 +25,7 @@ interface FormErrors {
 
 export function SignupScreen({ onSignupSuccess, onSwitchToLogin }: SignupScreenProps) {
   const { register, isLoading: authLoading, error: authError, clearError } = useAuthStore();
+  const { oauthProviders } = getRuntimeConfig();
   
   const [fullName, setFullName] = useState('');
   const [email, setEmail] = useState('');
@@ -33,30 +36,6 @@ export function SignupScreen({ onSignupSuccess, onSwitchToLogin }: SignupScreenP
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
 
-  const calculatePasswordStrength = (pwd: string): number => {
-    let strength = 0;
-    if (pwd.length >= 8) strength += 25;
-    if (pwd.length >= 12) strength += 15;
-    if (/[a-z]/.test(pwd) && /[A-Z]/.test(pwd)) strength += 20;
-    if (/[0-9]/.test(pwd)) strength += 20;
-    if (/[^a-zA-Z0-9]/.test(pwd)) strength += 20;
-    return Math.min(strength, 100);
-  };
-
-  const passwordStrength = calculatePasswordStrength(password);
-
-  const getPasswordStrengthColor = () => {
-    if (passwordStrength < 40) return 'bg-red-500';
-    if (passwordStrength < 70) return 'bg-yellow-500';
-    return 'bg-green-500';
-  };
-
-  const getPasswordStrengthText = () => {
-    if (passwordStrength < 40) return 'Weak';
-    if (passwordStrength < 70) return 'Medium';
-    return 'Strong';
-  };
-
   const validateField = (field: string, value: string): string | undefined => {
     switch (field) {
       case 'fullName':
@@ -145,40 +124,35 @@ export function SignupScreen({ onSignupSuccess, onSwitchToLogin }: SignupScreenP
       }, 500);
 
     } catch (error) {
-      const errorMessage = ErrorUtils.getErrorMessage(error);
-      
-      // Handle specific error cases
-      if (error instanceof ApiException) {
-        if (error.status === 400) {
-          if (error.errors?.non_field_errors) {
-            // Handle general registration errors
-            const backendError = error.errors.non_field_errors[0] || 'Registration failed';
-            toast.error(backendError);
-          } else if (error.errors) {
-            // Handle field-specific errors from backend
-            setErrors({
-              fullName: error.errors.first_name?.[0] || error.errors.last_name?.[0],
-              email: error.errors.email?.[0],
-              password: error.errors.password?.[0] || error.errors.password_confirm?.[0],
-              confirmPassword: error.errors.password_confirm?.[0],
-            });
-            toast.error('Please check the form for errors');
-          } else {
-            toast.error(errorMessage);
-          }
+      if (error instanceof ValidationError) {
+        if (error.nonFieldErrors.length > 0) {
+          // Handle general registration errors
+          toast.error(error.nonFieldErrors[0]);
+        } else if (Object.keys(error.fieldErrors).length > 0) {
+          // Handle field-specific errors from backend
+          setErrors({
+            fullName: error.getFieldError('first_name') || error.getFieldError('last_name'),
+            email: error.getFieldError('email'),
+            password: error.getFieldError('password') || error.getFieldError('password_confirm'),
+            confirmPassword: error.getFieldError('password_confirm'),
+          });
+          toast.error('Please check the form for errors');
         } else {
-          toast.error(errorMessage);
+          toast.error(ErrorUtils.getErrorMessage(error));
         }
       } else {
-        toast.error('Registration failed. Please try again.');
+        showErrorToast(error, 'Registration failed. Please try again.');
       }
     }
   };
 
-  const handleSocialLogin = (provider: string) => {
-    toast.info(`${provider} authentication would be integrated here`, {
-      duration: 2000,
-    });
+  const handleSocialLogin = async (provider: OAuthProvider) => {
+    try {
+      const authUrl = await AuthService.getOAuthUrl(provider);
+      window.location.href = authUrl;
+    } catch (error) {
+      toast.error(`${OAUTH_PROVIDER_NAMES[provider]} authentication is not configured`);
+    }
   };
 
   return (
@@ -378,27 +352,7 @@ export function SignupScreen({ onSignupSuccess, onSwitchToLogin }: SignupScreenP
                   </div>
                 )}
                 {password && !errors.password && (
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-xs">
-                      <span className="text-gray-600">Password strength:</span>
-                      <span
-                        className={`${
-                          passwordStrength < 40
-                            ? 'text-red-600'
-                            : passwordStrength < 70
-                            ? 'text-yellow-600'
-                            : 'text-green-600'
-                        }`}
-                      >
-                        {getPasswordStrengthText()}
-                      </span>
-                    </div>
-                    <Progress
-                      value={passwordStrength}
-                      className="h-1.5"
-                      indicatorClassName={getPasswordStrengthColor()}
-                    />
-                  </div>
+                  <PasswordStrengthMeter password={password} />
                 )}
               </div>
 
@@ -453,54 +407,62 @@ export function SignupScreen({ onSignupSuccess, onSwitchToLogin }: SignupScreenP
               </Button>
             </form>
 
-            <div className="relative my-6">
-              <div className="absolute inset-0 flex items-center">
-                <div className="w-full border-t border-gray-200" />
-              </div>
-              <div className="relative flex justify-center text-sm">
-                <span className="px-4 bg-white text-gray-500">Or continue with</span>
-              </div>
-            </div>
+            {oauthProviders.length > 0 && (
+              <>
+                <div className="relative my-6">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-gray-200" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-4 bg-white text-gray-500">Or continue with</span>
+                  </div>
+                </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => handleSocialLogin('Google')}
-                className="transition-all hover:bg-gray-50"
-              >
-                <svg className="h-5 w-5 mr-2" viewBox="0 0 24 24">
-                  <path
-                    fill="#4285F4"
-                    d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                  />
-                  <path
-                    fill="#34A853"
-                    d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                  />
-                  <path
-                    fill="#FBBC05"
-                    d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                  />
-                  <path
-                    fill="#EA4335"
-                    d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                  />
-                </svg>
-                Google
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => handleSocialLogin('GitHub')}
-                className="transition-all hover:bg-gray-50"
-              >
-                <svg className="h-5 w-5 mr-2" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
-                </svg>
-                GitHub
-              </Button>
-            </div>
+                <div className={`grid ${oauthProviders.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} gap-3`}>
+                  {oauthProviders.includes('google') && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleSocialLogin('google')}
+                      className="transition-all hover:bg-gray-50"
+                    >
+                      <svg className="h-5 w-5 mr-2" viewBox="0 0 24 24">
+                        <path
+                          fill="#4285F4"
+                          d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                        />
+                        <path
+                          fill="#34A853"
+                          d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                        />
+                        <path
+                          fill="#FBBC05"
+                          d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                        />
+                        <path
+                          fill="#EA4335"
+                          d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                        />
+                      </svg>
+                      Google
+                    </Button>
+                  )}
+                  {oauthProviders.includes('github') && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleSocialLogin('github')}
+                      className="transition-all hover:bg-gray-50"
+                    >
+                      <svg className="h-5 w-5 mr-2" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
+                      </svg>
+                      GitHub
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
 
             <p className="text-center text-sm text-gray-600 mt-6">
               Already have an account?{' '}
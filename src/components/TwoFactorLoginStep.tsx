@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { ArrowLeft, ShieldCheck, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import { useAuthStore } from '../stores';
+import { ValidationError } from '../services';
+import { showErrorToast } from './errorToast';
+
+interface TwoFactorLoginStepProps {
+  challengeToken: string;
+  rememberMe: boolean;
+  onSuccess: () => void;
+  // Back to the password form, e.g. when the challenge expired
+  onCancel: () => void;
+}
+
+const CODE_LENGTH = 6;
+
+export function TwoFactorLoginStep({ challengeToken, rememberMe, onSuccess, onCancel }: TwoFactorLoginStepProps) {
+  const { verifyTwoFactor, isLoading } = useAuthStore();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (value: string) => {
+    if (isLoading) return;
+    setError(null);
+
+    try {
+      await verifyTwoFactor({
+        challenge_token: challengeToken,
+        remember_me: rememberMe,
+        ...(useRecoveryCode ? { recovery_code: value.trim() } : { code: value }),
+      });
+      onSuccess();
+    } catch (err) {
+      if (err instanceof ValidationError && err.code === 'challenge_expired') {
+        showErrorToast(err, 'Your sign-in session expired. Please sign in again.');
+        onCancel();
+        return;
+      }
+      if (err instanceof ValidationError) {
+        setError(err.getFieldError('code') || err.getFieldError('recovery_code') || err.message);
+        setCode('');
+        return;
+      }
+      showErrorToast(err, 'Verification failed. Please try again.');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (useRecoveryCode) {
+      if (recoveryCode.trim()) submit(recoveryCode);
+    } else if (code.length === CODE_LENGTH) {
+      submit(code);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setError(null);
+    setCode('');
+    setRecoveryCode('');
+  };
+
+  return (
+    <>
+      <div className="mb-8">
+        <div className="flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mb-4">
+          <ShieldCheck className="h-6 w-6 text-blue-600" />
+        </div>
+        <h2 className="mb-2 text-gray-900">Two-factor authentication</h2>
+        <p className="text-gray-600">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-5">
+        {useRecoveryCode ? (
+          <div className="space-y-2">
+            <Label htmlFor="recoveryCode">Recovery Code</Label>
+            <Input
+              id="recoveryCode"
+              placeholder="xxxxx-xxxxx"
+              autoComplete="off"
+              autoFocus
+              value={recoveryCode}
+              onChange={(e) => {
+                setRecoveryCode(e.target.value);
+                setError(null);
+              }}
+              className={error ? 'border-red-500 ring-2 ring-red-200' : ''}
+            />
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={CODE_LENGTH}
+              pattern="^\d+$"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              value={code}
+              onChange={(value: string) => {
+                setCode(value);
+                setError(null);
+              }}
+              onComplete={submit}
+              disabled={isLoading}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} aria-invalid={!!error} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center gap-1 text-sm text-red-600">
+            <X className="h-3 w-3" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all"
+          disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : code.length < CODE_LENGTH)}
+        >
+          {isLoading ? 'Verifying...' : 'Verify'}
+        </Button>
+      </form>
+
+      <div className="mt-6 space-y-3 text-center text-sm">
+        <button
+          type="button"
+          onClick={toggleRecoveryCode}
+          className="text-blue-600 hover:text-blue-700 hover:underline transition-colors"
+        >
+          {useRecoveryCode ? 'Use your authenticator app instead' : "Can't use your authenticator? Use a recovery code"}
+        </button>
+        <div>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-3 w-3" />
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { ShieldCheck, ShieldOff, Copy, Download, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import { toast } from 'sonner@2.0.3';
+import { useAuthStore } from '../stores';
+import { AuthService, ValidationError } from '../services';
+import type { TwoFactorSetup } from '../services';
+import { showErrorToast } from './errorToast';
+
+type TwoFactorStep = 'idle' | 'setup' | 'recoveryCodes' | 'disable';
+
+const CODE_LENGTH = 6;
+
+// Secret in groups of four, easier to type into an authenticator by hand
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+// Enrollment (QR code, confirm code, recovery codes) and disabling, shown in the profile modal
+export function TwoFactorSettings() {
+  const { user, refreshProfile } = useAuthStore();
+  const [step, setStep] = useState<TwoFactorStep>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [errors, setErrors] = useState<{ code?: string; password?: string }>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isEnabled = !!user?.two_factor_enabled;
+
+  const reset = () => {
+    setStep('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+    setErrors({});
+  };
+
+  const handleStartSetup = async () => {
+    setIsLoading(true);
+    try {
+      setSetup(await AuthService.setupTwoFactor());
+      setStep('setup');
+    } catch (error) {
+      showErrorToast(error, 'Could not start two-factor setup. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (value: string = code) => {
+    if (value.length < CODE_LENGTH || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const result = await AuthService.confirmTwoFactor(value);
+      setRecoveryCodes(result.recovery_codes);
+      setStep('recoveryCodes');
+      setCode('');
+      await refreshProfile();
+      toast.success('Two-factor authentication is on');
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setErrors({ code: error.getFieldError('code') || error.message });
+        setCode('');
+      } else {
+        showErrorToast(error, 'Could not turn on two-factor authentication.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || !code.trim()) {
+      setErrors({
+        password: password ? undefined : 'Password is required',
+        code: code.trim() ? undefined : 'Enter a code from your authenticator or a recovery code',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await AuthService.disableTwoFactor({ password, code: code.trim() });
+      await refreshProfile();
+      reset();
+      toast.success('Two-factor authentication is off');
+    } catch (error) {
+      if (error instanceof ValidationError && (error.getFieldError('password') || error.getFieldError('code'))) {
+        setErrors({ password: error.getFieldError('password'), code: error.getFieldError('code') });
+      } else {
+        showErrorToast(error, 'Could not turn off two-factor authentication.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${what} copied to clipboard`);
+    } catch {
+      toast.error(`Failed to copy ${what.toLowerCase()}`);
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    const blob = new Blob([`ChatPdf recovery codes for ${user?.email}\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'chatpdf-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderError = (message?: string) =>
+    message && (
+      <div className="flex items-center gap-1 text-sm text-red-600">
+        <X className="h-3 w-3" />
+        <span>{message}</span>
+      </div>
+    );
+
+  if (step === 'setup' && setup) {
+    return (
+      <div className="space-y-4 rounded-md border border-gray-200 p-4">
+        <p className="text-sm text-gray-700">
+          Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy...), then enter the 6-digit code it shows.
+        </p>
+        {setup.qr_code && (
+          <img src={setup.qr_code} alt="Two-factor QR code" className="mx-auto h-40 w-40" />
+        )}
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">{setup.qr_code ? "Can't scan it? Enter this key instead:" : 'Enter this key in your authenticator app:'}</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 rounded bg-gray-50 px-2 py-1 text-xs tracking-wider break-all">{formatSecret(setup.secret)}</code>
+            <Button type="button" variant="ghost" size="sm" onClick={() => handleCopy(setup.secret, 'Key')}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-col items-center gap-2">
+          <InputOTP
+            maxLength={CODE_LENGTH}
+            pattern="^\d+$"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(value: string) => {
+              setCode(value);
+              setErrors({});
+            }}
+            onComplete={handleConfirm}
+            disabled={isLoading}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} aria-invalid={!!errors.code} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          {renderError(errors.code)}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={reset} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="button" size="sm" onClick={() => handleConfirm()} disabled={isLoading || code.length < CODE_LENGTH}>
+            {isLoading ? 'Verifying...' : 'Turn On'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'recoveryCodes') {
+    return (
+      <div className="space-y-3 rounded-md border border-gray-200 p-4">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          <p className="text-sm text-yellow-900">
+            ⚠️ Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator. They won't be shown again.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-2 rounded bg-gray-50 p-3">
+          {recoveryCodes.map((recoveryCode) => (
+            <code key={recoveryCode} className="text-sm text-gray-800">{recoveryCode}</code>
+          ))}
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => handleCopy(recoveryCodes.join('\n'), 'Recovery codes')}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={handleDownloadCodes}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => {
+              setRecoveryCodes([]);
+              reset();
+            }}
+          >
+            I've saved them
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'disable') {
+    return (
+      <form onSubmit={handleDisable} className="space-y-3 rounded-md border border-gray-200 p-4">
+        <p className="text-sm text-gray-700">Confirm it's you to turn off two-factor authentication.</p>
+        <div className="space-y-2">
+          <Label htmlFor="twoFactorPassword">Password</Label>
+          <Input
+            id="twoFactorPassword"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              setErrors({ ...errors, password: undefined });
+            }}
+            disabled={isLoading}
+          />
+          {renderError(errors.password)}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="twoFactorCode">Authenticator or recovery code</Label>
+          <Input
+            id="twoFactorCode"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+              setErrors({ ...errors, code: undefined });
+            }}
+            disabled={isLoading}
+          />
+          {renderError(errors.code)}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={reset} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="destructive" size="sm" disabled={isLoading}>
+            {isLoading ? 'Turning off...' : 'Turn Off'}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between px-3 py-2 rounded-md border border-gray-200">
+      <div className="flex items-center gap-2">
+        {isEnabled ? <ShieldCheck className="h-4 w-4 text-green-600" /> : <ShieldOff className="h-4 w-4 text-gray-400" />}
+        <div>
+          <p className="text-sm text-gray-700">Two-factor authentication</p>
+          <p className="text-xs text-gray-500">{isEnabled ? 'On — codes from your authenticator app' : 'Off'}</p>
+        </div>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isLoading}
+        onClick={() => (isEnabled ? setStep('disable') : handleStartSetup())}
+      >
+        {isEnabled ? 'Turn Off' : isLoading ? 'Starting...' : 'Turn On'}
+      </Button>
+    </div>
+  );
+}
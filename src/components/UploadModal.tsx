@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Upload, FileText, X, Check } from 'lucide-react';
+import { Upload, FileText, X, Check, AlertCircle, RotateCw } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -10,23 +10,65 @@ import {
 } from './ui/dialog';
 import { Button } from './ui/button';
 import { Progress } from './ui/progress';
-import { toast } from 'sonner';
-import { useDocumentsStore } from '../stores';
-import { FileValidator, ErrorUtils } from '../services';
+import { ScrollArea } from './ui/scroll-area';
+import { useDocumentsStore, MAX_CONCURRENT_UPLOADS } from '../stores';
+import type { UploadBatchSummary, UploadItem } from '../stores';
+import { useUploadQueue } from '../stores/hooks';
+import { FileValidator } from '../services';
+import type { UploadProgress } from '../services';
 
 interface UploadModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUploadComplete?: (fileName: string) => void;
 }
 
-export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModalProps) {
+const STATUS_LABELS: Record<UploadItem['status'], string> = {
+  invalid: 'Not uploaded',
+  queued: 'Waiting...',
+  uploading: 'Uploading...',
+  completed: 'Uploaded, processing document...',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const formatTimeLeft = (seconds: number): string =>
+  seconds < 60 ? `${seconds}s left` : `${Math.floor(seconds / 60)}m ${seconds % 60}s left`;
+
+// e.g. "3.2 MB of 8 MB · 1.1 MB/s · 5s left"
+const describeTransfer = ({ loaded, total, bytesPerSecond, secondsRemaining }: UploadProgress): string => {
+  if (total > 0 && loaded >= total) {
+    return 'Sent, waiting for the server...';
+  }
+  return [
+    `${FileValidator.formatFileSize(loaded)} of ${FileValidator.formatFileSize(total)}`,
+    bytesPerSecond !== null && `${FileValidator.formatFileSize(bytesPerSecond)}/s`,
+    secondsRemaining !== null && formatTimeLeft(secondsRemaining),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+// One line for a finished batch, e.g. "2 of 3 files uploaded · 1 failed"
+export const describeUploadBatch = (summary: UploadBatchSummary): string => {
+  if (summary.completed === summary.total) {
+    return summary.total === 1 ? 'Document uploaded' : `All ${summary.total} documents uploaded`;
+  }
+  return [
+    `${summary.completed} of ${summary.total} ${summary.total === 1 ? 'file' : 'files'} uploaded`,
+    summary.failed > 0 && `${summary.failed} failed`,
+    summary.invalid > 0 && `${summary.invalid} rejected`,
+    summary.cancelled > 0 && `${summary.cancelled} cancelled`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+export function UploadModal({ open, onOpenChange }: UploadModalProps) {
   const [dragActive, setDragActive] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadComplete, setUploadComplete] = useState(false);
-
-  // Use documents store for actual upload
-  const { uploadDocument, isUploading, uploadProgress } = useDocumentsStore();
+  const { uploads, maxUploadSize, isUploading, addFiles, cancelUpload, retryUpload, clearFinishedUploads } = useUploadQueue();
+  const batchSummary = useDocumentsStore((state) => state.batchSummary);
+  const maxUploadSizeMb = Math.round(maxUploadSize / (1024 * 1024));
+  const hasFinished = uploads.some((upload) => upload.status !== 'queued' && upload.status !== 'uploading');
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -43,170 +85,150 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type === 'application/pdf') {
-        setSelectedFile(file);
-      } else {
-        toast.error('Please upload a PDF file');
-      }
+    const files = Array.from(e.dataTransfer.files) as File[];
+    if (files.length > 0) {
+      addFiles(files);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      
-      // Validate file using FileValidator
-      const validation = FileValidator.isValidFile(file);
-      if (!validation.valid) {
-        toast.error(validation.error);
-        return;
-      }
-      
-      setSelectedFile(file);
+    const files = Array.from(e.target.files ?? []);
+    // Allow picking the same files again later
+    e.target.value = '';
+    if (files.length > 0) {
+      addFiles(files);
     }
   };
 
-  const handleUpload = async () => {
-    if (!selectedFile) return;
-
-    console.log('📤 UploadModal: Starting upload...', {
-      fileName: selectedFile.name,
-      fileSize: selectedFile.size,
-      fileType: selectedFile.type,
-    });
-
-    try {
-      // Upload using the documents store
-      const document = await uploadDocument({
-        file: selectedFile,
-        name: selectedFile.name.replace(/\.[^/.]+$/, ''), // Remove extension
-      });
-
-      console.log('✅ UploadModal: Upload successful!', document);
-
-      setUploadComplete(true);
-      toast.success('Document uploaded successfully!');
-      
-      if (onUploadComplete) {
-        onUploadComplete(selectedFile.name);
-      }
-      
-      setTimeout(() => {
-        handleClose();
-      }, 1500);
-    } catch (error) {
-      console.error('❌ UploadModal: Upload failed:', error);
-      toast.error(ErrorUtils.getErrorMessage(error));
-    }
-  };
+  const renderUpload = (upload: UploadItem) => {
+    const hasError = upload.status === 'invalid' || upload.status === 'failed';
 
-  const handleClose = () => {
-    setSelectedFile(null);
-    setUploadComplete(false);
-    onOpenChange(false);
-  };
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+    return (
+      <div key={upload.id} className="flex items-start gap-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
+        <div className="flex-shrink-0 mt-0.5">
+          {upload.status === 'completed' ? (
+            <div className="bg-green-100 rounded-full p-1">
+              <Check className="h-4 w-4 text-green-600" />
+            </div>
+          ) : hasError ? (
+            <AlertCircle className="h-6 w-6 text-red-500" />
+          ) : (
+            <FileText className="h-6 w-6 text-blue-600" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="text-sm text-gray-900 truncate" title={upload.file.name}>{upload.file.name}</p>
+          <p className={`text-xs ${hasError ? 'text-red-600' : 'text-gray-500'}`}>
+            {FileValidator.formatFileSize(upload.file.size)} · {upload.error ?? STATUS_LABELS[upload.status]}
+          </p>
+          {upload.status === 'uploading' && (
+            <>
+              <Progress value={upload.progress} className="h-1.5" />
+              {upload.transfer && (
+                <p className="flex justify-between text-xs text-gray-500">
+                  <span>{describeTransfer(upload.transfer)}</span>
+                  <span className="tabular-nums">{upload.progress}%</span>
+                </p>
+              )}
+            </>
+          )}
+        </div>
+        {upload.status === 'uploading' && (
+          <Button variant="ghost" size="sm" className="flex-shrink-0" onClick={() => cancelUpload(upload.id)}>
+            Cancel
+          </Button>
+        )}
+        {upload.status === 'queued' && (
+          <button
+            onClick={() => cancelUpload(upload.id)}
+            className="flex-shrink-0 text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label={`Remove ${upload.file.name} from the queue`}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        )}
+        {(upload.status === 'failed' || upload.status === 'cancelled') && (
+          <button
+            onClick={() => retryUpload(upload.id)}
+            className="flex-shrink-0 text-gray-400 hover:text-blue-600 transition-colors"
+            aria-label={`Retry ${upload.file.name}`}
+          >
+            <RotateCw className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+    );
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg">
         <DialogHeader>
-          <DialogTitle>Upload a New Document</DialogTitle>
+          <DialogTitle>Upload Documents</DialogTitle>
           <DialogDescription>
-            Upload a PDF file to start chatting with your document
+            Add one or more PDF files; up to {MAX_CONCURRENT_UPLOADS} upload at a time
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
-          {!selectedFile ? (
+          <div
+            className={`relative border-2 border-dashed rounded-lg text-center transition-all ${
+              uploads.length > 0 ? 'p-4' : 'p-8'
+            } ${
+              dragActive
+                ? 'border-blue-500 bg-blue-50 scale-105'
+                : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
+            }`}
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+          >
+            <Upload className={`mx-auto text-gray-400 ${uploads.length > 0 ? 'h-6 w-6 mb-2' : 'h-12 w-12 mb-4'}`} />
+            <p className="mb-2 text-gray-700">
+              <span className="text-blue-600">Click to upload</span> or drag and drop
+            </p>
+            <p className="text-sm text-gray-500">PDF files only (MAX. {maxUploadSizeMb}MB each)</p>
+            <input
+              type="file"
+              accept=".pdf"
+              multiple
+              onChange={handleFileSelect}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            />
+          </div>
+
+          {uploads.length > 0 && (
+            <ScrollArea className="max-h-72">
+              <div className="space-y-2 pr-2">{uploads.map(renderUpload)}</div>
+            </ScrollArea>
+          )}
+
+          {!isUploading && batchSummary && uploads.some((upload) => upload.batchId === batchSummary.batchId) && (
             <div
-              className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-all ${
-                dragActive
-                  ? 'border-blue-500 bg-blue-50 scale-105'
-                  : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
+              className={`flex items-center gap-2 text-sm p-3 rounded-lg ${
+                batchSummary.completed === batchSummary.total
+                  ? 'text-green-600 bg-green-50'
+                  : 'text-yellow-800 bg-yellow-50'
               }`}
-              onDragEnter={handleDrag}
-              onDragLeave={handleDrag}
-              onDragOver={handleDrag}
-              onDrop={handleDrop}
             >
-              <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-              <p className="mb-2 text-gray-700">
-                <span className="text-blue-600">Click to upload</span> or drag and drop
-              </p>
-              <p className="text-sm text-gray-500 mb-4">PDF files only (MAX. 50MB)</p>
-              <input
-                type="file"
-                accept=".pdf"
-                onChange={handleFileSelect}
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              />
-            </div>
-          ) : (
-            <div className="space-y-4">
-              <div className="flex items-start gap-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
-                <div className="flex-shrink-0 mt-1">
-                  <FileText className="h-8 w-8 text-blue-600" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm text-gray-900 truncate">{selectedFile.name}</p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    {formatFileSize(selectedFile.size)}
-                  </p>
-                </div>
-                {!isUploading && !uploadComplete && (
-                  <button
-                    onClick={() => setSelectedFile(null)}
-                    className="flex-shrink-0 text-gray-400 hover:text-gray-600 transition-colors"
-                  >
-                    <X className="h-5 w-5" />
-                  </button>
-                )}
-                {uploadComplete && (
-                  <div className="flex-shrink-0 bg-green-100 rounded-full p-1">
-                    <Check className="h-4 w-4 text-green-600" />
-                  </div>
-                )}
-              </div>
-
-              {isUploading && (
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-600">Uploading...</span>
-                    <span className="text-gray-900">{uploadProgress}%</span>
-                  </div>
-                  <Progress value={uploadProgress} className="h-2" />
-                </div>
-              )}
-
-              {uploadComplete && (
-                <div className="flex items-center gap-2 text-sm text-green-600 bg-green-50 p-3 rounded-lg">
-                  <Check className="h-4 w-4" />
-                  <span>Upload complete! Processing document...</span>
-                </div>
+              {batchSummary.completed === batchSummary.total ? (
+                <Check className="h-4 w-4" />
+              ) : (
+                <AlertCircle className="h-4 w-4" />
               )}
+              <span>{describeUploadBatch(batchSummary)}</span>
             </div>
           )}
         </div>
 
         <DialogFooter>
-          <Button variant="outline" onClick={handleClose} disabled={isUploading}>
-            Cancel
+          <Button variant="outline" onClick={clearFinishedUploads} disabled={!hasFinished}>
+            Clear Finished
           </Button>
-          <Button
-            onClick={handleUpload}
-            disabled={!selectedFile || isUploading || uploadComplete}
-          >
-            {isUploading ? 'Uploading...' : 'Upload Document'}
+          {/* Uploads keep going in the background once the dialog is closed */}
+          <Button onClick={() => onOpenChange(false)}>
+            {isUploading ? 'Hide' : 'Done'}
           </Button>
         </DialogFooter>
       </DialogContent>
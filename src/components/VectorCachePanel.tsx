@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Database, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Skeleton } from './ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import { toast } from 'sonner@2.0.3';
+import { ConfirmationModal } from './ConfirmationModal';
+import { RAGService, DateUtils, FileValidator } from '../services';
+import type { VectorCacheEntry, VectorCacheStats } from '../services';
+import { showErrorToast } from './errorToast';
+
+// Vector cache contents with per-entry and full purges (admin console tab)
+export function VectorCachePanel() {
+  const [stats, setStats] = useState<VectorCacheStats | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Document id being purged, or 'all'
+  const [pendingPurge, setPendingPurge] = useState<string | null>(null);
+  const [confirmPurgeAll, setConfirmPurgeAll] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    RAGService.getVectorCache({ signal: controller.signal })
+      .then(setStats)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        showErrorToast(error, 'Failed to load the vector cache.');
+      });
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const reload = () => {
+    setStats(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handlePurge = async (entry: VectorCacheEntry) => {
+    setPendingPurge(entry.document_id);
+    try {
+      await RAGService.purgeVectorCache(entry.document_id);
+      toast.success(`Purged cached vectors for ${entry.document_name}`);
+      reload();
+    } catch (error) {
+      showErrorToast(error, `Failed to purge ${entry.document_name}`);
+    } finally {
+      setPendingPurge(null);
+    }
+  };
+
+  const handlePurgeAll = async () => {
+    setPendingPurge('all');
+    try {
+      const result = await RAGService.purgeVectorCache();
+      toast.success(result.purged === 1 ? 'Purged 1 cache entry' : `Purged ${result.purged} cache entries`);
+      reload();
+    } catch (error) {
+      showErrorToast(error, 'Failed to purge the vector cache.');
+      throw error;
+    } finally {
+      setPendingPurge(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        {stats === null ? (
+          <Skeleton className="h-10 w-64" />
+        ) : (
+          <div className="flex items-center gap-3">
+            <Database className="h-5 w-5 text-gray-500" />
+            <div>
+              <p className="text-sm text-gray-900">
+                {stats.cached_documents} {stats.cached_documents === 1 ? 'document' : 'documents'} ·{' '}
+                {stats.total_vectors.toLocaleString()} vectors
+              </p>
+              <p className="text-xs text-gray-500">{FileValidator.formatFileSize(stats.total_size_bytes)} in memory</p>
+            </div>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={reload} disabled={stats === null}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            disabled={!stats?.entries.length || pendingPurge !== null}
+            onClick={() => setConfirmPurgeAll(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Purge all
+          </Button>
+        </div>
+      </div>
+
+      {stats === null ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : stats.entries.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">The vector cache is empty.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Document</TableHead>
+              <TableHead className="text-right">Vectors</TableHead>
+              <TableHead className="text-right">Size</TableHead>
+              <TableHead className="text-right">Hits</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stats.entries.map((entry) => (
+              <TableRow key={entry.document_id}>
+                <TableCell className="max-w-[14rem]">
+                  <p className="truncate" title={entry.document_name}>{entry.document_name}</p>
+                  <p className="text-xs text-gray-500 truncate">{entry.owner_email}</p>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{entry.vector_count}</TableCell>
+                <TableCell className="text-right tabular-nums">{FileValidator.formatFileSize(entry.size_bytes)}</TableCell>
+                <TableCell className="text-right tabular-nums">{entry.hits}</TableCell>
+                <TableCell className="text-xs text-gray-500">{DateUtils.formatRelativeTime(entry.last_accessed)}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pendingPurge !== null}
+                    onClick={() => handlePurge(entry)}
+                  >
+                    {pendingPurge === entry.document_id ? 'Purging...' : 'Purge'}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ConfirmationModal
+        open={confirmPurgeAll}
+        onOpenChange={setConfirmPurgeAll}
+        title="Purge the whole vector cache?"
+        description="Every cached document is dropped. Vectors are reloaded on each document's next query, so the first answers will be slower."
+        confirmText="Purge All"
+        variant="warning"
+        onConfirm={handlePurgeAll}
+      />
+    </div>
+  );
+}
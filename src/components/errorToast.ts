@@ -0,0 +1,62 @@
+/**
+ * Error Toasts
+ *
+ * Maps typed API errors to consistent toast notifications.
+ */
+
+import { toast } from 'sonner';
+import {
+  AuthExpiredError,
+  ErrorUtils,
+  NetworkError,
+  PermissionDeniedError,
+  QuotaExceededError,
+  RateLimitedError,
+  ServerError,
+} from '../services';
+
+export function showErrorToast(error: unknown, fallback?: string): void {
+  // Cancelled requests are not failures
+  if (ErrorUtils.isAbortError(error)) return;
+
+  if (error instanceof NetworkError) {
+    // Fixed id so a burst of failed requests shows a single toast
+    toast.error("You're offline or the server is unreachable", { id: 'network-error' });
+    return;
+  }
+
+  if (error instanceof RateLimitedError) {
+    const seconds = error.retryAfterMs !== null ? Math.ceil(error.retryAfterMs / 1000) : null;
+    toast.warning(
+      seconds ? `Too many requests. Try again in ${seconds}s.` : 'Too many requests. Please slow down.'
+    );
+    return;
+  }
+
+  if (error instanceof AuthExpiredError) {
+    toast.error('Session expired. Please log in again.', { id: 'auth-expired' });
+    return;
+  }
+
+  if (error instanceof PermissionDeniedError) {
+    toast.error(
+      error.code === 'email_not_verified'
+        ? 'Verify your email address to do that'
+        : "You don't have permission to do that"
+    );
+    return;
+  }
+
+  if (error instanceof QuotaExceededError) {
+    toast.warning(error.message || "You've reached your plan's limit");
+    return;
+  }
+
+  if (error instanceof ServerError) {
+    toast.error('Something went wrong on our end. Please try again.');
+    return;
+  }
+
+  const message = ErrorUtils.getErrorMessage(error);
+  toast.error(fallback && message === 'An unexpected error occurred' ? fallback : message);
+}
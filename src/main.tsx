@@ -1,7 +1,19 @@
-
   import { createRoot } from "react-dom/client";
-  import App from "./App.tsx";
+  import { loadRuntimeConfig } from "./services/runtimeConfig";
   import "./index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+  async function bootstrap() {
+    // Deployment config must be in place before the API client (imported via App) reads its base URL
+    await loadRuntimeConfig();
+
+    // The mock backend is only bundled when enabled, and must be in place before the first request
+    if (import.meta.env.VITE_MOCK_API === "true") {
+      const { installMockBackend } = await import("./services/mock");
+      installMockBackend();
+    }
+
+    const { default: App } = await import("./App.tsx");
+    createRoot(document.getElementById("root")!).render(<App />);
+  }
+
+  bootstrap();
@@ -0,0 +1,99 @@
+/**
+ * Activity Tracker
+ *
+ * Records when the user last did something (keyboard, pointer, scrolling,
+ * returning to the tab) or a response was streaming in, for the idle
+ * timeout. The timestamp is shared through localStorage so activity in one
+ * tab keeps the others signed in too.
+ */
+
+// Called after each recorded activity with how long the user had been idle before it
+type ActivityListener = (idleMs: number) => void;
+
+const LAST_ACTIVITY_KEY = 'chatpdf_last_activity';
+const ACTIVITY_EVENTS = ['keydown', 'pointerdown', 'pointermove', 'wheel', 'touchstart', 'scroll'] as const;
+// Pointer moves fire constantly; one write per interval is plenty for minute-scale timeouts
+const RECORD_THROTTLE_MS = 5000;
+
+export class ActivityTracker {
+  private static lastActivity = Date.now();
+  private static listeners = new Set<ActivityListener>();
+  private static started = false;
+
+  /**
+   * Mark the user as active now (throttled, so it's cheap to call per token or event)
+   */
+  static recordActivity(): void {
+    const now = Date.now();
+    const idleMs = now - this.getLastActivity();
+    if (idleMs < RECORD_THROTTLE_MS) return;
+
+    this.lastActivity = now;
+    try {
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    } catch {
+      // Storage can be full or blocked; this tab still tracks its own activity
+    }
+    this.dispatch(idleMs);
+  }
+
+  /**
+   * Most recent activity in any tab (epoch ms)
+   */
+  static getLastActivity(): number {
+    return Math.max(this.lastActivity, this.readSharedActivity());
+  }
+
+  static getIdleMs(): number {
+    return Date.now() - this.getLastActivity();
+  }
+
+  /**
+   * Listen for activity in this or another tab. Starts tracking DOM events
+   * on first use. Returns an unsubscribe function.
+   */
+  static subscribe(listener: ActivityListener): () => void {
+    this.start();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    const onActivity = () => this.recordActivity();
+    ACTIVITY_EVENTS.forEach((eventName) => {
+      window.addEventListener(eventName, onActivity, { passive: true, capture: true });
+    });
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        this.recordActivity();
+      }
+    });
+
+    // Another tab recorded activity
+    window.addEventListener('storage', (event) => {
+      if (event.key !== LAST_ACTIVITY_KEY || !event.newValue) return;
+      const idleMs = Number(event.newValue) - this.lastActivity;
+      this.lastActivity = Math.max(this.lastActivity, Number(event.newValue) || 0);
+      this.dispatch(idleMs);
+    });
+  }
+
+  private static readSharedActivity(): number {
+    try {
+      return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private static dispatch(idleMs: number): void {
+    this.listeners.forEach((listener) => listener(idleMs));
+  }
+}
+
+export default ActivityTracker;
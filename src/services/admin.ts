@@ -0,0 +1,107 @@
+/**
+ * Admin Service
+ *
+ * Staff-only views across every user's documents, plus bulk pipeline
+ * maintenance. The server answers non-staff callers with 403
+ * (PermissionDeniedError); the UI hides these screens from them as well.
+ */
+
+import { apiClient, API_CONFIG, RequestOptions } from './api';
+import { s, Paginated } from './schema';
+import { Document, DocumentSchema } from './documents';
+import { RAGService, ReprocessResult } from './rag';
+
+export interface DocumentOwner {
+  id: number;
+  email: string;
+  full_name: string;
+}
+
+export interface AdminDocument extends Document {
+  owner: DocumentOwner;
+}
+
+export interface AdminDocumentFilters {
+  // Matches document name, file name or owner email
+  search?: string;
+  status?: Document['processing_status'];
+}
+
+export interface BulkReprocessOptions extends RequestOptions {
+  // Documents reprocessed at the same time
+  concurrency?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface BulkReprocessOutcome {
+  documentId: string;
+  result?: ReprocessResult;
+  error?: unknown;
+}
+
+export const DocumentOwnerSchema = s.object<DocumentOwner>({
+  id: s.number(),
+  email: s.string(),
+  full_name: s.string(),
+});
+
+export const AdminDocumentSchema = s.extend<Document, AdminDocument>(DocumentSchema, {
+  owner: DocumentOwnerSchema,
+});
+
+export class AdminService {
+  /**
+   * Documents of all users, newest first
+   */
+  static async getDocuments(
+    page: number = 1,
+    pageSize: number = 20,
+    filters: AdminDocumentFilters = {},
+    options: RequestOptions = {}
+  ): Promise<Paginated<AdminDocument>> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      page_size: pageSize.toString(),
+    });
+    if (filters.search) params.set('search', filters.search);
+    if (filters.status) params.set('status', filters.status);
+
+    return apiClient.get(`${API_CONFIG.ENDPOINTS.ADMIN.DOCUMENTS}?${params}`, {
+      ...options,
+      schema: s.paginated(AdminDocumentSchema),
+    });
+  }
+
+  /**
+   * Reprocess several documents, a few at a time. One failure doesn't stop
+   * the rest; every document gets an outcome, in the order given.
+   */
+  static async reprocessDocuments(
+    documentIds: string[],
+    { concurrency = 3, onProgress, ...options }: BulkReprocessOptions = {}
+  ): Promise<BulkReprocessOutcome[]> {
+    const outcomes: BulkReprocessOutcome[] = new Array(documentIds.length);
+    let nextIndex = 0;
+    let completed = 0;
+
+    const worker = async () => {
+      while (nextIndex < documentIds.length && !options.signal?.aborted) {
+        const index = nextIndex++;
+        const documentId = documentIds[index];
+        try {
+          outcomes[index] = { documentId, result: await RAGService.reprocessDocument(documentId, options) };
+        } catch (error) {
+          outcomes[index] = { documentId, error };
+        }
+        onProgress?.(++completed, documentIds.length);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, documentIds.length) }, worker));
+    const results = outcomes.filter(Boolean);
+    console.log(`🛠️ Reprocessing started for ${results.filter((outcome) => !outcome.error).length}/${documentIds.length} documents`);
+    return results;
+  }
+}
+
+export default AdminService;
@@ -5,16 +5,27 @@
  * Handles authentication, request/response intercepting, and error handling.
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosAdapter, AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import { SessionSync } from './sessionSync';
+import type { SessionEndReason } from './sessionSync';
+import { TOKEN_STORAGE_BACKENDS, TokenStorage, TokenStorageMode } from './tokenStorage';
+import { ApiException, AuthExpiredError, NetworkError, createApiError } from './errors';
+import { RetryPolicy, createRetryPolicyResolver, getRetryDelay, isIdempotentRequest } from './retryPolicy';
+import { Schema, decodeResponse } from './schema';
+import { getRuntimeConfig } from './runtimeConfig';
+import { CachePolicy, QueryCache } from './queryCache';
+import { UrlUtils } from './utils';
+import { UploadProgress, createUploadProgressTracker, formDataSize } from './uploadProgress';
 
 
-// API Configuration
-export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
-export const API_WS_BASE_URL = import.meta.env.VITE_WS_BASE_URL || 'ws://localhost:8000';
-
+// API Configuration (base URLs come from the runtime config, see runtimeConfig.ts)
 export const API_CONFIG = {
-  BASE_URL: API_BASE_URL,
-  WS_BASE_URL: API_WS_BASE_URL,
+  get BASE_URL() {
+    return getRuntimeConfig().apiBaseUrl;
+  },
+  get WS_BASE_URL() {
+    return getRuntimeConfig().wsBaseUrl;
+  },
   ENDPOINTS: {
     // Authentication
     AUTH: {
@@ -25,6 +36,20 @@ export const API_CONFIG = {
       LOGOUT: '/api/auth/logout/',
       PASSWORD_RESET: '/api/auth/password-reset/',
       PASSWORD_RESET_CONFIRM: '/api/auth/password-reset-confirm/',
+      CHANGE_PASSWORD: '/api/auth/change-password/',
+      VERIFY_EMAIL: '/api/auth/verify-email/',
+      RESEND_VERIFICATION: '/api/auth/verify-email/resend/',
+      TWO_FACTOR_SETUP: '/api/auth/2fa/setup/',
+      TWO_FACTOR_CONFIRM: '/api/auth/2fa/confirm/',
+      TWO_FACTOR_DISABLE: '/api/auth/2fa/disable/',
+      TWO_FACTOR_VERIFY: '/api/auth/2fa/verify/',
+      OAUTH_CALLBACK: (provider: string) => `/api/auth/oauth/${provider}/callback/`,
+      OAUTH_LINK: (provider: string) => `/api/auth/oauth/${provider}/link/`,
+      SESSIONS: '/api/auth/sessions/',
+      SESSION_DETAIL: (id: string) => `/api/auth/sessions/${id}/`,
+      SESSIONS_REVOKE_OTHERS: '/api/auth/sessions/revoke-others/',
+      DELETE_ACCOUNT: '/api/auth/account/delete/',
+      SETTINGS: '/api/auth/settings/',
     },
     // Documents
     DOCUMENTS: {
@@ -32,6 +57,7 @@ export const API_CONFIG = {
       UPLOAD: '/api/documents/',
       DELETE: (id: string) => `/api/documents/${id}/`,
       DETAIL: (id: string) => `/api/documents/${id}/`,
+      PROCESSING_STATUS: (id: string) => `/api/documents/${id}/processing_status/`,
     },
     // Chat
     CHAT: {
@@ -42,6 +68,8 @@ export const API_CONFIG = {
       SESSION_MESSAGES: (id: string) => `/api/chats/sessions/${id}/messages/`,
       SESSION_CLEAR: (id: string) => `/api/chats/sessions/${id}/clear/`,
       WEBSOCKET_INFO: (id: string) => `/api/chats/sessions/${id}/websocket_info/`,
+      SESSION_SHARE: (id: string) => `/api/chats/sessions/${id}/share/`,
+      SHARED: (shareId: string) => `/api/chats/shared/${shareId}/`,
     },
     // RAG
     RAG: {
@@ -62,71 +90,203 @@ export const API_CONFIG = {
       FEEDBACK: '/api/rag/feedback/',
       VECTOR_CACHE: '/api/rag/vector-cache/',
     },
+    // Staff-only
+    ADMIN: {
+      DOCUMENTS: '/api/admin/documents/',
+    },
   },
+  // Retry overrides per ENDPOINTS entry (see DEFAULT_RETRY_POLICY for the rest).
+  // GET/PUT/DELETE retry by default; POST/PATCH only when marked idempotent.
+  RETRY_POLICIES: {
+    'DOCUMENTS.LIST': { maxRetries: 3 },
+    'AUTH.SETTINGS': { idempotent: true },
+    'RAG.SEARCH': { idempotent: true },
+    'RAG.SIMILAR_QUERIES': { idempotent: true },
+    // Polled every few seconds anyway
+    'DOCUMENTS.PROCESSING_STATUS': { maxRetries: 0 },
+  } as Record<string, Partial<RetryPolicy>>,
+  // GET responses kept in memory per ENDPOINTS entry. Unlisted endpoints are
+  // never cached, but concurrent identical GETs are still merged into one.
+  CACHE_POLICIES: {
+    'RAG.MODELS': { ttlMs: 10 * 60 * 1000, staleMs: 60 * 60 * 1000 },
+    'AUTH.SETTINGS': { ttlMs: 5 * 60 * 1000, staleMs: 60 * 60 * 1000 },
+    'DOCUMENTS.LIST': { ttlMs: 30 * 1000, staleMs: 5 * 60 * 1000 },
+    'DOCUMENTS.DETAIL': { ttlMs: 30 * 1000, staleMs: 5 * 60 * 1000 },
+  } as Record<string, CachePolicy>,
 };
 
+const resolveRetryPolicy = createRetryPolicyResolver(API_CONFIG.ENDPOINTS, API_CONFIG.RETRY_POLICIES);
+const resolveCachePolicy = UrlUtils.endpointResolver(API_CONFIG.ENDPOINTS, API_CONFIG.CACHE_POLICIES);
+
 // Token Management
 export class TokenManager {
   private static readonly ACCESS_TOKEN_KEY = 'chatpdf_access_token';
   private static readonly REFRESH_TOKEN_KEY = 'chatpdf_refresh_token';
   private static readonly USER_KEY = 'chatpdf_user';
   private static readonly AUTH_STORE_KEY = 'auth-store';
+  private static listeners = new Set<() => void>();
+  private static mode: TokenStorageMode = TokenManager.detectStorageMode();
+
+  /**
+   * Stable storage handle that always points at the active backend
+   * (used by the persisted auth store so user data lives next to the tokens)
+   */
+  static readonly storage: TokenStorage = {
+    getItem: (key) => TokenManager.backend().getItem(key),
+    setItem: (key, value) => TokenManager.backend().setItem(key, value),
+    removeItem: (key) => TokenManager.backend().removeItem(key),
+  };
+
+  static getStorageMode(): TokenStorageMode {
+    return this.mode;
+  }
+
+  /**
+   * Switch the backend used for new tokens. Clears every backend first so a
+   * "don't remember me" login never leaves old tokens behind in localStorage.
+   */
+  static setStorageMode(mode: TokenStorageMode): void {
+    this.clearAllBackends();
+    this.mode = mode;
+  }
 
   static getAccessToken(): string | null {
-    return localStorage.getItem(this.ACCESS_TOKEN_KEY);
+    return this.backend().getItem(this.ACCESS_TOKEN_KEY);
   }
 
   static getRefreshToken(): string | null {
-    return localStorage.getItem(this.REFRESH_TOKEN_KEY);
+    return this.backend().getItem(this.REFRESH_TOKEN_KEY);
   }
 
   static getUser(): any | null {
-    const userStr = localStorage.getItem(this.USER_KEY);
+    const userStr = this.backend().getItem(this.USER_KEY);
     return userStr ? JSON.parse(userStr) : null;
   }
 
   static setTokens(accessToken: string, refreshToken: string, user?: any): void {
-    localStorage.setItem(this.ACCESS_TOKEN_KEY, accessToken);
-    localStorage.setItem(this.REFRESH_TOKEN_KEY, refreshToken);
+    const storage = this.backend();
+    storage.setItem(this.ACCESS_TOKEN_KEY, accessToken);
+    storage.setItem(this.REFRESH_TOKEN_KEY, refreshToken);
     if (user) {
-      localStorage.setItem(this.USER_KEY, JSON.stringify(user));
+      storage.setItem(this.USER_KEY, JSON.stringify(user));
     }
+    this.notify();
   }
 
   static clearTokens(): void {
-    localStorage.removeItem(this.ACCESS_TOKEN_KEY);
-    localStorage.removeItem(this.REFRESH_TOKEN_KEY);
-    localStorage.removeItem(this.USER_KEY);
-    localStorage.removeItem(this.AUTH_STORE_KEY);
+    this.clearAllBackends();
+    this.notify();
   }
 
   static isAuthenticated(): boolean {
     return !!(this.getAccessToken() && this.getRefreshToken());
   }
-}
 
-// API Error Types
-export interface ApiError {
-  message: string;
-  status?: number;
-  errors?: Record<string, string[]>;
-}
+  /**
+   * Read the `exp` claim (ms since epoch) from the stored access token
+   */
+  static getAccessTokenExpiry(): number | null {
+    const token = this.getAccessToken();
+    if (!token) return null;
+
+    try {
+      const payload = token.split('.')[1];
+      const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+      const { exp } = JSON.parse(json);
+      return typeof exp === 'number' ? exp * 1000 : null;
+    } catch {
+      return null;
+    }
+  }
 
-export class ApiException extends Error {
-  status?: number;
-  errors?: Record<string, string[]>;
+  /**
+   * Subscribe to token changes (set or cleared). Returns an unsubscribe function.
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
 
-  constructor(message: string, status?: number, errors?: Record<string, string[]>) {
-    super(message);
-    this.name = 'ApiException';
-    this.status = status;
-    this.errors = errors;
+  private static notify(): void {
+    this.listeners.forEach((listener) => listener());
   }
+
+  private static backend(): TokenStorage {
+    return TOKEN_STORAGE_BACKENDS[this.mode];
+  }
+
+  private static clearAllBackends(): void {
+    Object.values(TOKEN_STORAGE_BACKENDS).forEach((storage) => {
+      storage.removeItem(this.ACCESS_TOKEN_KEY);
+      storage.removeItem(this.REFRESH_TOKEN_KEY);
+      storage.removeItem(this.USER_KEY);
+      storage.removeItem(this.AUTH_STORE_KEY);
+    });
+  }
+
+  // On load, resume whichever backend the previous login wrote to
+  private static detectStorageMode(): TokenStorageMode {
+    if (TOKEN_STORAGE_BACKENDS.session.getItem(this.REFRESH_TOKEN_KEY)) {
+      return 'session';
+    }
+    return 'persistent';
+  }
+}
+
+// API Error Types (defined in ./errors, re-exported here for existing imports)
+export { ApiException } from './errors';
+export type { ApiError } from './errors';
+
+// Per-request options accepted by every ApiClient method
+export interface RequestOptions<T = any> {
+  // Aborting rejects the request with a CanceledError (see ErrorUtils.isAbortError)
+  signal?: AbortSignal;
+  // Override the endpoint's retry policy for this call, or `false` to never retry
+  retry?: Partial<RetryPolicy> | false;
+  // Validate the response body; mismatched fields are reported and replaced with fallbacks
+  schema?: Schema<T>;
+  // GET only: override the endpoint's cache policy, or `false` to skip cached data
+  cache?: Partial<CachePolicy> | false;
+  // GET only: receives fresher data after a stale cached response was returned
+  onUpdate?: (data: T) => void;
+  // upload() only: bytes sent so far, with speed and time remaining
+  onUploadProgress?: (progress: UploadProgress) => void;
 }
 
+type ApiRequestConfig = AxiosRequestConfig & {
+  retry?: Partial<RetryPolicy> | false;
+  _retry?: boolean;
+  _retryCount?: number;
+};
+
+const AUTH_ENDPOINTS_WITHOUT_REFRESH = [
+  API_CONFIG.ENDPOINTS.AUTH.LOGIN,
+  API_CONFIG.ENDPOINTS.AUTH.REGISTER,
+  API_CONFIG.ENDPOINTS.AUTH.REFRESH,
+  API_CONFIG.ENDPOINTS.AUTH.TWO_FACTOR_VERIFY,
+];
+
+// Refresh this long before the access token expires
+const TOKEN_REFRESH_LEEWAY_MS = 60 * 1000;
+// Floor for the proactive refresh delay, so very short-lived tokens can't cause a refresh loop
+const MIN_REFRESH_DELAY_MS = 10 * 1000;
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 // Base API Client
 export class ApiClient {
   private axiosInstance: AxiosInstance;
+  // Shared by every request that needs a refresh, so only one refresh call is in flight
+  private refreshPromise: Promise<boolean> | null = null;
+  // Why the last refresh failed when the server couldn't be reached (the session is still good)
+  private refreshFailure: ApiException | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // Streams need the fetch adapter; replaced together with the default one by setAdapter
+  private streamAdapter: AxiosRequestConfig['adapter'] = 'fetch';
+  private cache = new QueryCache(resolveCachePolicy);
+  private sessionEndListeners = new Set<(reason: SessionEndReason) => void>();
 
   constructor(baseURL: string = API_CONFIG.BASE_URL) {
     this.axiosInstance = axios.create({
@@ -140,7 +300,11 @@ export class ApiClient {
     });
 
     // Request interceptor to add auth token and ngrok header
-    this.axiosInstance.interceptors.request.use((config) => {
+    this.axiosInstance.interceptors.request.use(async (config) => {
+      // Queue behind an in-flight refresh so the request goes out with the new token
+      if (this.refreshPromise) {
+        await this.refreshPromise;
+      }
       const accessToken = TokenManager.getAccessToken();
       if (accessToken) {
         config.headers.Authorization = `Bearer ${accessToken}`;
@@ -157,12 +321,24 @@ export class ApiClient {
     this.axiosInstance.interceptors.response.use(
       (response) => response,
       async (error: AxiosError) => {
-        const originalRequest = error.config as AxiosRequestConfig & { _retry?: boolean };
+        // Let cancellations through untouched so callers can tell them apart from failures
+        if (axios.isCancel(error)) {
+          throw error;
+        }
+
+        const originalRequest = error.config as ApiRequestConfig;
+        // A 401 from login/register/refresh means bad credentials, not an expired session
+        const isAuthEndpoint = AUTH_ENDPOINTS_WITHOUT_REFRESH.some((path) => originalRequest.url?.startsWith(path));
         
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        if (error.response?.status === 401 && !originalRequest._retry && !isAuthEndpoint) {
           originalRequest._retry = true;
-          
-          const refreshed = await this.refreshToken();
+
+          // Another request may have refreshed while this one was in flight
+          const sentAuthorization = originalRequest.headers?.Authorization;
+          const currentToken = TokenManager.getAccessToken();
+          const tokenChanged = !!currentToken && sentAuthorization !== `Bearer ${currentToken}`;
+
+          const refreshed = tokenChanged || await this.refreshToken();
           if (refreshed) {
             const newAccessToken = TokenManager.getAccessToken();
             if (originalRequest.headers) {
@@ -170,36 +346,178 @@ export class ApiClient {
             }
             return this.axiosInstance(originalRequest);
           } else {
-            TokenManager.clearTokens();
-            throw new ApiException('Authentication failed', 401);
+            // performTokenRefresh has already ended the session if the server rejected the refresh
+            throw this.refreshFailure ?? new AuthExpiredError();
           }
         }
         
-        return this.handleError(error);
+        const apiError = await this.toApiError(error);
+        if (await this.waitForRetry(originalRequest, apiError)) {
+          return this.axiosInstance(originalRequest);
+        }
+        throw apiError;
       }
     );
+
+    // Keep the proactive refresh timer in step with the stored access token
+    TokenManager.subscribe(() => this.scheduleTokenRefresh());
+    // Cached responses belong to the signed-in user
+    TokenManager.subscribe(() => {
+      if (!TokenManager.getAccessToken()) {
+        this.cache.clear();
+      }
+    });
+    SessionSync.subscribe((event) => {
+      if (event.type === 'token_refresh') {
+        this.scheduleTokenRefresh();
+      }
+    });
+    this.scheduleTokenRefresh();
   }
 
-  private handleError(error: AxiosError): never {
+  private async toApiError(error: AxiosError): Promise<ApiException> {
     if (error.response) {
       // Server responded with error status
-      const data = error.response.data as any;
-      const message = data?.message || data?.detail || `HTTP ${error.response.status}`;
-      const errors = data?.errors || data;
-      throw new ApiException(message, error.response.status, errors);
+      const data = await this.readErrorBody(error.response.data);
+      return createApiError(error.response.status, data, error.response.headers as any);
     } else if (error.request) {
       // Network error
-      throw new ApiException('Network error: No response received');
+      return new NetworkError();
     } else {
       // Request setup error
-      throw new ApiException(`Request error: ${error.message}`);
+      return new ApiException(`Request error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Apply the endpoint's retry policy: resolves true (after backing off) if the
+   * request should be sent again, false if the error should be surfaced
+   */
+  private async waitForRetry(config: ApiRequestConfig | undefined, error: ApiException): Promise<boolean> {
+    if (!config || config.retry === false || !error.retryable) {
+      return false;
+    }
+
+    const policy: RetryPolicy = { ...resolveRetryPolicy(config.url), ...config.retry };
+    const attempt = config._retryCount ?? 0;
+    if (attempt >= policy.maxRetries || !isIdempotentRequest(config.method, policy)) {
+      return false;
+    }
+
+    const delay = getRetryDelay(policy, attempt, error);
+    if (delay === null) {
+      return false;
+    }
+
+    config._retryCount = attempt + 1;
+    console.warn(`🔁 Retrying ${config.method?.toUpperCase()} ${config.url} in ${delay}ms (${attempt + 1}/${policy.maxRetries})`);
+    await this.sleep(delay, config.signal as AbortSignal | undefined);
+    return true;
+  }
+
+  // Backoff wait that ends early (as a cancellation) if the caller aborts
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new axios.CanceledError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new axios.CanceledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private requestConfig(options: RequestOptions<any>, config: AxiosRequestConfig = {}): ApiRequestConfig {
+    return { ...config, signal: options.signal, retry: options.retry };
+  }
+
+  private decode<T>(response: AxiosResponse<T>, options: RequestOptions<T>): T {
+    if (!options.schema) {
+      return response.data;
+    }
+    const endpoint = `${response.config.method?.toUpperCase()} ${response.config.url}`;
+    return decodeResponse(options.schema, response.data, endpoint);
+  }
+
+  /**
+   * Send every request (including streams and token refresh) through a custom
+   * transport, e.g. the in-browser mock backend
+   */
+  setAdapter(adapter: AxiosAdapter): void {
+    this.axiosInstance.defaults.adapter = adapter;
+    this.streamAdapter = adapter;
+  }
+
+  // Streamed requests hand back the error body unread; parse it so errors carry the server's message
+  private async readErrorBody(data: unknown): Promise<unknown> {
+    if (typeof ReadableStream === 'undefined' || !(data instanceof ReadableStream)) {
+      return data;
+    }
+
+    const text = await new Response(data).text().catch(() => '');
+    try {
+      return JSON.parse(text);
+    } catch {
+      return { detail: text || undefined };
+    }
+  }
+
+  /**
+   * Refresh the access token. Concurrent callers share a single in-flight request.
+   */
+  refreshToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Schedule a refresh shortly before the access token's `exp` claim,
+   * so long-running sessions don't hit a 401 mid-stream
+   */
+  private scheduleTokenRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
     }
+
+    const expiresAt = TokenManager.getAccessTokenExpiry();
+    if (!expiresAt || !TokenManager.getRefreshToken()) {
+      return;
+    }
+
+    const delay = Math.min(
+      Math.max(expiresAt - Date.now() - TOKEN_REFRESH_LEEWAY_MS, MIN_REFRESH_DELAY_MS),
+      MAX_TIMER_DELAY_MS
+    );
+    const refresh = async () => {
+      this.refreshTimer = null;
+      const refreshed = await this.refreshToken();
+      // A transient failure leaves the session in place; keep trying until it ends or succeeds
+      if (!refreshed && TokenManager.getRefreshToken() && !this.refreshTimer) {
+        this.refreshTimer = setTimeout(refresh, MIN_REFRESH_DELAY_MS);
+      }
+    };
+    this.refreshTimer = setTimeout(refresh, delay);
   }
 
-  private async refreshToken(): Promise<boolean> {
+  private async performTokenRefresh(): Promise<boolean> {
+    this.refreshFailure = null;
     const refreshToken = TokenManager.getRefreshToken();
     if (!refreshToken) {
       console.log('🔒 No refresh token available');
+      // Nothing left to renew a rejected access token with
+      this.endSession('expired');
       return false;
     }
 
@@ -207,42 +525,112 @@ export class ApiClient {
       console.log('🔄 Attempting to refresh access token...');
       const response = await axios.post(`${this.axiosInstance.defaults.baseURL}${API_CONFIG.ENDPOINTS.AUTH.REFRESH}`, {
         refresh: refreshToken
-      });
+      }, { adapter: this.axiosInstance.defaults.adapter });
 
       const data = response.data;
       // Store new access token (and new refresh token if provided)
       const newRefreshToken = data.refresh || refreshToken; // Use new refresh if provided, else keep old
       TokenManager.setTokens(data.access, newRefreshToken, data.user);
+      SessionSync.broadcast({ type: 'token_refresh' });
       console.log('✅ Token refresh successful');
       return true;
     } catch (error: any) {
       console.log('❌ Token refresh failed:', error.response?.status || error.message);
+      // A 4xx means the server turned the refresh token down (expired or revoked), not that it was unreachable
+      if (error.response && error.response.status < 500) {
+        this.endSession(error.response.data?.code === 'session_revoked' ? 'revoked' : 'expired');
+      } else {
+        this.refreshFailure = await this.toApiError(error);
+      }
       return false;
     }
   }
 
-  async get<T>(endpoint: string): Promise<T> {
-    const response = await this.axiosInstance.get<T>(endpoint);
-    return response.data;
+  /**
+   * Listen for the server ending this tab's session (refresh token expired or
+   * the session was revoked from another device). Returns an unsubscribe function.
+   */
+  onSessionEnd(listener: (reason: SessionEndReason) => void): () => void {
+    this.sessionEndListeners.add(listener);
+    return () => {
+      this.sessionEndListeners.delete(listener);
+    };
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
-    const response = await this.axiosInstance.post<T>(endpoint, data);
-    return response.data;
+  private endSession(reason: SessionEndReason): void {
+    // Requests failing on the same dead session all land here; only the first one reports it
+    if (!TokenManager.getAccessToken() && !TokenManager.getRefreshToken()) {
+      return;
+    }
+
+    console.log(`🔒 Session ended (${reason})`);
+    TokenManager.clearTokens();
+    SessionSync.broadcast({ type: 'logout', reason });
+    this.sessionEndListeners.forEach((listener) => listener(reason));
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<T> {
-    const response = await this.axiosInstance.put<T>(endpoint, data);
-    return response.data;
+  /**
+   * GET through the shared query cache: concurrent identical calls share one
+   * request, and endpoints in API_CONFIG.CACHE_POLICIES are answered from memory
+   */
+  async get<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<T> {
+    return this.cache.fetch(endpoint, async (signal) => {
+      const response = await this.axiosInstance.get<T>(endpoint, this.requestConfig({ ...options, signal }));
+      return this.decode(response, options);
+    }, options);
+  }
+
+  /**
+   * Drop cached GET responses whose endpoint starts with `prefix`
+   * (call after mutations; omit the prefix to clear everything)
+   */
+  invalidate(prefix?: string): void {
+    this.cache.invalidate(prefix);
+  }
+
+  async post<T>(endpoint: string, data?: any, options: RequestOptions<T> = {}): Promise<T> {
+    const response = await this.axiosInstance.post<T>(endpoint, data, this.requestConfig(options));
+    return this.decode(response, options);
+  }
+
+  async put<T>(endpoint: string, data?: any, options: RequestOptions<T> = {}): Promise<T> {
+    const response = await this.axiosInstance.put<T>(endpoint, data, this.requestConfig(options));
+    return this.decode(response, options);
+  }
+
+  async patch<T>(endpoint: string, data?: any, options: RequestOptions<T> = {}): Promise<T> {
+    const response = await this.axiosInstance.patch<T>(endpoint, data, this.requestConfig(options));
+    return this.decode(response, options);
   }
 
-  async patch<T>(endpoint: string, data?: any): Promise<T> {
-    const response = await this.axiosInstance.patch<T>(endpoint, data);
+  async delete<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<T> {
+    const response = await this.axiosInstance.delete<T>(endpoint, this.requestConfig(options));
+    return this.decode(response, options);
+  }
+
+  /**
+   * POST and return the raw response body as a stream (e.g. incremental LLM output).
+   * Uses the fetch adapter so the body isn't buffered; auth, token refresh and
+   * error mapping are the same as for every other request.
+   */
+  async stream(endpoint: string, data?: any, options: RequestOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.axiosInstance.post<ReadableStream<Uint8Array>>(endpoint, data, this.requestConfig(options, {
+      adapter: this.streamAdapter,
+      responseType: 'stream',
+    }));
+
+    if (!response.data) {
+      throw new ApiException('Response body is not available');
+    }
     return response.data;
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    const response = await this.axiosInstance.delete<T>(endpoint);
+  /**
+   * GET a file (e.g. a document's original upload) as a Blob. Skips the query
+   * cache; auth, token refresh, retries and error mapping work as for get().
+   */
+  async download(url: string, options: RequestOptions = {}): Promise<Blob> {
+    const response = await this.axiosInstance.get<Blob>(url, this.requestConfig(options, { responseType: 'blob' }));
     return response.data;
   }
 
@@ -250,13 +638,18 @@ export class ApiClient {
     return TokenManager.getAccessToken();
   }
 
-  async upload<T>(endpoint: string, formData: FormData): Promise<T> {
+  async upload<T>(endpoint: string, formData: FormData, options: RequestOptions<T> = {}): Promise<T> {
+    // Uploads are never retried automatically: a repeat could create a duplicate document
     const response = await this.axiosInstance.post<T>(endpoint, formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
-    });
-    return response.data;
+      signal: options.signal,
+      retry: false,
+      onUploadProgress: options.onUploadProgress
+        && createUploadProgressTracker(options.onUploadProgress, formDataSize(formData)),
+    } as ApiRequestConfig);
+    return this.decode(response, options);
   }
 }
 
@@ -4,7 +4,12 @@
  * Handles user authentication, registration, and profile management.
  */
 
-import { apiClient, API_CONFIG, TokenManager, ApiException } from './api';
+import { apiClient, API_CONFIG, TokenManager, ApiException, RequestOptions } from './api';
+import { EPHEMERAL_TOKEN_STORAGE_MODE } from './tokenStorage';
+import { SessionSync } from './sessionSync';
+import { ErrorUtils } from './utils';
+import { s } from './schema';
+import { OAUTH_PROVIDER_NAMES, OAuthProvider } from './runtimeConfig';
 
 // Type definitions matching backend models
 export interface User {
@@ -19,6 +24,9 @@ export interface User {
   join_date: string;
   is_email_verified: boolean;
   oauth_provider: string | null;
+  two_factor_enabled: boolean;
+  // Staff accounts can open the admin console
+  is_staff: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -35,12 +43,46 @@ export interface LoginCredentials {
   remember_me?: boolean;
 }
 
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  // Short-lived token identifying the half-finished login
+  challenge_token: string;
+}
+
+export interface TwoFactorVerifyData {
+  challenge_token: string;
+  // Either a 6-digit code from the authenticator app or one of the recovery codes
+  code?: string;
+  recovery_code?: string;
+  remember_me?: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  // Data URL of the otpauth:// QR code, when the backend renders one
+  qr_code: string | null;
+}
+
+export interface TwoFactorRecoveryCodes {
+  recovery_codes: string[];
+}
+
+export interface TwoFactorDisableData {
+  password: string;
+  // Authenticator or recovery code
+  code: string;
+}
+
 export interface RegisterData {
   email: string;
   password: string;
   first_name: string;
   last_name: string;
   password_confirm: string;
+  // Where the new account's tokens are kept; defaults to staying signed in
+  remember_me?: boolean;
 }
 
 export interface PasswordResetRequest {
@@ -52,6 +94,12 @@ export interface PasswordResetConfirm {
   password: string;
 }
 
+export interface PasswordResetResult {
+  detail: string;
+  // Account the token belonged to, when the backend reports it (lets the client sign straight in)
+  email?: string;
+}
+
 export interface ProfileUpdateData {
   first_name?: string;
   last_name?: string;
@@ -61,55 +109,268 @@ export interface ProfileUpdateData {
 export interface PasswordChangeData {
   current_password: string;
   new_password: string;
+  // Sign out every other session on the account
+  sign_out_other_sessions?: boolean;
+}
+
+export interface PasswordChangeResult {
+  detail: string;
+  // Replacement tokens for this session, issued when the backend rotates them on a password change
+  access?: string;
+  refresh?: string;
+}
+
+export type OAuthFlowMode = 'login' | 'link';
+
+export interface OAuthStartOptions {
+  // 'link' connects the provider to the signed-in account instead of signing in
+  mode?: OAuthFlowMode;
+  // Page to come back to afterwards (defaults to the current one)
+  returnTo?: string;
+  remember_me?: boolean;
+}
+
+export interface OAuthCallbackResult {
+  mode: OAuthFlowMode;
+  provider: OAuthProvider;
+  returnTo: string;
+  user: User;
+}
+
+// A signed-in device, listed under Sessions in the profile
+export interface AuthSession {
+  id: string;
+  device: string;
+  browser: string;
+  ip_address: string;
+  // Approximate, looked up from the IP address
+  location: string;
+  created_at: string;
+  last_active: string;
+  // The session the request was made with
+  is_current: boolean;
+}
+
+export interface RevokeSessionsResult {
+  detail: string;
+  revoked: number;
+}
+
+// Text the user types to confirm deleting their account; the backend checks it too
+export const ACCOUNT_DELETION_CONFIRMATION = 'DELETE';
+
+export interface AccountDeletionData {
+  password: string;
+  confirmation: string;
+}
+
+// Runtime schemas for the responses above (see ./schema)
+export const UserSchema = s.object<User>({
+  id: s.number(),
+  email: s.string(),
+  first_name: s.string(),
+  last_name: s.string(),
+  full_name: s.string(),
+  initials: s.string('?'),
+  avatar: s.nullable(s.string()),
+  avatar_url: s.nullable(s.string()),
+  join_date: s.string(),
+  is_email_verified: s.boolean(),
+  oauth_provider: s.nullable(s.string()),
+  two_factor_enabled: s.boolean(),
+  is_staff: s.boolean(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+export const PasswordResetResultSchema = s.object<PasswordResetResult>({
+  detail: s.string(),
+  email: s.optional(s.string()),
+});
+
+export const PasswordChangeResultSchema = s.object<PasswordChangeResult>({
+  detail: s.string(),
+  access: s.optional(s.string()),
+  refresh: s.optional(s.string()),
+});
+
+export const AuthTokensSchema = s.object<AuthTokens>({
+  access: s.string(),
+  refresh: s.string(),
+  user: UserSchema,
+});
+
+// Login answers with either tokens or a 2FA challenge
+interface LoginResponse {
+  access?: string;
+  refresh?: string;
+  user?: User;
+  two_factor_required?: boolean;
+  challenge_token?: string;
 }
 
+const LoginResponseSchema = s.object<LoginResponse>({
+  access: s.optional(s.string()),
+  refresh: s.optional(s.string()),
+  user: s.optional(UserSchema),
+  two_factor_required: s.optional(s.boolean()),
+  challenge_token: s.optional(s.string()),
+});
+
+export const TwoFactorSetupSchema = s.object<TwoFactorSetup>({
+  secret: s.string(),
+  otpauth_url: s.string(),
+  qr_code: s.nullable(s.string()),
+});
+
+export const TwoFactorRecoveryCodesSchema = s.object<TwoFactorRecoveryCodes>({
+  recovery_codes: s.array(s.string()),
+});
+
+export const AuthSessionSchema = s.object<AuthSession>({
+  id: s.string(),
+  device: s.string('Unknown device'),
+  browser: s.string('Unknown browser'),
+  ip_address: s.string(),
+  location: s.string(),
+  created_at: s.string(),
+  last_active: s.string(),
+  is_current: s.boolean(),
+});
+
+export const RevokeSessionsResultSchema = s.object<RevokeSessionsResult>({
+  detail: s.string(),
+  revoked: s.number(),
+});
+
+export const isTwoFactorChallenge = (result: AuthTokens | TwoFactorChallenge): result is TwoFactorChallenge =>
+  'two_factor_required' in result && result.two_factor_required === true;
+
+// Providers come back to this page with ?code=&state= (or tokens) appended
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+
+const OAUTH_STATE_KEY = 'chatpdf_oauth_state';
+// A sign-in left unfinished for longer than this is treated as abandoned
+const OAUTH_STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Remembered in sessionStorage across the redirect to the provider and back
+interface PendingOAuthFlow {
+  state: string;
+  provider: OAuthProvider;
+  mode: OAuthFlowMode;
+  returnTo: string;
+  rememberMe: boolean;
+  createdAt: number;
+}
+
+const getOAuthRedirectUri = () => `${window.location.origin}${OAUTH_CALLBACK_PATH}`;
+
+const createOAuthState = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Read and forget the pending flow, so a callback URL can't be replayed
+const takePendingOAuthFlow = (): PendingOAuthFlow | null => {
+  const raw = sessionStorage.getItem(OAUTH_STATE_KEY);
+  sessionStorage.removeItem(OAUTH_STATE_KEY);
+  try {
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
 export class AuthService {
   /**
-   * Login user with email and password
+   * Login user with email and password. Accounts with 2FA enabled get a
+   * TwoFactorChallenge back instead of tokens; finish with verifyTwoFactor().
    */
-  static async login(credentials: LoginCredentials): Promise<AuthTokens> {
+  static async login(credentials: LoginCredentials, options: RequestOptions = {}): Promise<AuthTokens | TwoFactorChallenge> {
     try {
-      const response = await apiClient.post<AuthTokens>(
+      const response = await apiClient.post(
         API_CONFIG.ENDPOINTS.AUTH.LOGIN,
-        credentials
+        credentials,
+        { ...options, schema: LoginResponseSchema }
       );
-      
-      // Validate response before setting tokens
-      if (!response.access || !response.refresh || !response.user) {
-        throw new ApiException('Invalid server response: missing required fields');
+
+      if (response.two_factor_required && response.challenge_token) {
+        return { two_factor_required: true, challenge_token: response.challenge_token };
       }
-      
-      // Store tokens and user data only after successful validation
-      TokenManager.setTokens(response.access, response.refresh, response.user);
-      
-      return response;
+
+      return this.storeLoginTokens(response, credentials.remember_me);
     } catch (error) {
       // Ensure no tokens are set on error
       TokenManager.clearTokens();
       
-      if (error instanceof ApiException) {
+      if (error instanceof ApiException || ErrorUtils.isAbortError(error)) {
         throw error;
       }
       throw new ApiException('Login failed. Please try again.');
     }
   }
 
+  /**
+   * Second login step: exchange the challenge from login() and an
+   * authenticator or recovery code for tokens. Wrong codes fail with a
+   * ValidationError on `code` / `recovery_code`; an expired challenge with
+   * code `challenge_expired` (start the login again).
+   */
+  static async verifyTwoFactor(data: TwoFactorVerifyData, options: RequestOptions = {}): Promise<AuthTokens> {
+    const { remember_me, ...body } = data;
+    const response = await apiClient.post(
+      API_CONFIG.ENDPOINTS.AUTH.TWO_FACTOR_VERIFY,
+      body,
+      { ...options, schema: LoginResponseSchema }
+    );
+    return this.storeLoginTokens(response, remember_me);
+  }
+
+  /**
+   * Start 2FA enrollment: a new TOTP secret (not active until confirmed)
+   */
+  static async setupTwoFactor(options: RequestOptions = {}): Promise<TwoFactorSetup> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.TWO_FACTOR_SETUP, {}, { ...options, schema: TwoFactorSetupSchema });
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app. The recovery
+   * codes in the response are shown to the user once and never again.
+   */
+  static async confirmTwoFactor(code: string, options: RequestOptions = {}): Promise<TwoFactorRecoveryCodes> {
+    return apiClient.post(
+      API_CONFIG.ENDPOINTS.AUTH.TWO_FACTOR_CONFIRM,
+      { code },
+      { ...options, schema: TwoFactorRecoveryCodesSchema }
+    );
+  }
+
+  /**
+   * Turn 2FA off (needs the password and a current or recovery code)
+   */
+  static async disableTwoFactor(data: TwoFactorDisableData, options: RequestOptions = {}): Promise<void> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.TWO_FACTOR_DISABLE, data, options);
+  }
+
   /**
    * Register new user
    */
-  static async register(data: RegisterData): Promise<AuthTokens> {
+  static async register(data: RegisterData, options: RequestOptions = {}): Promise<AuthTokens> {
+    const { remember_me = true, ...body } = data;
     try {
-      const response = await apiClient.post<AuthTokens>(
+      const response = await apiClient.post(
         API_CONFIG.ENDPOINTS.AUTH.REGISTER,
-        data
+        body,
+        { ...options, schema: AuthTokensSchema }
       );
       
-      // Store tokens and user data
+      // Store tokens and user data, in the backend the new account asked for rather than the last login's
+      TokenManager.setStorageMode(remember_me ? 'persistent' : EPHEMERAL_TOKEN_STORAGE_MODE);
       TokenManager.setTokens(response.access, response.refresh, response.user);
       
       return response;
     } catch (error) {
-      if (error instanceof ApiException) {
+      if (error instanceof ApiException || ErrorUtils.isAbortError(error)) {
         throw error;
       }
       throw new ApiException('Registration failed. Please try again.');
@@ -141,14 +402,14 @@ export class AuthService {
   /**
    * Get current user profile
    */
-  static async getProfile(): Promise<User> {
-    return apiClient.get<User>(API_CONFIG.ENDPOINTS.AUTH.PROFILE);
+  static async getProfile(options: RequestOptions = {}): Promise<User> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.AUTH.PROFILE, { ...options, schema: UserSchema });
   }
 
   /**
    * Update user profile
    */
-  static async updateProfile(data: ProfileUpdateData): Promise<User> {
+  static async updateProfile(data: ProfileUpdateData, options: RequestOptions = {}): Promise<User> {
     if (data.avatar) {
       // Handle file upload
       const formData = new FormData();
@@ -156,51 +417,85 @@ export class AuthService {
       if (data.first_name) formData.append('first_name', data.first_name);
       if (data.last_name) formData.append('last_name', data.last_name);
       
-      return apiClient.upload<User>(API_CONFIG.ENDPOINTS.AUTH.PROFILE, formData);
+      return apiClient.upload(API_CONFIG.ENDPOINTS.AUTH.PROFILE, formData, { ...options, schema: UserSchema });
     } else {
-      return apiClient.patch<User>(API_CONFIG.ENDPOINTS.AUTH.PROFILE, data);
+      return apiClient.patch(API_CONFIG.ENDPOINTS.AUTH.PROFILE, data, { ...options, schema: UserSchema });
     }
   }
 
   /**
-   * Change password
+   * Change password. A wrong current password fails with a ValidationError on
+   * `current_password`; rotated tokens in the response replace the stored ones
+   * so this session stays signed in.
    */
-  static async changePassword(data: PasswordChangeData): Promise<void> {
-    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.PROFILE, data);
+  static async changePassword(data: PasswordChangeData, options: RequestOptions = {}): Promise<PasswordChangeResult> {
+    const response = await apiClient.post(API_CONFIG.ENDPOINTS.AUTH.CHANGE_PASSWORD, data, {
+      ...options,
+      schema: PasswordChangeResultSchema,
+    });
+
+    if (response.access && response.refresh) {
+      TokenManager.setTokens(response.access, response.refresh);
+      // Other tabs would otherwise keep refreshing with the rotated-out token
+      SessionSync.broadcast({ type: 'token_refresh' });
+    }
+
+    return response;
   }
 
   /**
    * Request password reset
    */
-  static async requestPasswordReset(data: PasswordResetRequest): Promise<void> {
-    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.PASSWORD_RESET, data);
+  static async requestPasswordReset(data: PasswordResetRequest, options: RequestOptions = {}): Promise<void> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.PASSWORD_RESET, data, options);
+  }
+
+  /**
+   * Confirm password reset with token. Expired, used or unknown tokens fail
+   * with a ValidationError on `token` (code token_expired / token_used / token_invalid).
+   */
+  static async confirmPasswordReset(data: PasswordResetConfirm, options: RequestOptions = {}): Promise<PasswordResetResult> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.PASSWORD_RESET_CONFIRM, data, {
+      ...options,
+      schema: PasswordResetResultSchema,
+    });
+  }
+
+  /**
+   * Confirm an email address with the token from the verification email.
+   * Works signed out too; bad tokens fail like password reset tokens
+   * (ValidationError on `token`, code token_expired / token_used / token_invalid).
+   */
+  static async verifyEmail(token: string, options: RequestOptions = {}): Promise<void> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.VERIFY_EMAIL, { token }, options);
   }
 
   /**
-   * Confirm password reset with token
+   * Send the signed-in user a new verification email
    */
-  static async confirmPasswordReset(data: PasswordResetConfirm): Promise<void> {
-    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.PASSWORD_RESET_CONFIRM, data);
+  static async resendVerificationEmail(options: RequestOptions = {}): Promise<void> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.RESEND_VERIFICATION, {}, options);
   }
 
   /**
    * Refresh access token
    */
   static async refreshToken(): Promise<AuthTokens> {
-    const refreshToken = TokenManager.getRefreshToken();
-    if (!refreshToken) {
+    if (!TokenManager.getRefreshToken()) {
       throw new ApiException('No refresh token available');
     }
 
-    const response = await apiClient.post<AuthTokens>(
-      API_CONFIG.ENDPOINTS.AUTH.REFRESH,
-      { refresh: refreshToken }
-    );
+    // Goes through the client's single-flight refresh so it never races the interceptor
+    const refreshed = await apiClient.refreshToken();
+    if (!refreshed) {
+      throw new ApiException('Token refresh failed', 401);
+    }
 
-    // Update stored tokens
-    TokenManager.setTokens(response.access, response.refresh, response.user);
-    
-    return response;
+    return {
+      access: TokenManager.getAccessToken()!,
+      refresh: TokenManager.getRefreshToken()!,
+      user: TokenManager.getUser(),
+    };
   }
 
   /**
@@ -217,18 +512,176 @@ export class AuthService {
     return TokenManager.getUser();
   }
 
+  // Validate a login response and keep its tokens in the backend matching "remember me"
+  private static storeLoginTokens(response: LoginResponse, rememberMe?: boolean): AuthTokens {
+    // The schema substitutes empty values for missing fields
+    if (!response.access || !response.refresh || !response.user?.email) {
+      throw new ApiException('Invalid server response: missing required fields');
+    }
+
+    // Refreshes keep writing to the same backend
+    TokenManager.setStorageMode(rememberMe ? 'persistent' : EPHEMERAL_TOKEN_STORAGE_MODE);
+    TokenManager.setTokens(response.access, response.refresh, response.user);
+
+    return { access: response.access, refresh: response.refresh, user: response.user };
+  }
+
   /**
    * OAuth login redirect (for Google/GitHub)
    */
-  static getOAuthLoginUrl(provider: 'google' | 'github'): string {
-    return `${API_CONFIG.BASE_URL}/accounts/${provider}/login/`;
+  static getOAuthLoginUrl(provider: OAuthProvider, state?: string, mode: OAuthFlowMode = 'login'): string {
+    const params = new URLSearchParams({
+      process: mode === 'link' ? 'connect' : 'login',
+      redirect_uri: getOAuthRedirectUri(),
+    });
+    if (state) params.set('state', state);
+    return `${API_CONFIG.BASE_URL}/accounts/${provider}/login/?${params}`;
+  }
+
+  /**
+   * Start an OAuth sign-in (or account link): remembers a random `state` and
+   * the page to return to, then returns the provider URL to navigate to
+   */
+  static async getOAuthUrl(provider: OAuthProvider, options: OAuthStartOptions = {}): Promise<string> {
+    const { pathname, search, hash } = window.location;
+    const flow: PendingOAuthFlow = {
+      state: createOAuthState(),
+      provider,
+      mode: options.mode ?? 'login',
+      returnTo: options.returnTo ?? `${pathname}${search}${hash}`,
+      rememberMe: options.remember_me ?? true,
+      createdAt: Date.now(),
+    };
+    sessionStorage.setItem(OAUTH_STATE_KEY, JSON.stringify(flow));
+
+    return this.getOAuthLoginUrl(provider, flow.state, flow.mode);
+  }
+
+  /**
+   * Finish the flow started by getOAuthUrl from the callback page's query
+   * (and fragment) parameters. Provider errors, a missing or mismatched
+   * `state` and stale flows fail with an ApiException (code `oauth_error`,
+   * `oauth_state_mismatch` or `oauth_expired`).
+   */
+  static async completeOAuth(params: URLSearchParams, options: RequestOptions = {}): Promise<OAuthCallbackResult> {
+    const flow = takePendingOAuthFlow();
+
+    const fail = (message: string, code: string): never => {
+      const error = new ApiException(message);
+      error.code = code;
+      throw error;
+    };
+
+    const providerError = params.get('error');
+    if (providerError) {
+      fail(
+        providerError === 'access_denied'
+          ? 'Sign-in was cancelled.'
+          : params.get('error_description') || 'The sign-in provider reported an error. Please try again.',
+        'oauth_error'
+      );
+    }
+    if (!flow || !params.get('state') || params.get('state') !== flow.state) {
+      fail('This sign-in link is not valid for this browser. Please start again.', 'oauth_state_mismatch');
+    }
+    if (Date.now() - flow!.createdAt > OAUTH_STATE_MAX_AGE_MS) {
+      fail('The sign-in took too long. Please start again.', 'oauth_expired');
+    }
+
+    const { provider, mode, returnTo, rememberMe } = flow!;
+    const code = params.get('code');
+    const access = params.get('access');
+    const refresh = params.get('refresh');
+
+    if (mode === 'link') {
+      if (!code) fail('The sign-in provider did not return an authorization code.', 'oauth_error');
+      const user = await apiClient.post(
+        API_CONFIG.ENDPOINTS.AUTH.OAUTH_LINK(provider),
+        { code, redirect_uri: getOAuthRedirectUri() },
+        { ...options, schema: UserSchema }
+      );
+      return { mode, provider, returnTo, user };
+    }
+
+    TokenManager.setStorageMode(rememberMe ? 'persistent' : EPHEMERAL_TOKEN_STORAGE_MODE);
+
+    try {
+      // Some backends hand the tokens back directly instead of a code to exchange
+      if (access && refresh) {
+        TokenManager.setTokens(access, refresh);
+        const user = await this.getProfile(options);
+        TokenManager.setTokens(access, refresh, user);
+        return { mode, provider, returnTo, user };
+      }
+
+      if (!code) fail('The sign-in provider did not return an authorization code.', 'oauth_error');
+      const response = await apiClient.post(
+        API_CONFIG.ENDPOINTS.AUTH.OAUTH_CALLBACK(provider),
+        { code, redirect_uri: getOAuthRedirectUri() },
+        { ...options, schema: AuthTokensSchema }
+      );
+      TokenManager.setTokens(response.access, response.refresh, response.user);
+      return { mode, provider, returnTo, user: response.user };
+    } catch (error) {
+      // Same as a failed password login: never leave half a session behind
+      TokenManager.clearTokens();
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect an OAuth provider from the current account. The backend
+   * refuses (ValidationError) when it is the only way left to sign in.
+   */
+  static async unlinkOAuthProvider(provider: OAuthProvider, options: RequestOptions = {}): Promise<User> {
+    return apiClient.delete(API_CONFIG.ENDPOINTS.AUTH.OAUTH_LINK(provider), { ...options, schema: UserSchema });
+  }
+
+  /**
+   * Providers linked to `user` (`oauth_provider` is comma-separated when there are several)
+   */
+  static getLinkedOAuthProviders(user: Pick<User, 'oauth_provider'> | null): OAuthProvider[] {
+    const linked = (user?.oauth_provider || '').toLowerCase().split(',').map((provider) => provider.trim());
+    return (Object.keys(OAUTH_PROVIDER_NAMES) as OAuthProvider[]).filter((provider) => linked.includes(provider));
+  }
+
+  /**
+   * Whether `user` may use the admin console. Only hides the UI; the server
+   * checks staff status on every admin request.
+   */
+  static isStaff(user: Pick<User, 'is_staff'> | null): boolean {
+    return user?.is_staff === true;
+  }
+
+  /**
+   * Devices currently signed in to the account, the current one included
+   */
+  static async getSessions(options: RequestOptions = {}): Promise<AuthSession[]> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.AUTH.SESSIONS, { ...options, schema: s.array(AuthSessionSchema) });
+  }
+
+  /**
+   * Sign out another device. Its tab finds out on its next token refresh.
+   */
+  static async revokeSession(sessionId: string, options: RequestOptions = {}): Promise<void> {
+    return apiClient.delete(API_CONFIG.ENDPOINTS.AUTH.SESSION_DETAIL(sessionId), options);
+  }
+
+  /**
+   * Sign out every device except this one
+   */
+  static async revokeOtherSessions(options: RequestOptions = {}): Promise<RevokeSessionsResult> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.AUTH.SESSIONS_REVOKE_OTHERS, {}, { ...options, schema: RevokeSessionsResultSchema });
   }
 
   /**
-   * Get OAuth URL for authentication
+   * Permanently delete the account and everything stored for it, then drop
+   * the local session. Needs the password and the typed confirmation.
    */
-  static async getOAuthUrl(provider: 'google' | 'github'): Promise<string> {
-    return this.getOAuthLoginUrl(provider);
+  static async deleteAccount(data: AccountDeletionData, options: RequestOptions = {}): Promise<void> {
+    await apiClient.post(API_CONFIG.ENDPOINTS.AUTH.DELETE_ACCOUNT, data, options);
+    TokenManager.clearTokens();
+    localStorage.removeItem('user_settings');
   }
 }
 
@@ -4,7 +4,9 @@
  * Handles chat sessions, messages, and real-time WebSocket communication.
  */
 
-import { apiClient, API_CONFIG, TokenManager, ApiException } from './api';
+import { apiClient, API_CONFIG, TokenManager, ApiException, RequestOptions } from './api';
+import { s } from './schema';
+import { ActivityTracker } from './activity';
 
 // Type definitions matching backend models
 export interface ChatSession {
@@ -32,6 +34,23 @@ export interface Message {
   created_at: string;
 }
 
+// Public read-only link to a chat session
+export interface ChatShare {
+  share_id: string;
+  created_at: string;
+  expires_at: string;
+}
+
+// What a shared link shows; readable without signing in
+export interface SharedChat {
+  share_id: string;
+  title: string;
+  document_name: string;
+  created_at: string;
+  expires_at: string;
+  messages: Message[];
+}
+
 export interface ChatSessionCreate {
   document_id: string;
   title?: string;
@@ -118,40 +137,110 @@ export interface WebSocketInfo {
   };
 }
 
+// Runtime schemas for the REST responses above (see ./schema)
+export const ChatSessionSchema = s.object<ChatSession>({
+  id: s.string(),
+  document: s.string(),
+  title: s.string('Untitled chat'),
+  ai_model: s.string(),
+  temperature: s.number(0.7),
+  max_tokens: s.number(),
+  system_prompt: s.string(),
+  message_count: s.number(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+export const MessageSchema = s.object<Message>({
+  id: s.string(),
+  role: s.oneOf(['user', 'assistant', 'system'], 'assistant'),
+  content: s.string(),
+  page_references: s.array(s.number()),
+  ai_model_used: s.string(),
+  response_time_ms: s.nullable(s.number()),
+  token_count: s.nullable(s.number()),
+  context_documents: s.array(s.any()),
+  created_at: s.string(),
+});
+
+export const ChatShareSchema = s.object<ChatShare>({
+  share_id: s.string(),
+  created_at: s.string(),
+  expires_at: s.string(),
+});
+
+export const SharedChatSchema = s.object<SharedChat>({
+  share_id: s.string(),
+  title: s.string('Shared chat'),
+  document_name: s.string(),
+  created_at: s.string(),
+  expires_at: s.string(),
+  messages: s.array(MessageSchema),
+});
+
+export const ChatListResponseSchema = s.paginated(ChatSessionSchema);
+export const MessageListResponseSchema = s.paginated(MessageSchema);
+
+export const ChatStatsSchema = s.object<ChatStats>({
+  total_chats: s.number(),
+  total_messages: s.number(),
+  user_messages: s.number(),
+  ai_messages: s.number(),
+  today_chats: s.number(),
+  today_messages: s.number(),
+  average_messages_per_chat: s.number(),
+});
+
+export const WebSocketInfoSchema = s.object<WebSocketInfo>({
+  websocket_url: s.string(),
+  chat_id: s.string(),
+  document_id: s.string(),
+  // Informational only; the client builds its own socket URL
+  connection_guide: s.any(),
+});
+
+// localStorage key for unsent chat input, kept per user and document across sign-outs
+export const chatDraftKey = (userId: number, documentId: string) => `chatpdf_chat_draft_${userId}_${documentId}`;
+
 export class ChatService {
   /**
    * Get list of chat sessions
    */
-  static async getChatSessions(page: number = 1, pageSize: number = 20): Promise<ChatListResponse> {
+  static async getChatSessions(
+    page: number = 1,
+    pageSize: number = 20,
+    options: RequestOptions = {}
+  ): Promise<ChatListResponse> {
     const params = new URLSearchParams({
       page: page.toString(),
       page_size: pageSize.toString(),
     });
 
-    return apiClient.get<ChatListResponse>(
-      `${API_CONFIG.ENDPOINTS.CHAT.SESSIONS}?${params}`
+    return apiClient.get(
+      `${API_CONFIG.ENDPOINTS.CHAT.SESSIONS}?${params}`,
+      { ...options, schema: ChatListResponseSchema }
     );
   }
 
   /**
    * Create new chat session
    */
-  static async createChatSession(data: ChatSessionCreate): Promise<ChatSession> {
-    return apiClient.post<ChatSession>(API_CONFIG.ENDPOINTS.CHAT.SESSIONS, data);
+  static async createChatSession(data: ChatSessionCreate, options: RequestOptions = {}): Promise<ChatSession> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.CHAT.SESSIONS, data, { ...options, schema: ChatSessionSchema });
   }
 
   /**
    * Get chat session by ID
    */
-  static async getChatSession(id: string): Promise<ChatSession> {
-    return apiClient.get<ChatSession>(API_CONFIG.ENDPOINTS.CHAT.SESSION_DETAIL(id));
+  static async getChatSession(id: string, options: RequestOptions = {}): Promise<ChatSession> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.CHAT.SESSION_DETAIL(id), { ...options, schema: ChatSessionSchema });
   }
 
   /**
    * Delete chat session
    */
-  static async deleteChatSession(id: string): Promise<void> {
-    return apiClient.delete(API_CONFIG.ENDPOINTS.CHAT.SESSION_DETAIL(id));
+  static async deleteChatSession(id: string, options: RequestOptions = {}): Promise<void> {
+    return apiClient.delete(API_CONFIG.ENDPOINTS.CHAT.SESSION_DETAIL(id), options);
   }
 
   /**
@@ -160,37 +249,70 @@ export class ChatService {
   static async getChatMessages(
     chatId: string,
     page: number = 1,
-    pageSize: number = 50
+    pageSize: number = 50,
+    options: RequestOptions = {}
   ): Promise<MessageListResponse> {
     const params = new URLSearchParams({
       page: page.toString(),
       page_size: pageSize.toString(),
     });
 
-    return apiClient.get<MessageListResponse>(
-      `${API_CONFIG.ENDPOINTS.CHAT.SESSION_MESSAGES(chatId)}?${params}`
+    return apiClient.get(
+      `${API_CONFIG.ENDPOINTS.CHAT.SESSION_MESSAGES(chatId)}?${params}`,
+      { ...options, schema: MessageListResponseSchema }
     );
   }
 
+  /**
+   * Get a public link to a chat session. Sharing the same session again
+   * returns the existing link while it is still valid.
+   */
+  static async shareChatSession(id: string, options: RequestOptions = {}): Promise<ChatShare> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.CHAT.SESSION_SHARE(id), undefined, { ...options, schema: ChatShareSchema });
+  }
+
+  /**
+   * Read a shared chat (no sign-in needed). Unknown or expired links fail with NotFoundError.
+   */
+  static async getSharedChat(shareId: string, options: RequestOptions = {}): Promise<SharedChat> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.CHAT.SHARED(shareId), { ...options, schema: SharedChatSchema });
+  }
+
+  /**
+   * Forget every unsent chat draft saved on this device for `userId`
+   */
+  static clearDrafts(userId: number): void {
+    const prefix = chatDraftKey(userId, '');
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    keys.forEach((key) => localStorage.removeItem(key));
+  }
+
   /**
    * Clear all messages from chat session
    */
-  static async clearChatSession(id: string): Promise<void> {
-    return apiClient.post(API_CONFIG.ENDPOINTS.CHAT.SESSION_CLEAR(id));
+  static async clearChatSession(id: string, options: RequestOptions = {}): Promise<void> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.CHAT.SESSION_CLEAR(id), undefined, options);
   }
 
   /**
    * Get chat statistics
    */
-  static async getChatStats(): Promise<ChatStats> {
-    return apiClient.get<ChatStats>(API_CONFIG.ENDPOINTS.CHAT.STATS);
+  static async getChatStats(options: RequestOptions = {}): Promise<ChatStats> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.CHAT.STATS, { ...options, schema: ChatStatsSchema });
   }
 
   /**
    * Get WebSocket connection info for chat
    */
-  static async getWebSocketInfo(chatId: string): Promise<WebSocketInfo> {
-    return apiClient.get<WebSocketInfo>(API_CONFIG.ENDPOINTS.CHAT.WEBSOCKET_INFO(chatId));
+  static async getWebSocketInfo(chatId: string, options: RequestOptions = {}): Promise<WebSocketInfo> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.CHAT.WEBSOCKET_INFO(chatId), {
+      ...options,
+      schema: WebSocketInfoSchema,
+    });
   }
 }
 
@@ -200,6 +322,11 @@ export class ChatService {
  * Handles real-time communication with the chat WebSocket.
  */
 export class WebSocketChatClient {
+  // Every client that has connected and not been disconnected, so they can be closed on logout
+  private static activeClients = new Set<WebSocketChatClient>();
+  // Swappable so the mock backend can stand in for the real socket server
+  private static createSocket: (url: string) => WebSocket = (url) => new WebSocket(url);
+
   private ws: WebSocket | null = null;
   private chatId: string;
   private documentId: string;
@@ -231,12 +358,14 @@ export class WebSocketChatClient {
       throw new Error('No access token available');
     }
 
+    WebSocketChatClient.activeClients.add(this);
+
     return new Promise((resolve, reject) => {
       try {
         const wsUrl = `${API_CONFIG.WS_BASE_URL}/ws/chat/${this.chatId}/document/${this.documentId}/?token=${accessToken}`;
         console.log('Connecting to WebSocket URL:', wsUrl);
         console.log('Chat ID:', this.chatId, 'Document ID:', this.documentId);
-        this.ws = new WebSocket(wsUrl);
+        this.ws = WebSocketChatClient.createSocket(wsUrl);
 
         this.ws.onopen = () => {
           console.log('WebSocket connected successfully');
@@ -262,6 +391,7 @@ export class WebSocketChatClient {
           // Attempt to reconnect if not intentionally closed
           if (!this.isIntentionallyClosed && this.reconnectAttempts < this.maxReconnectAttempts) {
             setTimeout(() => {
+              if (this.isIntentionallyClosed) return;
               this.reconnectAttempts++;
               console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
               this.connect();
@@ -291,12 +421,27 @@ export class WebSocketChatClient {
    */
   disconnect(): void {
     this.isIntentionallyClosed = true;
+    WebSocketChatClient.activeClients.delete(this);
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
   }
 
+  /**
+   * Replace how sockets are opened (used by the mock backend)
+   */
+  static setSocketFactory(factory: (url: string) => WebSocket): void {
+    WebSocketChatClient.createSocket = factory;
+  }
+
+  /**
+   * Disconnect every open chat client (used when the session ends)
+   */
+  static disconnectAll(): void {
+    WebSocketChatClient.activeClients.forEach((client) => client.disconnect());
+  }
+
   /**
    * Send chat message
    */
@@ -368,6 +513,8 @@ export class WebSocketChatClient {
         break;
 
       case 'token':
+        // A response still streaming in keeps the idle timeout from firing
+        ActivityTracker.recordActivity();
         this.onToken?.(data as WSTokenMessage);
         break;
 
@@ -0,0 +1,171 @@
+/**
+ * Account Data Export
+ *
+ * Collects everything stored for the signed-in user (profile, settings,
+ * documents with their original files, chat sessions with messages, RAG
+ * query history) and packs it into a ZIP for a GDPR data-portability
+ * download.
+ */
+
+import { apiClient, API_CONFIG, RequestOptions } from './api';
+import { NetworkError, NotFoundError, createApiError } from './errors';
+import { AuthService } from './auth';
+import { DocumentService, Document } from './documents';
+import { ChatService, ChatSession, Message } from './chat';
+import { RAGService, QueryHistory } from './rag';
+import { getUserSettings } from './settings';
+import { createZip, ZipEntry } from './zip';
+
+export type DataExportStage = 'profile' | 'documents' | 'files' | 'chats' | 'queries' | 'archive';
+
+export interface DataExportOptions extends RequestOptions {
+  onProgress?: (stage: DataExportStage) => void;
+}
+
+export interface DataExportResult {
+  archive: Blob;
+  filename: string;
+  // Documents whose original file is no longer on the server (listed in manifest.json too)
+  missingFiles: string[];
+}
+
+const PAGE_SIZE = 100;
+
+// Follow `next` links until every page of a paginated list has been read
+async function collectPages<T>(fetchPage: (page: number) => Promise<{ results: T[]; next: string | null }>): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const response = await fetchPage(page);
+    items.push(...response.results);
+    if (!response.next || response.results.length === 0) return items;
+  }
+}
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Storage answers for a file (or a presigned link to it) that no longer exists
+const MISSING_FILE_STATUSES = [403, 404, 410];
+
+// Only files served by the API itself get the user's token; storage hosts (S3, CDN, presigned links) never see it
+const isApiUrl = (url: string): boolean => {
+  const origin = window.location.origin;
+  return new URL(url, origin).origin === new URL(API_CONFIG.BASE_URL || origin, origin).origin;
+};
+
+// Keep archive paths portable across file systems
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').slice(0, 120) || 'document.pdf';
+
+export class DataExportService {
+  /**
+   * Build the export archive. An original file the server no longer has is
+   * left out (and listed in the manifest); any other failure aborts the export.
+   */
+  static async exportAccountData(options: DataExportOptions = {}): Promise<DataExportResult> {
+    const { onProgress, ...requestOptions } = options;
+    const entries: ZipEntry[] = [];
+    const exportedAt = new Date();
+
+    onProgress?.('profile');
+    const [user, settings] = await Promise.all([
+      AuthService.getProfile(requestOptions),
+      getUserSettings(requestOptions),
+    ]);
+    entries.push(
+      { path: 'profile.json', data: json({ ...user, linked_accounts: AuthService.getLinkedOAuthProviders(user) }) },
+      { path: 'settings.json', data: json(settings) }
+    );
+
+    onProgress?.('documents');
+    const documents = await collectPages<Document>((page) => DocumentService.getDocuments(page, PAGE_SIZE, requestOptions));
+    entries.push({ path: 'documents/documents.json', data: json(documents) });
+
+    onProgress?.('files');
+    const missingFiles: string[] = [];
+    for (const document of documents) {
+      const file = await this.downloadFile(document, requestOptions);
+      if (file) {
+        entries.push({ path: `documents/files/${document.id}-${safeFileName(document.original_filename)}`, data: file });
+      } else {
+        missingFiles.push(document.original_filename);
+      }
+    }
+
+    onProgress?.('chats');
+    const sessions = await collectPages<ChatSession>((page) => ChatService.getChatSessions(page, PAGE_SIZE, requestOptions));
+    for (const session of sessions) {
+      const messages = await collectPages<Message>((page) => ChatService.getChatMessages(session.id, page, PAGE_SIZE, requestOptions));
+      entries.push({ path: `chats/${session.id}.json`, data: json({ ...session, messages }) });
+    }
+
+    onProgress?.('queries');
+    const queries: QueryHistory[] = [];
+    for (const document of documents) {
+      queries.push(...await collectPages<QueryHistory>((page) => RAGService.getQueryHistory(document.id, page, PAGE_SIZE, requestOptions)));
+    }
+    entries.push({ path: 'queries.json', data: json(queries) });
+
+    onProgress?.('archive');
+    entries.unshift({
+      path: 'manifest.json',
+      data: json({
+        exported_at: exportedAt.toISOString(),
+        user_id: user.id,
+        email: user.email,
+        counts: {
+          documents: documents.length,
+          chat_sessions: sessions.length,
+          queries: queries.length,
+        },
+        missing_files: missingFiles,
+      }),
+    });
+
+    return {
+      archive: createZip(entries.map((entry) => ({ ...entry, modifiedAt: exportedAt }))),
+      filename: `chatpdf-export-${exportedAt.toISOString().slice(0, 10)}.zip`,
+      missingFiles,
+    };
+  }
+
+  // Original upload, or null if it no longer exists (no URL, or the server says it's gone)
+  private static async downloadFile(document: Document, options: RequestOptions): Promise<Uint8Array | null> {
+    if (!document.file_url) return null;
+    const file = isApiUrl(document.file_url)
+      ? await this.downloadFromApi(document.file_url, options)
+      : await this.downloadFromStorage(document.file_url, options.signal);
+
+    if (!file) {
+      console.warn(`⚠️ ${document.original_filename} is gone from storage, leaving it out of the export`);
+      return null;
+    }
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  private static async downloadFromApi(url: string, options: RequestOptions): Promise<Blob | null> {
+    try {
+      return await apiClient.download(url, options);
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
+  }
+
+  // Plain request without the token or cookies, so hosts answering CORS with `*` work too
+  private static async downloadFromStorage(url: string, signal?: AbortSignal): Promise<Blob | null> {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal, credentials: 'omit' });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new NetworkError();
+    }
+
+    if (MISSING_FILE_STATUSES.includes(response.status)) return null;
+    if (!response.ok) {
+      throw createApiError(response.status, await response.json().catch(() => ({})), response.headers);
+    }
+    return response.blob();
+  }
+}
+
+export default DataExportService;
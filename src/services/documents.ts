@@ -4,7 +4,9 @@
  * Handles document upload, management, and processing operations.
  */
 
-import { apiClient, API_CONFIG, ApiException } from './api';
+import { apiClient, API_CONFIG, ApiException, RequestOptions } from './api';
+import { ErrorUtils } from './utils';
+import { s } from './schema';
 
 // Utility: resolve relative URLs against the configured API base
 const resolveFileUrl = (url?: string | null): string | undefined => {
@@ -12,8 +14,8 @@ const resolveFileUrl = (url?: string | null): string | undefined => {
     return undefined;
   }
 
-  // Treat already-absolute URLs as-is
-  if (/^https?:\/\//i.test(url)) {
+  // Treat already-absolute URLs (including local blob/data URLs) as-is
+  if (/^(https?:\/\/|blob:|data:)/i.test(url)) {
     return url;
   }
 
@@ -22,6 +24,15 @@ const resolveFileUrl = (url?: string | null): string | undefined => {
   return `${base}${path}`;
 };
 
+// Give background cache revalidations the same post-processing as the direct result
+const mapUpdate = <T, R>(options: RequestOptions<R>, map: (data: T) => R): ((data: T) => void) | undefined => {
+  const { onUpdate } = options;
+  return onUpdate && ((data) => onUpdate(map(data)));
+};
+
+// List and detail responses share this prefix, so one call drops both from the query cache
+const invalidateDocuments = () => apiClient.invalidate(API_CONFIG.ENDPOINTS.DOCUMENTS.LIST);
+
 // Type definitions matching backend models
 export interface Document {
   id: string;
@@ -31,7 +42,7 @@ export interface Document {
   file_size: number;
   file_size_formatted?: string;  // Backend provides formatted size
   pages: number;  // Changed from 'page_count' to match backend
-  processing_status: 'pending' | 'processing' | 'completed' | 'failed' | 'error';
+  processing_status: 'pending' | 'queued' | 'processing' | 'completed' | 'failed' | 'error';
   processing_error?: string;
   processed_at?: string;
   is_processed: boolean;
@@ -43,6 +54,17 @@ export interface Document {
   updated_at: string;
 }
 
+export interface ProcessingStatus {
+  processing_status: 'pending' | 'queued' | 'processing' | 'completed' | 'failed';
+  progress_current: number;
+  progress_total: number;
+  progress_percentage: number;
+  progress_stage: string;
+  chunk_count: number;
+  can_be_queried: boolean;
+  processing_error?: string;
+}
+
 export interface DocumentUpload {
   file: File;
   name?: string;  // Changed from 'title' to match backend
@@ -66,44 +88,103 @@ export interface DocumentChunk {
   created_at: string;
 }
 
+// Runtime schemas for the responses above (see ./schema)
+export const DocumentSchema = s.object<Document>({
+  id: s.string(),
+  name: s.string('Untitled document'),
+  original_filename: s.string(),
+  file_url: s.optional(s.string()),
+  file_size: s.number(),
+  file_size_formatted: s.optional(s.string()),
+  pages: s.number(),
+  processing_status: s.oneOf(['pending', 'queued', 'processing', 'completed', 'failed', 'error'], 'pending'),
+  processing_error: s.optional(s.string()),
+  processed_at: s.optional(s.string()),
+  is_processed: s.boolean(),
+  can_be_queried: s.boolean(),
+  vector_store_id: s.optional(s.string()),
+  chunk_count: s.number(),
+  upload_date: s.string(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+export const DocumentListResponseSchema = s.paginated(DocumentSchema);
+
+export const ProcessingStatusSchema = s.object<ProcessingStatus>({
+  processing_status: s.oneOf(['pending', 'queued', 'processing', 'completed', 'failed'], 'pending'),
+  progress_current: s.number(),
+  progress_total: s.number(),
+  progress_percentage: s.number(),
+  progress_stage: s.string(),
+  chunk_count: s.number(),
+  can_be_queried: s.boolean(),
+  processing_error: s.optional(s.string()),
+});
+
+export const DocumentChunkSchema = s.object<DocumentChunk>({
+  id: s.string(),
+  content: s.string(),
+  page_number: s.number(),
+  chunk_index: s.number(),
+  word_count: s.number(),
+  char_count: s.number(),
+  metadata: s.dict(),
+  created_at: s.string(),
+});
+
 export class DocumentService {
   /**
    * Get list of user's documents
    */
-  static async getDocuments(page: number = 1, pageSize: number = 20): Promise<DocumentListResponse> {
+  static async getDocuments(
+    page: number = 1,
+    pageSize: number = 20,
+    options: RequestOptions = {}
+  ): Promise<DocumentListResponse> {
     const params = new URLSearchParams({
       page: page.toString(),
       page_size: pageSize.toString(),
     });
 
-    const response = await apiClient.get<DocumentListResponse>(
-      `${API_CONFIG.ENDPOINTS.DOCUMENTS.LIST}?${params}`
-    );
-
-    return {
+    const withFileUrls = (response: DocumentListResponse): DocumentListResponse => ({
       ...response,
       results: response.results.map((doc) => ({
         ...doc,
         file_url: resolveFileUrl(doc.file_url),
       })),
-    };
+    });
+
+    const response = await apiClient.get(
+      `${API_CONFIG.ENDPOINTS.DOCUMENTS.LIST}?${params}`,
+      { ...options, schema: DocumentListResponseSchema, onUpdate: mapUpdate(options, withFileUrls) }
+    );
+
+    return withFileUrls(response);
   }
 
   /**
    * Get document by ID
    */
-  static async getDocument(id: string): Promise<Document> {
-    const doc = await apiClient.get<Document>(API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(id));
-    return {
+  static async getDocument(id: string, options: RequestOptions = {}): Promise<Document> {
+    const withFileUrl = (doc: Document): Document => ({
       ...doc,
       file_url: resolveFileUrl(doc.file_url),
-    };
+    });
+
+    const doc = await apiClient.get(API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(id), {
+      ...options,
+      schema: DocumentSchema,
+      onUpdate: mapUpdate(options, withFileUrl),
+    });
+    return withFileUrl(doc);
   }
 
   /**
-   * Upload new document
+   * Upload new document. Pass `onUploadProgress` to follow the transfer and
+   * `signal` to cancel it (the promise then rejects with an abort error).
    */
-  static async uploadDocument(data: DocumentUpload): Promise<Document> {
+  static async uploadDocument(data: DocumentUpload, options: RequestOptions = {}): Promise<Document> {
     try {
       const formData = new FormData();
       formData.append('file', data.file);
@@ -112,17 +193,19 @@ export class DocumentService {
         formData.append('name', data.name);
       }
 
-      const response = await apiClient.upload<Document>(
+      const response = await apiClient.upload(
         API_CONFIG.ENDPOINTS.DOCUMENTS.UPLOAD,
-        formData
+        formData,
+        { ...options, schema: DocumentSchema }
       );
+      invalidateDocuments();
 
       return {
         ...response,
         file_url: resolveFileUrl(response.file_url),
       };
     } catch (error) {
-      if (error instanceof ApiException) {
+      if (error instanceof ApiException || ErrorUtils.isAbortError(error)) {
         throw error;
       }
       throw new ApiException('Failed to upload document. Please try again.');
@@ -132,26 +215,35 @@ export class DocumentService {
   /**
    * Delete document
    */
-  static async deleteDocument(id: string): Promise<void> {
-    return apiClient.delete(API_CONFIG.ENDPOINTS.DOCUMENTS.DELETE(id));
+  static async deleteDocument(id: string, options: RequestOptions = {}): Promise<void> {
+    try {
+      await apiClient.delete(API_CONFIG.ENDPOINTS.DOCUMENTS.DELETE(id), options);
+    } finally {
+      // Also after a 404: the document is gone either way
+      invalidateDocuments();
+    }
   }
 
   /**
    * Get document chunks for debugging/inspection
    */
-  static async getDocumentChunks(documentId: string): Promise<DocumentChunk[]> {
-    return apiClient.get<DocumentChunk[]>(
-      `${API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(documentId)}/chunks/`
+  static async getDocumentChunks(documentId: string, options: RequestOptions = {}): Promise<DocumentChunk[]> {
+    return apiClient.get(
+      `${API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(documentId)}/chunks/`,
+      { ...options, schema: s.array(DocumentChunkSchema) }
     );
   }
 
   /**
    * Reprocess document (trigger re-chunking and embedding)
    */
-  static async reprocessDocument(id: string): Promise<Document> {
-    const doc = await apiClient.post<Document>(
-      `${API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(id)}/reprocess/`
+  static async reprocessDocument(id: string, options: RequestOptions = {}): Promise<Document> {
+    const doc = await apiClient.post(
+      `${API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(id)}/reprocess/`,
+      undefined,
+      { ...options, schema: DocumentSchema }
     );
+    invalidateDocuments();
 
     return {
       ...doc,
@@ -162,9 +254,10 @@ export class DocumentService {
   /**
    * Check if document processing is complete
    */
-  static async checkProcessingStatus(id: string): Promise<Document> {
-    const doc = await apiClient.get<Document>(
-      `${API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(id)}/status/`
+  static async checkProcessingStatus(id: string, options: RequestOptions = {}): Promise<Document> {
+    const doc = await apiClient.get(
+      `${API_CONFIG.ENDPOINTS.DOCUMENTS.DETAIL(id)}/status/`,
+      { ...options, schema: DocumentSchema }
     );
 
     return {
@@ -173,6 +266,22 @@ export class DocumentService {
     };
   }
 
+  /**
+   * Get live processing progress (stage and chunk counts) for a document
+   */
+  static async getProcessingStatus(id: string, options: RequestOptions = {}): Promise<ProcessingStatus> {
+    const status = await apiClient.get(API_CONFIG.ENDPOINTS.DOCUMENTS.PROCESSING_STATUS(id), {
+      ...options,
+      schema: ProcessingStatusSchema,
+    });
+
+    // Cached list/detail entries still say "processing" once it has finished
+    if (status.processing_status === 'completed' || status.processing_status === 'failed') {
+      invalidateDocuments();
+    }
+    return status;
+  }
+
   /**
    * Get document download URL
    */
@@ -244,6 +353,8 @@ export class DocumentService {
     switch (status) {
       case 'pending':
         return 'Pending';
+      case 'queued':
+        return 'Queued';
       case 'processing':
         return 'Processing...';
       case 'completed':
@@ -0,0 +1,218 @@
+/**
+ * API Error Types
+ *
+ * Typed error taxonomy thrown by ApiClient. Callers branch with `instanceof`
+ * instead of inspecting messages; `retryable` drives retry decisions.
+ */
+
+export interface ApiError {
+  message: string;
+  status?: number;
+  errors?: Record<string, string[]>;
+}
+
+export class ApiException extends Error {
+  status?: number;
+  errors?: Record<string, string[]>;
+  // Machine-readable reason from the response body (e.g. "token_expired"), if any
+  code?: string;
+
+  constructor(message: string, status?: number, errors?: Record<string, string[]>) {
+    super(message);
+    this.name = 'ApiException';
+    this.status = status;
+    this.errors = errors;
+  }
+
+  /**
+   * Whether repeating the same request may succeed
+   */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+// No response received (offline, DNS, CORS, connection reset)
+export class NetworkError extends ApiException {
+  constructor(message: string = 'Unable to reach the server. Check your connection and try again.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+// 401 that could not be fixed by refreshing the access token
+export class AuthExpiredError extends ApiException {
+  constructor(message: string = 'Your session has expired. Please log in again.', errors?: Record<string, string[]>) {
+    super(message, 401, errors);
+    this.name = 'AuthExpiredError';
+  }
+}
+
+// 403
+export class PermissionDeniedError extends ApiException {
+  constructor(message: string = 'You do not have permission to perform this action.', errors?: Record<string, string[]>) {
+    super(message, 403, errors);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+// 400/422 with Django REST Framework field errors
+export class ValidationError extends ApiException {
+  fieldErrors: Record<string, string[]>;
+  nonFieldErrors: string[];
+
+  constructor(message: string, status: number = 400, errors: Record<string, string[]> = {}) {
+    super(message, status, errors);
+    this.name = 'ValidationError';
+    const { non_field_errors = [], ...fieldErrors } = errors;
+    this.nonFieldErrors = non_field_errors;
+    this.fieldErrors = fieldErrors;
+  }
+
+  /**
+   * First error message for a field, for inline form display
+   */
+  getFieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+}
+
+// 404
+export class NotFoundError extends ApiException {
+  constructor(message: string = 'The requested resource was not found.', errors?: Record<string, string[]>) {
+    super(message, 404, errors);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 429
+export class RateLimitedError extends ApiException {
+  // Parsed Retry-After header, if the server sent one
+  retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null = null, errors?: Record<string, string[]>) {
+    super(message, 429, errors);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+// Plan or storage limits (402/413, or any response with code "quota_exceeded")
+export class QuotaExceededError extends ApiException {
+  constructor(message: string, status?: number, errors?: Record<string, string[]>) {
+    super(message, status, errors);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// 5xx
+export class ServerError extends ApiException {
+  constructor(message: string, status: number = 500, errors?: Record<string, string[]>) {
+    super(message, status, errors);
+    this.name = 'ServerError';
+  }
+
+  // Gateway errors are usually transient; a 500 from the app usually isn't
+  get retryable(): boolean {
+    return this.status === 502 || this.status === 503 || this.status === 504;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0);
+  }
+
+  return null;
+}
+
+// Normalise DRF error bodies ({ field: ["msg"] } or { errors: {...} }) into string arrays
+const normalizeErrors = (data: any): Record<string, string[]> => {
+  const source = data?.errors ?? data;
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    return {};
+  }
+
+  return Object.entries(source).reduce((acc, [field, value]) => {
+    if (field === 'detail' || field === 'message') return acc;
+    // A string `code` is the machine-readable reason; a list is errors for a field named "code"
+    if (field === 'code' && !Array.isArray(value)) return acc;
+    acc[field] = Array.isArray(value) ? value.map(String) : [String(value)];
+    return acc;
+  }, {} as Record<string, string[]>);
+};
+
+/**
+ * Build the typed error for an HTTP error response
+ */
+export function createApiError(
+  status: number,
+  data: any,
+  headers: { get?: (name: string) => any } & Record<string, any> = {}
+): ApiException {
+  const error = errorForStatus(status, data, headers);
+  const code = data?.code || data?.error_code;
+  if (typeof code === 'string') {
+    error.code = code;
+  }
+  return error;
+}
+
+function errorForStatus(
+  status: number,
+  data: any,
+  headers: { get?: (name: string) => any } & Record<string, any>
+): ApiException {
+  const errors = normalizeErrors(data);
+  const message =
+    data?.message ||
+    data?.detail ||
+    errors.non_field_errors?.[0] ||
+    `HTTP ${status}`;
+  const code = data?.code || data?.error_code;
+
+  if (code === 'quota_exceeded' || status === 402 || status === 413) {
+    return new QuotaExceededError(message, status, errors);
+  }
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status, errors);
+    case 401:
+      return new AuthExpiredError(message, errors);
+    case 403:
+      return new PermissionDeniedError(message, errors);
+    case 404:
+      return new NotFoundError(message, errors);
+    case 429: {
+      const retryAfter = headers.get?.('retry-after') ?? headers['retry-after'];
+      return new RateLimitedError(message, parseRetryAfter(retryAfter), errors);
+    }
+  }
+
+  if (status >= 500) {
+    return new ServerError(message, status, errors);
+  }
+
+  return new ApiException(message, status, errors);
+}
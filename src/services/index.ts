@@ -5,11 +5,51 @@
  */
 
 // Core API client
-export { apiClient, TokenManager, ApiException, API_CONFIG, API_BASE_URL } from './api';
+export { apiClient, TokenManager, ApiException, API_CONFIG } from './api';
+export type { RequestOptions } from './api';
+
+// Deployment configuration
+export { loadRuntimeConfig, getRuntimeConfig, isFeatureEnabled, RUNTIME_CONFIG_URL, OAUTH_PROVIDER_NAMES } from './runtimeConfig';
+export type { RuntimeConfig, FeatureToggles, OAuthProvider } from './runtimeConfig';
+
+// Typed API errors
+export {
+  NetworkError,
+  AuthExpiredError,
+  PermissionDeniedError,
+  ValidationError,
+  NotFoundError,
+  RateLimitedError,
+  QuotaExceededError,
+  ServerError,
+  parseRetryAfter,
+} from './errors';
+export type { ApiError } from './errors';
 
 // Authentication service
-export { AuthService } from './auth';
-export type { User, AuthTokens, LoginCredentials, RegisterData, PasswordResetRequest, PasswordResetConfirm } from './auth';
+export { AuthService, OAUTH_CALLBACK_PATH, ACCOUNT_DELETION_CONFIRMATION, isTwoFactorChallenge } from './auth';
+export type {
+  User,
+  AuthTokens,
+  LoginCredentials,
+  RegisterData,
+  PasswordResetRequest,
+  PasswordResetConfirm,
+  PasswordResetResult,
+  PasswordChangeData,
+  PasswordChangeResult,
+  OAuthFlowMode,
+  OAuthStartOptions,
+  OAuthCallbackResult,
+  TwoFactorChallenge,
+  TwoFactorVerifyData,
+  TwoFactorSetup,
+  TwoFactorRecoveryCodes,
+  TwoFactorDisableData,
+  AuthSession,
+  RevokeSessionsResult,
+  AccountDeletionData
+} from './auth';
 
 // Document service
 export { DocumentService } from './documents';
@@ -17,11 +57,12 @@ export type {
   Document, 
   DocumentUpload, 
   DocumentListResponse, 
-  DocumentChunk as DocumentChunkModel 
+  DocumentChunk as DocumentChunkModel,
+  ProcessingStatus
 } from './documents';
 
 // Chat service
-export { ChatService, WebSocketChatClient } from './chat';
+export { ChatService, WebSocketChatClient, chatDraftKey } from './chat';
 export type { 
   ChatSession, 
   Message, 
@@ -34,9 +75,47 @@ export type {
   WSTokenMessage,
   WSResponseCompleteMessage,
   WSErrorMessage,
-  WebSocketInfo
+  WebSocketInfo,
+  ChatShare,
+  SharedChat
 } from './chat';
 
+// URL routing
+export {
+  Router,
+  parseRoute,
+  buildPath,
+  isProtectedRoute,
+  PASSWORD_RESET_PATH,
+  EMAIL_VERIFICATION_PATH
+} from './router';
+export type { AppRoute, NavigateOptions } from './router';
+
+// Retry policy
+export { DEFAULT_RETRY_POLICY } from './retryPolicy';
+export type { RetryPolicy } from './retryPolicy';
+export type { UploadProgress } from './uploadProgress';
+
+// GET query cache
+export type { CachePolicy } from './queryCache';
+
+// Token storage backends
+export { TOKEN_STORAGE_BACKENDS, EPHEMERAL_TOKEN_STORAGE_MODE } from './tokenStorage';
+export type { TokenStorage, TokenStorageMode } from './tokenStorage';
+
+// Cross-tab session sync
+export { SessionSync } from './sessionSync';
+export type { SessionSyncEvent, SessionEndReason } from './sessionSync';
+
+// GDPR data export
+export { DataExportService } from './dataExport';
+export type { DataExportStage, DataExportOptions, DataExportResult } from './dataExport';
+export { createZip } from './zip';
+export type { ZipEntry } from './zip';
+
+// User activity for the idle timeout
+export { ActivityTracker } from './activity';
+
 // Settings service
 export * from './settings';
 
@@ -52,9 +131,29 @@ export type {
   QueryHistoryListResponse,
   DocumentStats as RAGDocumentStats,
   AIModel,
-  SearchFilters
+  AIModelsResponse,
+  DocumentValidation,
+  ReprocessResult,
+  SearchFilters,
+  VectorCacheEntry,
+  VectorCacheStats,
+  VectorCachePurgeResult
 } from './rag';
 
+// Staff-only admin console
+export { AdminService } from './admin';
+export type {
+  AdminDocument,
+  AdminDocumentFilters,
+  DocumentOwner,
+  BulkReprocessOptions,
+  BulkReprocessOutcome
+} from './admin';
+
+// Response schemas
+export { s, decodeResponse } from './schema';
+export type { Schema, SchemaIssue, Paginated } from './schema';
+
 // Utilities
 export {
   FileValidator,
@@ -62,11 +161,15 @@ export {
   TextUtils,
   StorageUtils,
   ErrorUtils,
+  UrlUtils,
   RetryUtils,
+  AbortScope,
   DebounceUtils,
   WebSocketManager,
   PerformanceUtils,
   APP_CONSTANTS,
   SUPPORTED_FILE_TYPES,
-  MAX_FILE_SIZE
-} from './utils';
\ No newline at end of file
+  MAX_FILE_SIZE,
+  UNVERIFIED_MAX_FILE_SIZE
+} from './utils';
+export type { ErrorType } from './utils';
\ No newline at end of file
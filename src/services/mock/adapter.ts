@@ -0,0 +1,160 @@
+/**
+ * Mock Axios Adapter
+ *
+ * Answers ApiClient requests from the mock routes instead of the network,
+ * producing the same AxiosError shapes (HTTP errors, network errors,
+ * cancellations) the real transports do.
+ */
+
+import { AxiosError, AxiosHeaders, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { matchRoute, MockResponse } from './routes';
+import { accessTokenSession, mockConfig, mockDelay, nextLatency, shouldFailRandomly, takeFailure, verifyAccessToken } from './config';
+import { formDataSize } from '../uploadProgress';
+import { db } from './db';
+
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+// Path relative to the API base, e.g. "/api/documents/"
+const requestPath = (config: InternalAxiosRequestConfig): URL => {
+  const url = config.url || '';
+  const absolute = /^https?:\/\//i.test(url) ? url : `${config.baseURL || ''}${url}`;
+  return new URL(absolute, window.location.origin);
+};
+
+function toAxiosResponse(config: InternalAxiosRequestConfig, result: MockResponse): AxiosResponse {
+  const isStream = config.responseType === 'stream';
+  let data: unknown = result.stream ?? result.data;
+  // Streaming callers read the body themselves, so errors arrive as an unread stream too
+  if (isStream && !result.stream) {
+    data = new Response(JSON.stringify(result.data ?? {})).body;
+  }
+
+  return {
+    data: data ?? '',
+    status: result.status,
+    statusText: String(result.status),
+    headers: new AxiosHeaders({ 'content-type': 'application/json', ...result.headers }),
+    config,
+    request: {},
+  };
+}
+
+// Document files only exist in this tab, as object URLs (a revoked one is gone, like a deleted file)
+async function readObjectUrl(url: string): Promise<MockResponse> {
+  try {
+    const file = await (await fetch(url)).blob();
+    return { status: 200, data: file, headers: { 'content-type': file.type || 'application/octet-stream' } };
+  } catch {
+    return { status: 404, data: { detail: 'File not found' } };
+  }
+}
+
+async function handle(config: InternalAxiosRequestConfig): Promise<MockResponse> {
+  if (config.url?.startsWith('blob:')) {
+    return readObjectUrl(config.url);
+  }
+
+  const method = (config.method || 'get').toUpperCase();
+  const url = requestPath(config);
+
+  const scripted = takeFailure(method, url.pathname);
+  if (scripted) {
+    if (scripted.network) {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+    }
+    return { status: scripted.status, data: scripted.body ?? { detail: `Mock failure (${scripted.status})` }, headers: scripted.headers };
+  }
+  if (shouldFailRandomly()) {
+    return { status: 503, data: { detail: 'Mock backend: random failure' } };
+  }
+
+  const matched = matchRoute(method, url.pathname);
+  if (!matched) {
+    return { status: 404, data: { detail: `Mock backend has no handler for ${method} ${url.pathname}` } };
+  }
+
+  const authorization = config.headers?.Authorization as string | undefined;
+  const accessToken = authorization?.replace(/^Bearer\s+/i, '');
+  const userId = verifyAccessToken(accessToken);
+  const sessionId = accessTokenSession(accessToken);
+  if (matched.route.requiresAuth && userId === null) {
+    return {
+      status: 401,
+      data: { detail: 'Given token not valid for any token type', code: 'token_not_valid' },
+    };
+  }
+
+  // Keeps "last seen" in the sessions list current
+  const authSession = sessionId ? db.authSessions.get(sessionId) : undefined;
+  if (authSession) {
+    authSession.lastActive = new Date().toISOString();
+  }
+
+  return matched.route.handler({
+    method,
+    path: url.pathname,
+    query: url.searchParams,
+    body: parseBody(config.data),
+    params: matched.params,
+    userId,
+    sessionId,
+  });
+}
+
+// Interval between simulated upload progress events
+const UPLOAD_TICK_MS = 100;
+
+// Send the request body at the configured bandwidth, reporting progress like XHR does
+async function simulateUpload(config: InternalAxiosRequestConfig, signal?: AbortSignal): Promise<void> {
+  const total = formDataSize(config.data);
+  const chunk = Math.max(1, Math.round((mockConfig.uploadBytesPerSecond * UPLOAD_TICK_MS) / 1000));
+
+  for (let loaded = 0; loaded < total;) {
+    await mockDelay(UPLOAD_TICK_MS, signal);
+    const bytes = Math.min(chunk, total - loaded);
+    loaded += bytes;
+    config.onUploadProgress?.({ loaded, total, bytes, progress: loaded / total, lengthComputable: true, upload: true });
+  }
+}
+
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  const signal = config.signal as AbortSignal | undefined;
+
+  try {
+    if (config.onUploadProgress && config.data instanceof FormData) {
+      await simulateUpload(config, signal);
+    }
+    await mockDelay(nextLatency(), signal);
+  } catch {
+    throw new CanceledError(undefined, undefined, config);
+  }
+
+  let result: MockResponse;
+  try {
+    result = await handle(config);
+  } catch (error) {
+    if (error instanceof AxiosError) throw error;
+    console.error('🧪 Mock backend handler crashed:', error);
+    result = { status: 500, data: { detail: 'Mock backend handler error' } };
+  }
+
+  const response = toAxiosResponse(config, result);
+  if (result.status < 400) {
+    return response;
+  }
+
+  throw new AxiosError(
+    `Request failed with status code ${result.status}`,
+    result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    {},
+    response
+  );
+}
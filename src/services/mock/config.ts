@@ -0,0 +1,181 @@
+/**
+ * Mock Backend Configuration
+ *
+ * Latency, random failures and one-off scripted failures shared by the
+ * mock REST adapter and the mock WebSocket. Defaults come from env vars and
+ * can be changed at runtime through MockBackend.configure / failNext.
+ */
+
+import { db } from './db';
+
+export interface MockBackendOptions {
+  // Fixed delay, or a [min, max] range, applied to every request and socket event
+  latencyMs: number | [number, number];
+  // Probability (0..1) that any request fails with a 503
+  failureRate: number;
+  // Lifetime of issued access tokens
+  accessTokenTtlMs: number;
+  // Delay between streamed tokens
+  tokenIntervalMs: number;
+  // Simulated upload bandwidth, so file uploads report progress over time
+  uploadBytesPerSecond: number;
+  // Source of randomness; swap for a seeded generator to make runs deterministic
+  random: () => number;
+}
+
+export interface MockFailureRule {
+  // 'WS' targets the chat socket; omit to match any method
+  method?: string;
+  path: string | RegExp;
+  // HTTP status to answer with (ignored when `network` is set)
+  status: number;
+  // Drop the request as if the server were unreachable
+  network?: boolean;
+  body?: any;
+  headers?: Record<string, string>;
+  // How many matching requests fail before the rule expires
+  times: number;
+}
+
+const envNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && !Number.isNaN(parsed) ? parsed : fallback;
+};
+
+export const mockConfig: MockBackendOptions = {
+  latencyMs: envNumber(import.meta.env.VITE_MOCK_LATENCY_MS, 250),
+  failureRate: envNumber(import.meta.env.VITE_MOCK_FAILURE_RATE, 0),
+  accessTokenTtlMs: 15 * 60 * 1000,
+  tokenIntervalMs: 30,
+  uploadBytesPerSecond: envNumber(import.meta.env.VITE_MOCK_UPLOAD_BYTES_PER_SECOND, 2 * 1024 * 1024),
+  random: Math.random,
+};
+
+export const failureRules: MockFailureRule[] = [];
+
+/**
+ * Consume the first scripted failure matching this request, if any
+ */
+export function takeFailure(method: string, path: string): MockFailureRule | null {
+  const index = failureRules.findIndex((rule) => {
+    if (rule.method && rule.method.toUpperCase() !== method.toUpperCase()) return false;
+    return typeof rule.path === 'string' ? path.startsWith(rule.path) : rule.path.test(path);
+  });
+  if (index === -1) return null;
+
+  const rule = failureRules[index];
+  rule.times -= 1;
+  if (rule.times <= 0) {
+    failureRules.splice(index, 1);
+  }
+  return rule;
+}
+
+export function shouldFailRandomly(): boolean {
+  return mockConfig.failureRate > 0 && mockConfig.random() < mockConfig.failureRate;
+}
+
+export function nextLatency(): number {
+  const { latencyMs, random } = mockConfig;
+  if (Array.isArray(latencyMs)) {
+    const [min, max] = latencyMs;
+    return Math.round(min + random() * (max - min));
+  }
+  return latencyMs;
+}
+
+export function mockDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Tokens: unsigned JWT-shaped strings so TokenManager can read the `exp` claim
+
+const base64Url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Rough device and browser names for the sessions list, from this browser's user agent
+function describeUserAgent(userAgent: string): { device: string; browser: string } {
+  const device =
+    /iPhone/.test(userAgent) ? 'iPhone'
+    : /iPad/.test(userAgent) ? 'iPad'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'Mac'
+    : /Windows/.test(userAgent) ? 'Windows PC'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+  return { device, browser };
+}
+
+// A new sign-in starts a session, which the refresh tokens issued for it stay tied to
+function startAuthSession(userId: number): string {
+  const id = `auth-session-${Math.random().toString(36).slice(2)}`;
+  const now = new Date().toISOString();
+  db.authSessions.set(id, {
+    id,
+    userId,
+    ...describeUserAgent(typeof navigator !== 'undefined' ? navigator.userAgent : ''),
+    ipAddress: '127.0.0.1',
+    location: 'Local network',
+    createdAt: now,
+    lastActive: now,
+  });
+  return id;
+}
+
+export function issueTokens(userId: number, sessionId: string = startAuthSession(userId)): { access: string; refresh: string } {
+  const exp = Math.floor((Date.now() + mockConfig.accessTokenTtlMs) / 1000);
+  const access = [
+    base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' })),
+    base64Url(JSON.stringify({ user_id: userId, sid: sessionId, exp, jti: Math.random().toString(36).slice(2) })),
+    'mock',
+  ].join('.');
+  const refresh = `mock-refresh-${userId}-${Math.random().toString(36).slice(2)}`;
+  db.refreshTokens.set(refresh, { userId, sessionId });
+  return { access, refresh };
+}
+
+// Claims of a live access token: unexpired, for an existing user, from a session that hasn't been revoked
+function readAccessToken(token: string | null | undefined): { userId: number; sessionId: string } | null {
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+    if (!db.users.has(payload.user_id) || !db.authSessions.has(payload.sid)) return null;
+    return { userId: payload.user_id, sessionId: payload.sid };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * User id for a valid, unexpired access token; null otherwise
+ */
+export function verifyAccessToken(token: string | null | undefined): number | null {
+  return readAccessToken(token)?.userId ?? null;
+}
+
+/**
+ * Session id for a valid, unexpired access token; null otherwise
+ */
+export function accessTokenSession(token: string | null | undefined): string | null {
+  return readAccessToken(token)?.sessionId ?? null;
+}
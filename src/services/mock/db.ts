@@ -0,0 +1,321 @@
+/**
+ * Mock Backend Data
+ *
+ * In-memory records behind the mock backend, seeded with a demo account, a
+ * staff account, a few documents and canned answers. `resetMockDb()` restores the seed so
+ * every run (or test) starts from the same state.
+ */
+
+import type { User } from '../auth';
+import type { Document } from '../documents';
+import type { ChatSession, Message } from '../chat';
+import type { AIModel, QueryHistory } from '../rag';
+import type { UserSettings } from '../settings';
+
+export interface MockUserRecord {
+  user: User;
+  password: string;
+  settings: UserSettings;
+  // TOTP secret; `confirmed` once enrollment finished (user.two_factor_enabled mirrors it)
+  twoFactor?: { secret: string; confirmed: boolean; recoveryCodes: string[] };
+}
+
+export interface MockDocumentRecord {
+  document: Document;
+  ownerId: number;
+  chunks: Array<{ text: string; page_number: number }>;
+  // Epoch ms when (re)processing started; progress is derived from elapsed time
+  processingStartedAt: number | null;
+}
+
+export interface MockSessionRecord {
+  session: ChatSession;
+  ownerId: number;
+  messages: Message[];
+}
+
+// A signed-in device; every refresh token belongs to one
+export interface MockAuthSessionRecord {
+  id: string;
+  userId: number;
+  device: string;
+  browser: string;
+  ipAddress: string;
+  location: string;
+  createdAt: string;
+  lastActive: string;
+}
+
+// A document's vectors loaded into the RAG vector cache
+export interface MockVectorCacheRecord {
+  cachedAt: string;
+  lastAccessed: string;
+  hits: number;
+}
+
+export interface MockDb {
+  users: Map<number, MockUserRecord>;
+  documents: Map<string, MockDocumentRecord>;
+  sessions: Map<string, MockSessionRecord>;
+  queries: Array<QueryHistory & { ownerId: number }>;
+  // Refresh tokens of revoked sessions stay here so the refresh route can say why it refuses them
+  refreshTokens: Map<string, { userId: number; sessionId: string }>;
+  authSessions: Map<string, MockAuthSessionRecord>;
+  resetTokens: Map<string, { userId: number; used: boolean; expiresAt: number }>;
+  verificationTokens: Map<string, { userId: number; used: boolean; expiresAt: number }>;
+  twoFactorChallenges: Map<string, { userId: number; expiresAt: number }>;
+  // Public chat links by share id
+  chatShares: Map<string, { sessionId: string; createdAt: string; expiresAt: number }>;
+  // Keyed by document id; entries of deleted or reprocessing documents are ignored
+  vectorCache: Map<string, MockVectorCacheRecord>;
+  nextId: number;
+}
+
+export const MOCK_DEMO_EMAIL = 'demo@chatpdf.dev';
+export const MOCK_DEMO_PASSWORD = 'password123';
+// Staff account for the admin console; same password as the demo account
+export const MOCK_ADMIN_EMAIL = 'admin@chatpdf.dev';
+
+// How long a freshly uploaded document stays "processing"
+export const MOCK_PROCESSING_MS = 6000;
+
+export const MOCK_MODELS: AIModel[] = [
+  {
+    id: 'standard',
+    model_string: 'mock/standard',
+    name: 'Standard',
+    description: 'Balanced answers for everyday questions',
+    category: 'standard',
+    max_tokens: 4096,
+    recommended_temperature: 0.7,
+    icon: 'Bot',
+    is_default: true,
+    features: ['Fast', 'Page references'],
+  },
+  {
+    id: 'advanced',
+    model_string: 'mock/advanced',
+    name: 'Advanced',
+    description: 'Longer, more detailed reasoning',
+    category: 'advanced',
+    max_tokens: 8192,
+    recommended_temperature: 0.5,
+    icon: 'Brain',
+    is_default: false,
+    features: ['Detailed', 'Long context'],
+  },
+];
+
+// Canned answers, picked by keyword; {title} and {page} are filled in per document
+const CANNED_ANSWERS: Array<{ keywords: string[]; answer: string }> = [
+  {
+    keywords: ['summary', 'summarize', 'overview', 'about'],
+    answer:
+      '**{title}** covers three main ideas:\n\n1. The problem it sets out to solve and why it matters.\n2. The approach taken, with the key trade-offs explained on page {page}.\n3. The results and what they imply for future work.\n\nLet me know if you want any section in more depth.',
+  },
+  {
+    keywords: ['page', 'where', 'find'],
+    answer:
+      'That topic is discussed on **page {page}** of *{title}*. The surrounding section gives the background, and the following page has a worked example.',
+  },
+  {
+    keywords: [],
+    answer:
+      'Based on *{title}*, the short answer is yes — the document addresses this directly on page {page}. It notes a few caveats, mainly around scope and assumptions, which are worth checking before relying on it.',
+  },
+];
+
+export function pickCannedAnswer(question: string, title: string, page: number): string {
+  const lower = question.toLowerCase();
+  const match =
+    CANNED_ANSWERS.find(({ keywords }) => keywords.some((keyword) => lower.includes(keyword))) ??
+    CANNED_ANSWERS[CANNED_ANSWERS.length - 1];
+  return match.answer.replace(/\{title\}/g, title).replace(/\{page\}/g, String(page));
+}
+
+/**
+ * Build a small valid PDF (one line of text per page) so previews render
+ */
+export function createSamplePdfUrl(title: string, pages: number): string | undefined {
+  if (typeof URL === 'undefined' || typeof URL.createObjectURL !== 'function') {
+    return undefined;
+  }
+
+  const escape = (text: string) => text.replace(/[\\()]/g, '\\$&');
+  const objects: string[] = [];
+  const pageIds = Array.from({ length: pages }, (_, index) => 4 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  pageIds.forEach((id, index) => {
+    const text = `BT /F1 18 Tf 72 720 Td (${escape(title)} - page ${index + 1}) Tj ET`;
+    objects[id] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${id + 1} 0 R >>`;
+    objects[id + 1] = `<< /Length ${text.length} >>\nstream\n${text}\nendstream`;
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = body.length;
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = body.length;
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return URL.createObjectURL(new Blob([body], { type: 'application/pdf' }));
+}
+
+export function createChunks(title: string, pages: number): MockDocumentRecord['chunks'] {
+  return Array.from({ length: pages * 2 }, (_, index) => {
+    const page = Math.floor(index / 2) + 1;
+    return {
+      page_number: page,
+      text: `${title}, page ${page}: sample passage ${index + 1} used by the mock backend for search and citations.`,
+    };
+  });
+}
+
+const seedDocument = (id: string, name: string, pages: number, ownerId: number, daysAgo: number): MockDocumentRecord => {
+  const created = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+  const chunks = createChunks(name, pages);
+  return {
+    ownerId,
+    chunks,
+    processingStartedAt: null,
+    document: {
+      id,
+      name,
+      original_filename: `${name.toLowerCase().replace(/\s+/g, '-')}.pdf`,
+      file_url: createSamplePdfUrl(name, pages),
+      file_size: pages * 180 * 1024,
+      file_size_formatted: `${((pages * 180) / 1024).toFixed(1)} MB`,
+      pages,
+      processing_status: 'completed',
+      processed_at: created,
+      is_processed: true,
+      can_be_queried: true,
+      chunk_count: chunks.length,
+      upload_date: created,
+      created_at: created,
+      updated_at: created,
+    },
+  };
+};
+
+const seedAuthSession = (
+  id: string,
+  userId: number,
+  device: string,
+  browser: string,
+  ipAddress: string,
+  location: string,
+  hoursAgo: number
+): MockAuthSessionRecord => {
+  const lastActive = new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
+  return { id, userId, device, browser, ipAddress, location, createdAt: lastActive, lastActive };
+};
+
+const seedSettings = (updatedAt: string): UserSettings => ({
+  ai_model: 'standard',
+  temperature: 0.7,
+  context_length: 4000,
+  auto_save: true,
+  page_references: true,
+  notifications: true,
+  dark_mode: false,
+  updated_at: updatedAt,
+});
+
+function seed(): MockDb {
+  const now = new Date().toISOString();
+  const demoUser: User = {
+    id: 1,
+    email: MOCK_DEMO_EMAIL,
+    first_name: 'Demo',
+    last_name: 'User',
+    full_name: 'Demo User',
+    initials: 'DU',
+    avatar: null,
+    avatar_url: null,
+    join_date: now,
+    is_email_verified: true,
+    oauth_provider: null,
+    two_factor_enabled: false,
+    is_staff: false,
+    created_at: now,
+    updated_at: now,
+  };
+  const adminUser: User = {
+    ...demoUser,
+    id: 2,
+    email: MOCK_ADMIN_EMAIL,
+    first_name: 'Site',
+    last_name: 'Admin',
+    full_name: 'Site Admin',
+    initials: 'SA',
+    is_staff: true,
+  };
+
+  const documents = [
+    seedDocument('doc-1', 'Quarterly Report', 4, demoUser.id, 1),
+    seedDocument('doc-2', 'Research Paper', 6, demoUser.id, 3),
+    seedDocument('doc-3', 'Product Handbook', 3, demoUser.id, 10),
+    seedDocument('doc-4', 'Security Policy', 2, adminUser.id, 20),
+  ];
+  // Most documents start out cached, so the admin console has entries to show and purge
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+  const vectorCache = new Map<string, MockVectorCacheRecord>([
+    ['doc-1', { cachedAt: hoursAgo(20), lastAccessed: hoursAgo(1), hits: 42 }],
+    ['doc-2', { cachedAt: hoursAgo(50), lastAccessed: hoursAgo(30), hits: 7 }],
+    ['doc-4', { cachedAt: hoursAgo(400), lastAccessed: hoursAgo(300), hits: 3 }],
+  ]);
+
+  return {
+    users: new Map([
+      [
+        demoUser.id,
+        { user: demoUser, password: MOCK_DEMO_PASSWORD, settings: seedSettings(now) },
+      ],
+      [
+        adminUser.id,
+        { user: adminUser, password: MOCK_DEMO_PASSWORD, settings: seedSettings(now) },
+      ],
+    ]),
+    documents: new Map(documents.map((record) => [record.document.id, record])),
+    sessions: new Map(),
+    queries: [],
+    refreshTokens: new Map(),
+    // Other devices the demo account is signed in on, so there is something to revoke
+    authSessions: new Map([
+      seedAuthSession('auth-session-phone', demoUser.id, 'iPhone', 'Mobile Safari', '203.0.113.24', 'Lisbon, Portugal', 2),
+      seedAuthSession('auth-session-laptop', demoUser.id, 'Windows PC', 'Firefox', '198.51.100.7', 'Berlin, Germany', 26),
+    ].map((record) => [record.id, record])),
+    resetTokens: new Map(),
+    verificationTokens: new Map(),
+    twoFactorChallenges: new Map(),
+    chatShares: new Map(),
+    vectorCache,
+    nextId: 100,
+  };
+}
+
+export let db: MockDb = seed();
+
+export function resetMockDb(): void {
+  db.documents.forEach(({ document }) => {
+    if (document.file_url?.startsWith('blob:')) {
+      URL.revokeObjectURL(document.file_url);
+    }
+  });
+  db = seed();
+}
+
+export function nextId(prefix: string): string {
+  db.nextId += 1;
+  return `${prefix}-${db.nextId}`;
+}
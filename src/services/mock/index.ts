@@ -0,0 +1,63 @@
+/**
+ * Mock Backend
+ *
+ * In-browser stand-in for the Django API and chat WebSocket, so the frontend
+ * can run without a backend. Enable with VITE_MOCK_API=true; tune with
+ * VITE_MOCK_LATENCY_MS, VITE_MOCK_FAILURE_RATE and
+ * VITE_MOCK_UPLOAD_BYTES_PER_SECOND, or at runtime through
+ * `MockBackend` (also exposed as `window.chatpdfMock` while installed).
+ *
+ * Demo login: demo@chatpdf.dev / password123
+ * Staff login (admin console): admin@chatpdf.dev / password123
+ */
+
+import { apiClient } from '../api';
+import { WebSocketChatClient } from '../chat';
+import { mockAdapter } from './adapter';
+import { MockWebSocket } from './socket';
+import { failureRules, mockConfig, MockBackendOptions, MockFailureRule } from './config';
+import { resetMockDb, MOCK_ADMIN_EMAIL, MOCK_DEMO_EMAIL, MOCK_DEMO_PASSWORD } from './db';
+
+export type { MockBackendOptions, MockFailureRule } from './config';
+
+export class MockBackend {
+  static readonly demoCredentials = { email: MOCK_DEMO_EMAIL, password: MOCK_DEMO_PASSWORD };
+  static readonly adminCredentials = { email: MOCK_ADMIN_EMAIL, password: MOCK_DEMO_PASSWORD };
+
+  /**
+   * Change latency, random failure rate, token speed or the random source
+   */
+  static configure(options: Partial<MockBackendOptions>): void {
+    Object.assign(mockConfig, options);
+  }
+
+  /**
+   * Make the next matching request(s) fail. `path` is a path prefix or regex;
+   * use method 'WS' to fail socket connections or chat replies.
+   */
+  static failNext(rule: Partial<MockFailureRule> & Pick<MockFailureRule, 'path'>): void {
+    failureRules.push({ status: 500, times: 1, ...rule });
+  }
+
+  /**
+   * Restore seeded data and clear scripted failures
+   */
+  static reset(): void {
+    failureRules.length = 0;
+    resetMockDb();
+  }
+}
+
+/**
+ * Route ApiClient and chat sockets to the mock backend
+ */
+export function installMockBackend(): void {
+  apiClient.setAdapter(mockAdapter);
+  WebSocketChatClient.setSocketFactory((url) => new MockWebSocket(url) as unknown as WebSocket);
+  (window as any).chatpdfMock = MockBackend;
+  console.info(
+    `🧪 Mock backend enabled — sign in with ${MOCK_DEMO_EMAIL} / ${MOCK_DEMO_PASSWORD} (staff: ${MOCK_ADMIN_EMAIL})`
+  );
+}
+
+export { mockAdapter, MockWebSocket };
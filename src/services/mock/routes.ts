@@ -0,0 +1,1081 @@
+/**
+ * Mock Backend Routes
+ *
+ * Handlers for every REST route in API_CONFIG.ENDPOINTS, backed by the
+ * in-memory records in ./db. Responses follow the Django REST Framework
+ * conventions the real backend uses (paginated lists, field error bodies).
+ */
+
+import { API_CONFIG } from '../api';
+import { UrlUtils } from '../utils';
+import { getDefaultSettings } from '../settings';
+import type { User } from '../auth';
+import type { Document } from '../documents';
+import type { ChatSession, Message } from '../chat';
+import type { DocumentChunk as RAGDocumentChunk, QueryHistory } from '../rag';
+import {
+  db,
+  nextId,
+  createChunks,
+  pickCannedAnswer,
+  MockDocumentRecord,
+  MockUserRecord,
+  MOCK_MODELS,
+  MOCK_PROCESSING_MS,
+  MOCK_DEMO_EMAIL,
+} from './db';
+import { issueTokens, mockConfig } from './config';
+import { generateRecoveryCodes, generateTotpSecret, verifyTotp } from './totp';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+  // Captured id segments of parameterised endpoints, in order
+  params: string[];
+  userId: number | null;
+  // Sign-in session the access token belongs to
+  sessionId: string | null;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: any;
+  headers?: Record<string, string>;
+  // Set for streaming endpoints; sent as the raw response body
+  stream?: ReadableStream<Uint8Array>;
+}
+
+type Handler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+  requiresAuth: boolean;
+}
+
+const E = API_CONFIG.ENDPOINTS;
+const routes: Route[] = [];
+
+function route(
+  method: string,
+  endpoint: string | ((id: string) => string) | RegExp,
+  handler: Handler,
+  { requiresAuth = true }: { requiresAuth?: boolean } = {}
+): void {
+  const pattern = endpoint instanceof RegExp ? endpoint : UrlUtils.endpointPattern(endpoint);
+  routes.push({ method, pattern, handler, requiresAuth });
+}
+
+const ok = (data?: any, status: number = 200): MockResponse => ({ status, data });
+const fail = (status: number, data: any): MockResponse => ({ status, data });
+const notFound = (what: string = 'Not found.') => fail(404, { detail: what });
+const forbidden = () => fail(403, { detail: 'You do not have permission to perform this action.' });
+
+const isStaff = (userId: number | null) => userId !== null && db.users.get(userId)?.user.is_staff === true;
+
+const paginate = <T>(items: T[], query: URLSearchParams, path: string): MockResponse => {
+  const page = Math.max(parseInt(query.get('page') || '1', 10), 1);
+  const pageSize = Math.max(parseInt(query.get('page_size') || '20', 10), 1);
+  const start = (page - 1) * pageSize;
+  const link = (target: number) => `${API_CONFIG.BASE_URL}${path}?page=${target}&page_size=${pageSize}`;
+  return ok({
+    count: items.length,
+    next: start + pageSize < items.length ? link(page + 1) : null,
+    previous: page > 1 ? link(page - 1) : null,
+    results: items.slice(start, start + pageSize),
+  });
+};
+
+const nowIso = () => new Date().toISOString();
+
+// Advance time-based processing so polling sees progress and then completion
+function syncProcessing(record: MockDocumentRecord): void {
+  if (record.processingStartedAt === null) return;
+
+  const elapsed = Date.now() - record.processingStartedAt;
+  if (elapsed < MOCK_PROCESSING_MS) {
+    record.document.processing_status = 'processing';
+    return;
+  }
+
+  record.processingStartedAt = null;
+  Object.assign(record.document, {
+    processing_status: 'completed',
+    is_processed: true,
+    can_be_queried: true,
+    chunk_count: record.chunks.length,
+    processed_at: nowIso(),
+    updated_at: nowIso(),
+  });
+}
+
+function findDocument(id: string, userId: number | null): MockDocumentRecord | null {
+  const record = db.documents.get(id);
+  if (!record || record.ownerId !== userId) return null;
+  syncProcessing(record);
+  return record;
+}
+
+// Staff may inspect and maintain any user's document
+function findManagedDocument(id: string, userId: number | null): MockDocumentRecord | null {
+  const record = db.documents.get(id);
+  if (!record || (record.ownerId !== userId && !isStaff(userId))) return null;
+  syncProcessing(record);
+  return record;
+}
+
+function userDocuments(userId: number | null): MockDocumentRecord[] {
+  return [...db.documents.values()]
+    .filter((record) => record.ownerId === userId)
+    .map((record) => {
+      syncProcessing(record);
+      return record;
+    })
+    .sort((a, b) => b.document.created_at.localeCompare(a.document.created_at));
+}
+
+function findSession(id: string, userId: number | null) {
+  const record = db.sessions.get(id);
+  return record && record.ownerId === userId ? record : null;
+}
+
+// Rank chunks by how many query words they contain
+export function searchChunks(record: MockDocumentRecord, query: string, limit: number): RAGDocumentChunk[] {
+  // Searching loads the document's vectors into the cache, or counts a hit
+  const cached = db.vectorCache.get(record.document.id);
+  db.vectorCache.set(record.document.id, {
+    cachedAt: cached?.cachedAt ?? nowIso(),
+    lastAccessed: nowIso(),
+    hits: (cached?.hits ?? 0) + 1,
+  });
+
+  const words = query.toLowerCase().split(/\W+/).filter((word) => word.length > 2);
+  return record.chunks
+    .map((chunk, index) => {
+      const text = chunk.text.toLowerCase();
+      const hits = words.filter((word) => text.includes(word)).length;
+      return {
+        text: chunk.text,
+        page_number: chunk.page_number,
+        similarity_score: Math.min(0.95, 0.35 + hits * 0.15 - index * 0.01),
+        metadata: { chunk_index: index },
+      };
+    })
+    .sort((a, b) => b.similarity_score - a.similarity_score)
+    .slice(0, limit);
+}
+
+export function answerFor(record: MockDocumentRecord, question: string) {
+  const chunks = searchChunks(record, question, 3);
+  return {
+    chunks,
+    answer: pickCannedAnswer(question, record.document.name, chunks[0]?.page_number ?? 1),
+  };
+}
+
+const formDataValue = (body: any, key: string): any => (body instanceof FormData ? body.get(key) : body?.[key]);
+
+// Authentication
+
+route('POST', E.AUTH.LOGIN, ({ body }) => {
+  const record = [...db.users.values()].find(({ user }) => user.email === body?.email?.toLowerCase());
+  if (!record || record.password !== body?.password) {
+    return fail(401, { detail: 'No active account found with the given credentials' });
+  }
+  if (record.twoFactor?.confirmed) {
+    const challenge = `mock-2fa-${Math.random().toString(36).slice(2)}`;
+    db.twoFactorChallenges.set(challenge, { userId: record.user.id, expiresAt: Date.now() + 5 * 60 * 1000 });
+    return ok({ two_factor_required: true, challenge_token: challenge });
+  }
+  return ok({ ...issueTokens(record.user.id), user: record.user });
+}, { requiresAuth: false });
+
+// Two-factor authentication
+
+// Authenticator code, or a recovery code (used up on success)
+const checkSecondFactor = async (record: MockUserRecord, code: unknown, recoveryCode: unknown): Promise<boolean> => {
+  if (!record.twoFactor) return false;
+  if (typeof code === 'string' && (await verifyTotp(record.twoFactor.secret, code.trim()))) return true;
+
+  const normalized = typeof recoveryCode === 'string' ? recoveryCode.trim().toLowerCase() : '';
+  const index = record.twoFactor.recoveryCodes.indexOf(normalized);
+  if (index === -1) return false;
+  record.twoFactor.recoveryCodes.splice(index, 1);
+  return true;
+};
+
+route('POST', E.AUTH.TWO_FACTOR_VERIFY, async ({ body }) => {
+  const challenge = db.twoFactorChallenges.get(body?.challenge_token);
+  if (!challenge || challenge.expiresAt < Date.now()) {
+    return fail(400, { detail: 'Your sign-in session expired. Please sign in again.', code: 'challenge_expired' });
+  }
+  const record = db.users.get(challenge.userId)!;
+  if (!(await checkSecondFactor(record, body.code, body.recovery_code))) {
+    return fail(400, body.recovery_code
+      ? { recovery_code: ['This recovery code is invalid or has already been used.'] }
+      : { code: ['Invalid verification code.'] });
+  }
+  db.twoFactorChallenges.delete(body.challenge_token);
+  return ok({ ...issueTokens(record.user.id), user: record.user });
+}, { requiresAuth: false });
+
+route('POST', E.AUTH.TWO_FACTOR_SETUP, ({ userId }) => {
+  const record = db.users.get(userId!)!;
+  if (record.twoFactor?.confirmed) {
+    return fail(400, { detail: 'Two-factor authentication is already enabled.' });
+  }
+  const secret = generateTotpSecret();
+  record.twoFactor = { secret, confirmed: false, recoveryCodes: [] };
+  const label = encodeURIComponent(`ChatPdf:${record.user.email}`);
+  return ok({ secret, otpauth_url: `otpauth://totp/${label}?secret=${secret}&issuer=ChatPdf`, qr_code: null });
+});
+
+route('POST', E.AUTH.TWO_FACTOR_CONFIRM, async ({ userId, body }) => {
+  const record = db.users.get(userId!)!;
+  if (!record.twoFactor || record.twoFactor.confirmed) {
+    return fail(400, { detail: 'Start two-factor setup first.' });
+  }
+  if (!(await verifyTotp(record.twoFactor.secret, String(body?.code || '')))) {
+    return fail(400, { code: ['Invalid verification code.'] });
+  }
+  record.twoFactor = { ...record.twoFactor, confirmed: true, recoveryCodes: generateRecoveryCodes() };
+  record.user = { ...record.user, two_factor_enabled: true, updated_at: nowIso() };
+  return ok({ recovery_codes: [...record.twoFactor.recoveryCodes] });
+});
+
+route('POST', E.AUTH.TWO_FACTOR_DISABLE, async ({ userId, body }) => {
+  const record = db.users.get(userId!)!;
+  if (body?.password !== record.password) {
+    return fail(400, { password: ['Your password is incorrect.'] });
+  }
+  if (!(await checkSecondFactor(record, body.code, body.code))) {
+    return fail(400, { code: ['Invalid verification or recovery code.'] });
+  }
+  record.twoFactor = undefined;
+  record.user = { ...record.user, two_factor_enabled: false, updated_at: nowIso() };
+  return ok({ detail: 'Two-factor authentication disabled.' });
+});
+
+route('POST', E.AUTH.REGISTER, ({ body }) => {
+  const errors: Record<string, string[]> = {};
+  const email = String(body?.email || '').toLowerCase();
+  if (!email) errors.email = ['This field is required.'];
+  if ([...db.users.values()].some(({ user }) => user.email === email)) {
+    errors.email = ['A user with this email already exists.'];
+  }
+  if (!body?.password || body.password.length < 8) {
+    errors.password = ['This password is too short. It must contain at least 8 characters.'];
+  }
+  if (body?.password !== body?.password_confirm) {
+    errors.password_confirm = ["Passwords don't match."];
+  }
+  if (Object.keys(errors).length > 0) {
+    return fail(400, errors);
+  }
+
+  const id = Math.max(...db.users.keys()) + 1;
+  const first = body.first_name || '';
+  const last = body.last_name || '';
+  const user = {
+    id,
+    email,
+    first_name: first,
+    last_name: last,
+    full_name: `${first} ${last}`.trim(),
+    initials: `${first[0] || ''}${last[0] || ''}`.toUpperCase() || email[0].toUpperCase(),
+    avatar: null,
+    avatar_url: null,
+    join_date: nowIso(),
+    is_email_verified: false,
+    oauth_provider: null,
+    two_factor_enabled: false,
+    is_staff: false,
+    created_at: nowIso(),
+    updated_at: nowIso(),
+  };
+  db.users.set(id, { user, password: body.password, settings: getDefaultSettings() });
+  return ok({ ...issueTokens(id), user }, 201);
+}, { requiresAuth: false });
+
+route('POST', E.AUTH.REFRESH, ({ body }) => {
+  const owner = db.refreshTokens.get(body?.refresh);
+  if (!owner) {
+    return fail(401, { detail: 'Token is invalid or expired', code: 'token_not_valid' });
+  }
+  db.refreshTokens.delete(body.refresh);
+  const session = db.authSessions.get(owner.sessionId);
+  if (!session) {
+    return fail(401, { detail: 'This session was signed out from another device.', code: 'session_revoked' });
+  }
+  session.lastActive = nowIso();
+  return ok({ ...issueTokens(owner.userId, session.id), user: db.users.get(owner.userId)!.user });
+}, { requiresAuth: false });
+
+route('POST', E.AUTH.LOGOUT, ({ body }) => {
+  const owner = db.refreshTokens.get(body?.refresh_token);
+  if (owner) {
+    db.refreshTokens.delete(body.refresh_token);
+    revokeAuthSession(owner.sessionId);
+  }
+  return ok({ detail: 'Successfully logged out.' });
+}, { requiresAuth: false });
+
+route('GET', E.AUTH.PROFILE, ({ userId }) => ok(db.users.get(userId!)!.user));
+
+const updateProfile: Handler = ({ userId, body }) => {
+  const record = db.users.get(userId!)!;
+  const first = formDataValue(body, 'first_name') ?? record.user.first_name;
+  const last = formDataValue(body, 'last_name') ?? record.user.last_name;
+  const avatar = formDataValue(body, 'avatar');
+  const avatarUrl = avatar instanceof Blob ? URL.createObjectURL(avatar) : record.user.avatar_url;
+
+  record.user = {
+    ...record.user,
+    first_name: first,
+    last_name: last,
+    full_name: `${first} ${last}`.trim(),
+    initials: `${first[0] || ''}${last[0] || ''}`.toUpperCase(),
+    avatar: avatarUrl,
+    avatar_url: avatarUrl,
+    updated_at: nowIso(),
+  };
+  return ok(record.user);
+};
+
+route('PATCH', E.AUTH.PROFILE, updateProfile);
+
+// Multipart avatar uploads
+route('POST', E.AUTH.PROFILE, updateProfile);
+
+route('POST', E.AUTH.CHANGE_PASSWORD, ({ userId, sessionId, body }) => {
+  const record = db.users.get(userId!)!;
+  if (body?.current_password !== record.password) {
+    return fail(400, { current_password: ['Your current password is incorrect.'] });
+  }
+  if (typeof body.new_password !== 'string' || body.new_password.length < 8) {
+    return fail(400, { new_password: ['This password is too short. It must contain at least 8 characters.'] });
+  }
+  record.password = body.new_password;
+
+  if (!body.sign_out_other_sessions) {
+    return ok({ detail: 'Password updated successfully.' });
+  }
+
+  // End every other session and hand this one a fresh pair
+  revokeOtherAuthSessions(userId!, sessionId);
+  db.refreshTokens.forEach((owner, token) => {
+    if (owner.sessionId === sessionId) db.refreshTokens.delete(token);
+  });
+  return ok({ detail: 'Password updated successfully.', ...issueTokens(userId!, sessionId ?? undefined) });
+});
+
+// Sign-in sessions. Revoking one keeps its refresh tokens around, so the device's next refresh is told why it failed
+
+function revokeAuthSession(sessionId: string): void {
+  db.authSessions.delete(sessionId);
+}
+
+function revokeOtherAuthSessions(userId: number, currentSessionId: string | null): number {
+  let revoked = 0;
+  db.authSessions.forEach((session) => {
+    if (session.userId === userId && session.id !== currentSessionId) {
+      revokeAuthSession(session.id);
+      revoked += 1;
+    }
+  });
+  return revoked;
+}
+
+route('GET', E.AUTH.SESSIONS, ({ userId, sessionId }) => {
+  const sessions = [...db.authSessions.values()]
+    .filter((session) => session.userId === userId)
+    .map((session) => ({
+      id: session.id,
+      device: session.device,
+      browser: session.browser,
+      ip_address: session.ipAddress,
+      location: session.location,
+      created_at: session.createdAt,
+      last_active: session.lastActive,
+      is_current: session.id === sessionId,
+    }))
+    .sort((a, b) => Number(b.is_current) - Number(a.is_current) || b.last_active.localeCompare(a.last_active));
+  return ok(sessions);
+});
+
+route('POST', E.AUTH.SESSIONS_REVOKE_OTHERS, ({ userId, sessionId }) => {
+  const revoked = revokeOtherAuthSessions(userId!, sessionId);
+  return ok({ detail: 'Other sessions signed out.', revoked });
+});
+
+route('DELETE', E.AUTH.SESSION_DETAIL, ({ userId, sessionId, params }) => {
+  const session = db.authSessions.get(params[0]);
+  if (!session || session.userId !== userId) {
+    return notFound('Session not found.');
+  }
+  if (session.id === sessionId) {
+    return fail(400, { detail: 'Log out to end the current session.' });
+  }
+  revokeAuthSession(session.id);
+  return ok(undefined, 204);
+});
+
+route('POST', E.AUTH.DELETE_ACCOUNT, ({ userId, body }) => {
+  const record = db.users.get(userId!)!;
+  if (body?.password !== record.password) {
+    return fail(400, { password: ['Your password is incorrect.'] });
+  }
+  if (body.confirmation !== 'DELETE') {
+    return fail(400, { confirmation: ['Type DELETE to confirm.'] });
+  }
+
+  userDocuments(userId).forEach(({ document }) => db.documents.delete(document.id));
+  [...db.sessions.entries()].forEach(([id, session]) => {
+    if (session.ownerId === userId) db.sessions.delete(id);
+  });
+  db.queries = db.queries.filter((entry) => entry.ownerId !== userId);
+  revokeOtherAuthSessions(userId!, null); // null: not even the current session is kept
+  db.refreshTokens.forEach((owner, token) => {
+    if (owner.userId === userId) db.refreshTokens.delete(token);
+  });
+  db.users.delete(userId!);
+  return ok(undefined, 204);
+});
+
+// OAuth: every provider identity belongs to the demo account, so sign-in links it there
+
+const withOAuthProviders = (user: User, providers: string[]): User => ({
+  ...user,
+  oauth_provider: providers.length > 0 ? providers.join(',') : null,
+  updated_at: nowIso(),
+});
+
+const linkedProviders = (user: User) => (user.oauth_provider ? user.oauth_provider.split(',') : []);
+
+route('POST', E.AUTH.OAUTH_CALLBACK, ({ body, params }) => {
+  if (!body?.code) {
+    return fail(400, { code: ['This field is required.'] });
+  }
+  const record = [...db.users.values()].find(({ user }) => linkedProviders(user).includes(params[0]))
+    ?? [...db.users.values()].find(({ user }) => user.email === MOCK_DEMO_EMAIL)!;
+  if (!linkedProviders(record.user).includes(params[0])) {
+    record.user = withOAuthProviders(record.user, [...linkedProviders(record.user), params[0]]);
+  }
+  return ok({ ...issueTokens(record.user.id), user: record.user });
+}, { requiresAuth: false });
+
+route('POST', E.AUTH.OAUTH_LINK, ({ userId, body, params }) => {
+  if (!body?.code) {
+    return fail(400, { code: ['This field is required.'] });
+  }
+  const record = db.users.get(userId!)!;
+  const providers = linkedProviders(record.user).filter((provider) => provider !== params[0]);
+  record.user = withOAuthProviders(record.user, [...providers, params[0]]);
+  return ok(record.user);
+});
+
+route('DELETE', E.AUTH.OAUTH_LINK, ({ userId, params }) => {
+  const record = db.users.get(userId!)!;
+  record.user = withOAuthProviders(record.user, linkedProviders(record.user).filter((provider) => provider !== params[0]));
+  return ok(record.user);
+});
+
+route('POST', E.AUTH.PASSWORD_RESET, ({ body }) => {
+  const record = [...db.users.values()].find(({ user }) => user.email === body?.email?.toLowerCase());
+  if (record) {
+    const token = `mock-reset-${Math.random().toString(36).slice(2)}`;
+    db.resetTokens.set(token, { userId: record.user.id, used: false, expiresAt: Date.now() + 60 * 60 * 1000 });
+    console.info(`🧪 Mock backend: password reset link → ${window.location.origin}/reset-password?token=${token}`);
+  }
+  return ok({ detail: 'If an account exists for this email, a reset link has been sent.' });
+}, { requiresAuth: false });
+
+route('POST', E.AUTH.PASSWORD_RESET_CONFIRM, ({ body }) => {
+  const entry = db.resetTokens.get(body?.token);
+  if (!entry) {
+    return fail(400, { token: ['This reset link is invalid.'], code: 'token_invalid' });
+  }
+  if (entry.used) {
+    return fail(400, { token: ['This reset link has already been used.'], code: 'token_used' });
+  }
+  if (entry.expiresAt < Date.now()) {
+    return fail(400, { token: ['This reset link has expired.'], code: 'token_expired' });
+  }
+  if (!body?.password || body.password.length < 8) {
+    return fail(400, { password: ['This password is too short. It must contain at least 8 characters.'] });
+  }
+  entry.used = true;
+  const record = db.users.get(entry.userId)!;
+  record.password = body.password;
+  return ok({ detail: 'Password has been reset.', email: record.user.email });
+}, { requiresAuth: false });
+
+route('POST', E.AUTH.RESEND_VERIFICATION, ({ userId }) => {
+  const record = db.users.get(userId!)!;
+  if (record.user.is_email_verified) {
+    return fail(400, { detail: 'Your email address is already verified.' });
+  }
+  const token = `mock-verify-${Math.random().toString(36).slice(2)}`;
+  db.verificationTokens.set(token, { userId: record.user.id, used: false, expiresAt: Date.now() + 24 * 60 * 60 * 1000 });
+  console.info(`🧪 Mock backend: email verification link → ${window.location.origin}/verify-email?token=${token}`);
+  return ok({ detail: 'Verification email sent.' });
+});
+
+route('POST', E.AUTH.VERIFY_EMAIL, ({ body }) => {
+  const entry = db.verificationTokens.get(body?.token);
+  if (!entry) {
+    return fail(400, { token: ['This verification link is invalid.'], code: 'token_invalid' });
+  }
+  if (entry.used) {
+    return fail(400, { token: ['This verification link has already been used.'], code: 'token_used' });
+  }
+  if (entry.expiresAt < Date.now()) {
+    return fail(400, { token: ['This verification link has expired.'], code: 'token_expired' });
+  }
+  entry.used = true;
+  const record = db.users.get(entry.userId)!;
+  record.user = { ...record.user, is_email_verified: true, updated_at: nowIso() };
+  return ok({ detail: 'Email address verified.' });
+}, { requiresAuth: false });
+
+route('GET', E.AUTH.SETTINGS, ({ userId }) => ok(db.users.get(userId!)!.settings));
+
+route('PATCH', E.AUTH.SETTINGS, ({ userId, body }) => {
+  const record = db.users.get(userId!)!;
+  record.settings = { ...record.settings, ...body, updated_at: nowIso() };
+  return ok(record.settings);
+});
+
+// Documents
+
+route('GET', E.DOCUMENTS.LIST, ({ userId, query }) =>
+  paginate(userDocuments(userId).map(({ document }) => document), query, E.DOCUMENTS.LIST)
+);
+
+route('POST', E.DOCUMENTS.UPLOAD, ({ userId, body }) => {
+  const file = formDataValue(body, 'file');
+  if (!(file instanceof File)) {
+    return fail(400, { file: ['No file was submitted.'] });
+  }
+
+  const id = nextId('doc');
+  const name = formDataValue(body, 'name') || file.name.replace(/\.pdf$/i, '');
+  const pages = Math.max(1, Math.min(50, Math.round(file.size / (100 * 1024))));
+  const chunks = createChunks(name, pages);
+  const document: Document = {
+    id,
+    name,
+    original_filename: file.name,
+    file_url: URL.createObjectURL(file),
+    file_size: file.size,
+    file_size_formatted: `${(file.size / (1024 * 1024)).toFixed(1)} MB`,
+    pages,
+    processing_status: 'processing',
+    is_processed: false,
+    can_be_queried: false,
+    chunk_count: 0,
+    upload_date: nowIso(),
+    created_at: nowIso(),
+    updated_at: nowIso(),
+  };
+  db.documents.set(id, { document, ownerId: userId!, chunks, processingStartedAt: Date.now() });
+  return ok(document, 201);
+});
+
+route('GET', E.DOCUMENTS.DETAIL, ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  return record ? ok(record.document) : notFound();
+});
+
+route('DELETE', E.DOCUMENTS.DELETE, ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  if (!record) return notFound();
+
+  db.documents.delete(params[0]);
+  [...db.sessions.entries()].forEach(([id, session]) => {
+    if (session.session.document === params[0]) db.sessions.delete(id);
+  });
+  return ok(undefined, 204);
+});
+
+route('GET', E.DOCUMENTS.PROCESSING_STATUS, ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  if (!record) return notFound();
+
+  const { document } = record;
+  const total = record.chunks.length;
+  const fraction = record.processingStartedAt === null
+    ? 1
+    : Math.min((Date.now() - record.processingStartedAt) / MOCK_PROCESSING_MS, 0.99);
+  const current = Math.floor(total * fraction);
+  return ok({
+    processing_status: document.processing_status,
+    progress_current: current,
+    progress_total: total,
+    progress_percentage: Math.round(fraction * 100),
+    progress_stage: fraction < 0.3 ? 'Extracting text' : fraction < 1 ? 'Generating embeddings' : 'Done',
+    chunk_count: document.chunk_count,
+    can_be_queried: document.can_be_queried,
+    processing_error: document.processing_error,
+  });
+});
+
+// Document sub-resources built from DETAIL (which already ends in a slash)
+const documentAction = (action: string) => new RegExp(`^/api/documents/([^/]+)//?${action}/$`);
+
+route('GET', documentAction('status'), ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  return record ? ok(record.document) : notFound();
+});
+
+route('GET', documentAction('chunks'), ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  if (!record) return notFound();
+  return ok(record.chunks.map((chunk, index) => ({
+    id: `${params[0]}-chunk-${index}`,
+    content: chunk.text,
+    page_number: chunk.page_number,
+    chunk_index: index,
+    word_count: chunk.text.split(/\s+/).length,
+    char_count: chunk.text.length,
+    metadata: {},
+    created_at: record.document.created_at,
+  })));
+});
+
+const reprocess = (record: MockDocumentRecord) => {
+  // New chunks mean new vectors; the old ones leave the cache
+  db.vectorCache.delete(record.document.id);
+  record.processingStartedAt = Date.now();
+  Object.assign(record.document, {
+    processing_status: 'processing',
+    is_processed: false,
+    can_be_queried: false,
+    updated_at: nowIso(),
+  });
+};
+
+route('POST', documentAction('reprocess'), ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  if (!record) return notFound();
+  reprocess(record);
+  return ok(record.document);
+});
+
+// Chat
+
+const createMessage = (role: Message['role'], content: string, extra: Partial<Message> = {}): Message => ({
+  id: nextId('msg'),
+  role,
+  content,
+  page_references: [],
+  ai_model_used: role === 'user' ? '' : 'standard',
+  response_time_ms: null,
+  token_count: null,
+  context_documents: [],
+  created_at: nowIso(),
+  ...extra,
+});
+
+route('GET', E.CHAT.SESSIONS, ({ userId, query }) => {
+  const sessions = [...db.sessions.values()]
+    .filter((record) => record.ownerId === userId)
+    .map(({ session }) => session)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  return paginate(sessions, query, E.CHAT.SESSIONS);
+});
+
+route('POST', E.CHAT.SESSIONS, ({ userId, body }) => {
+  const record = findDocument(body?.document_id, userId);
+  if (!record) {
+    return fail(400, { document_id: ['Document not found.'] });
+  }
+
+  const session: ChatSession = {
+    id: nextId('chat'),
+    document: record.document.id,
+    title: body.title || `Chat with ${record.document.name}`,
+    ai_model: body.ai_model || 'standard',
+    temperature: body.temperature ?? 0.7,
+    max_tokens: body.max_tokens ?? 2048,
+    system_prompt: '',
+    message_count: 0,
+    created_at: nowIso(),
+    updated_at: nowIso(),
+  };
+  db.sessions.set(session.id, { session, ownerId: userId!, messages: [] });
+  return ok(session, 201);
+});
+
+route('GET', E.CHAT.MESSAGES, ({ userId, query }) => {
+  const messages = [...db.sessions.values()]
+    .filter((record) => record.ownerId === userId)
+    .flatMap((record) => record.messages);
+  return paginate(messages, query, E.CHAT.MESSAGES);
+});
+
+route('GET', E.CHAT.STATS, ({ userId }) => {
+  const sessions = [...db.sessions.values()].filter((record) => record.ownerId === userId);
+  const messages = sessions.flatMap((record) => record.messages);
+  const today = new Date().toISOString().slice(0, 10);
+  return ok({
+    total_chats: sessions.length,
+    total_messages: messages.length,
+    user_messages: messages.filter((message) => message.role === 'user').length,
+    ai_messages: messages.filter((message) => message.role === 'assistant').length,
+    today_chats: sessions.filter(({ session }) => session.created_at.startsWith(today)).length,
+    today_messages: messages.filter((message) => message.created_at.startsWith(today)).length,
+    average_messages_per_chat: sessions.length ? messages.length / sessions.length : 0,
+  });
+});
+
+route('GET', E.CHAT.SESSION_DETAIL, ({ userId, params }) => {
+  const record = findSession(params[0], userId);
+  return record ? ok(record.session) : notFound();
+});
+
+route('PATCH', E.CHAT.SESSION_DETAIL, ({ userId, params, body }) => {
+  const record = findSession(params[0], userId);
+  if (!record) return notFound();
+  record.session = { ...record.session, ...body, updated_at: nowIso() };
+  return ok(record.session);
+});
+
+route('DELETE', E.CHAT.SESSION_DETAIL, ({ userId, params }) => {
+  if (!findSession(params[0], userId)) return notFound();
+  db.sessions.delete(params[0]);
+  return ok(undefined, 204);
+});
+
+route('GET', E.CHAT.SESSION_MESSAGES, ({ userId, params, query }) => {
+  const record = findSession(params[0], userId);
+  return record ? paginate(record.messages, query, E.CHAT.SESSION_MESSAGES(params[0])) : notFound();
+});
+
+route('POST', E.CHAT.SESSION_CLEAR, ({ userId, params }) => {
+  const record = findSession(params[0], userId);
+  if (!record) return notFound();
+  record.messages = [];
+  record.session.message_count = 0;
+  return ok({ detail: 'Chat cleared.' });
+});
+
+route('GET', E.CHAT.WEBSOCKET_INFO, ({ userId, params }) => {
+  const record = findSession(params[0], userId);
+  if (!record) return notFound();
+  const url = `${API_CONFIG.WS_BASE_URL}/ws/chat/${record.session.id}/document/${record.session.document}/`;
+  return ok({
+    websocket_url: url,
+    chat_id: record.session.id,
+    document_id: record.session.document,
+    connection_guide: {
+      url,
+      query_params: { token: '<access token>' },
+      message_format: { type: 'chat_message', message: '', model: 'standard', temperature: 0.7, max_tokens: 2048 },
+    },
+  });
+});
+
+const SHARE_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+const shareResponse = (shareId: string, share: { createdAt: string; expiresAt: number }) => ({
+  share_id: shareId,
+  created_at: share.createdAt,
+  expires_at: new Date(share.expiresAt).toISOString(),
+});
+
+route('POST', E.CHAT.SESSION_SHARE, ({ userId, params }) => {
+  if (!findSession(params[0], userId)) return notFound();
+
+  const existing = [...db.chatShares.entries()].find(
+    ([, share]) => share.sessionId === params[0] && share.expiresAt > Date.now()
+  );
+  if (existing) return ok(shareResponse(...existing));
+
+  const shareId = Math.random().toString(36).slice(2, 14);
+  const share = { sessionId: params[0], createdAt: nowIso(), expiresAt: Date.now() + SHARE_LIFETIME_MS };
+  db.chatShares.set(shareId, share);
+  return ok(shareResponse(shareId, share), 201);
+});
+
+route('GET', E.CHAT.SHARED, ({ params }) => {
+  const share = db.chatShares.get(params[0]);
+  const record = share && share.expiresAt > Date.now() ? db.sessions.get(share.sessionId) : undefined;
+  if (!share || !record) return notFound('This shared chat does not exist or has expired.');
+
+  return ok({
+    ...shareResponse(params[0], share),
+    title: record.session.title,
+    document_name: db.documents.get(record.session.document)?.document.name ?? '',
+    messages: record.messages,
+  });
+}, { requiresAuth: false });
+
+/**
+ * Record a chat exchange (used by the mock socket)
+ */
+export function saveChatExchange(sessionId: string, role: Message['role'], content: string, extra: Partial<Message> = {}): Message {
+  const record = db.sessions.get(sessionId);
+  const message = createMessage(role, content, extra);
+  if (record) {
+    record.messages.push(message);
+    record.session.message_count = record.messages.length;
+    record.session.updated_at = message.created_at;
+  }
+  return message;
+}
+
+// RAG
+
+const queryDocument = ({ userId, body }: MockRequest) => findDocument(body?.document_id, userId);
+
+const recordQuery = (userId: number, documentId: string, query: string, response: string, chunks: number): QueryHistory => {
+  const entry = {
+    id: nextId('query'),
+    query,
+    response,
+    document_id: documentId,
+    ai_model_used: 'standard',
+    response_time_ms: 420,
+    chunks_used_count: chunks,
+    created_at: nowIso(),
+    ownerId: userId,
+  };
+  db.queries.unshift(entry);
+  const { ownerId: _ownerId, ...history } = entry;
+  return history;
+};
+
+route('POST', E.RAG.SEARCH, (request) => {
+  const record = queryDocument(request);
+  if (!record) return fail(400, { document_id: ['Document not found.'] });
+  const chunks = searchChunks(record, request.body.query || '', request.body.n_results || 5);
+  return ok({
+    chunks,
+    query: request.body.query,
+    document_id: record.document.id,
+    total_chunks: record.chunks.length,
+    search_time_ms: 12,
+  });
+});
+
+const answerQuery: Handler = (request) => {
+  const record = queryDocument(request);
+  if (!record) return fail(400, { document_id: ['Document not found.'] });
+  const { answer, chunks } = answerFor(record, request.body.query || '');
+  const history = recordQuery(request.userId!, record.document.id, request.body.query, answer, chunks.length);
+  return ok({
+    answer,
+    chunks_used: chunks,
+    ai_model_used: request.body.ai_model || 'standard',
+    response_time_ms: history.response_time_ms,
+    token_count: answer.split(/\s+/).length,
+    query_id: history.id,
+    context_quality_score: 0.8,
+  });
+};
+
+route('POST', E.RAG.QUERY, answerQuery);
+route('POST', E.RAG.SIMPLE_QUERY, answerQuery);
+
+route('POST', E.RAG.QUERY_STREAM, (request) => {
+  const record = queryDocument(request);
+  if (!record) return fail(400, { document_id: ['Document not found.'] });
+  const { answer, chunks } = answerFor(record, request.body.query || '');
+  recordQuery(request.userId!, record.document.id, request.body.query, answer, chunks.length);
+
+  // Server-sent events, one word per event, as StreamingResponseParser expects
+  const encoder = new TextEncoder();
+  const words = answer.split(/(?<=\s)/);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let index = 0;
+      const push = () => {
+        if (index < words.length) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ token: words[index++] })}\n\n`));
+          timer = setTimeout(push, mockConfig.tokenIntervalMs);
+          return;
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'complete', chunks })}\n\ndata: [DONE]\n\n`));
+        controller.close();
+      };
+      push();
+    },
+    cancel() {
+      if (timer) clearTimeout(timer);
+    },
+  });
+  return { status: 200, stream, headers: { 'content-type': 'text/event-stream' } };
+});
+
+route('GET', E.RAG.MODELS, () => ok({ models: MOCK_MODELS, default_category: 'standard' }));
+
+const userQueries = (userId: number | null) =>
+  db.queries.filter((entry) => entry.ownerId === userId).map(({ ownerId: _ownerId, ...entry }) => entry);
+
+route('GET', E.RAG.QUERY_HISTORY, ({ userId, query }) => {
+  const documentId = query.get('document_id');
+  const entries = userQueries(userId).filter((entry) => !documentId || entry.document_id === documentId);
+  return paginate(entries, query, E.RAG.QUERY_HISTORY);
+});
+
+route('GET', E.RAG.QUERY_DETAIL, ({ userId, params }) => {
+  const entry = userQueries(userId).find(({ id }) => id === params[0]);
+  return entry ? ok(entry) : notFound();
+});
+
+route('DELETE', E.RAG.QUERY_DETAIL, ({ userId, params }) => {
+  const index = db.queries.findIndex((entry) => entry.id === params[0] && entry.ownerId === userId);
+  if (index === -1) return notFound();
+  db.queries.splice(index, 1);
+  return ok(undefined, 204);
+});
+
+route('GET', E.RAG.DOCUMENT_STATS, ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  if (!record) return notFound();
+  const queries = userQueries(userId).filter((entry) => entry.document_id === params[0]);
+  return ok({
+    total_chunks: record.chunks.length,
+    total_queries: queries.length,
+    average_response_time: queries.length ? 420 : 0,
+    most_common_topics: ['overview', 'results'],
+    query_patterns: [
+      { topic: 'overview', count: Math.ceil(queries.length / 2), percentage: 50 },
+      { topic: 'results', count: Math.floor(queries.length / 2), percentage: 50 },
+    ],
+  });
+});
+
+route('GET', E.RAG.VALIDATE_DOCUMENT, ({ userId, params }) => {
+  const record = findManagedDocument(params[0], userId);
+  if (!record) return notFound();
+  return ok({
+    is_processed: record.document.is_processed,
+    chunk_count: record.document.chunk_count,
+    processing_status: record.document.processing_status,
+    error_message: record.document.processing_error,
+  });
+});
+
+route('POST', E.RAG.REPROCESS_DOCUMENT, ({ userId, params }) => {
+  const record = findManagedDocument(params[0], userId);
+  if (!record) return notFound();
+  reprocess(record);
+  return ok({ message: 'Reprocessing started.', chunk_count: record.chunks.length, processing_time_ms: MOCK_PROCESSING_MS });
+});
+
+route('GET', E.RAG.DOCUMENT_CHUNKS, ({ userId, params, query }) => {
+  const record = findManagedDocument(params[0], userId);
+  if (!record) return notFound();
+  const chunks = record.chunks.map((chunk, index) => ({ ...chunk, metadata: { chunk_index: index } }));
+  return paginate(chunks, query, E.RAG.DOCUMENT_CHUNKS(params[0]));
+});
+
+route('GET', E.RAG.SEARCH_SUGGESTIONS, ({ userId, params }) => {
+  const record = findDocument(params[0], userId);
+  if (!record) return notFound();
+  return ok([
+    `Summarize ${record.document.name}`,
+    'What are the key findings?',
+    'Where are the results discussed?',
+  ]);
+});
+
+route('GET', E.RAG.SIMILAR_QUERIES, ({ userId, query }) => {
+  const words = (query.get('query') || '').toLowerCase().split(/\W+/).filter(Boolean);
+  const limit = parseInt(query.get('limit') || '5', 10);
+  const entries = userQueries(userId).filter((entry) =>
+    entry.document_id === query.get('document_id') &&
+    words.some((word) => entry.query.toLowerCase().includes(word))
+  );
+  return ok(entries.slice(0, limit));
+});
+
+route('POST', E.RAG.FEEDBACK, () => ok({ detail: 'Thanks for the feedback.' }, 201));
+
+// 1536-dimensional float32 embeddings
+const VECTOR_BYTES = 1536 * 4;
+
+const vectorCacheEntries = () =>
+  [...db.vectorCache.entries()]
+    .map(([documentId, entry]) => ({ entry, record: db.documents.get(documentId) }))
+    .filter(({ record }) => record?.document.is_processed)
+    .map(({ entry, record }) => ({
+      document_id: record!.document.id,
+      document_name: record!.document.name,
+      owner_email: db.users.get(record!.ownerId)?.user.email ?? '',
+      vector_count: record!.chunks.length,
+      size_bytes: record!.chunks.length * VECTOR_BYTES,
+      hits: entry.hits,
+      cached_at: entry.cachedAt,
+      last_accessed: entry.lastAccessed,
+    }))
+    .sort((a, b) => b.last_accessed.localeCompare(a.last_accessed));
+
+route('GET', E.RAG.VECTOR_CACHE, ({ userId }) => {
+  if (!isStaff(userId)) return forbidden();
+  const entries = vectorCacheEntries();
+  return ok({
+    cached_documents: entries.length,
+    total_vectors: entries.reduce((sum, entry) => sum + entry.vector_count, 0),
+    total_size_bytes: entries.reduce((sum, entry) => sum + entry.size_bytes, 0),
+    entries,
+  });
+});
+
+route('DELETE', E.RAG.VECTOR_CACHE, ({ userId, query }) => {
+  if (!isStaff(userId)) return forbidden();
+  const documentId = query.get('document_id');
+  if (documentId) {
+    if (!db.vectorCache.delete(documentId)) return notFound('This document is not in the vector cache.');
+    return ok({ detail: 'Cache entry purged.', purged: 1 });
+  }
+  const purged = vectorCacheEntries().length;
+  db.vectorCache.clear();
+  return ok({ detail: 'Vector cache cleared.', purged });
+});
+
+// Admin
+
+route('GET', E.ADMIN.DOCUMENTS, ({ userId, query }) => {
+  if (!isStaff(userId)) return forbidden();
+  const search = (query.get('search') || '').trim().toLowerCase();
+  const status = query.get('status');
+
+  const documents = [...db.documents.values()]
+    .map((record) => {
+      syncProcessing(record);
+      const owner = db.users.get(record.ownerId)?.user;
+      return {
+        ...record.document,
+        owner: { id: record.ownerId, email: owner?.email ?? '', full_name: owner?.full_name ?? '' },
+      };
+    })
+    .filter((document) => !status || document.processing_status === status)
+    .filter((document) =>
+      !search ||
+      [document.name, document.original_filename, document.owner.email].some((value) => value.toLowerCase().includes(search))
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return paginate(documents, query, E.ADMIN.DOCUMENTS);
+});
+
+/**
+ * Find the handler for a request. Returns the route and its captured params,
+ * or null when nothing matches.
+ */
+export function matchRoute(method: string, path: string): { route: Route; params: string[] } | null {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.pattern.exec(path);
+    if (match) {
+      return { route: candidate, params: match.slice(1) };
+    }
+  }
+  return null;
+}
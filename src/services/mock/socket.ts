@@ -0,0 +1,150 @@
+/**
+ * Mock Chat WebSocket
+ *
+ * Emulates /ws/chat/{chat}/document/{doc}/?token= in the browser. Speaks the
+ * same protocol as the Django consumer: connection, message_saved,
+ * response_start, chunks_retrieved, token, response_complete, error.
+ */
+
+import { db } from './db';
+import { answerFor, saveChatExchange } from './routes';
+import { mockConfig, nextLatency, takeFailure, verifyAccessToken } from './config';
+
+const SOCKET_PATH = /\/ws\/chat\/([^/]+)\/document\/([^/]+)\/?$/;
+
+export class MockWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState = MockWebSocket.CONNECTING;
+
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private chatId = '';
+  private documentId = '';
+  private userId: number | null = null;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(url: string) {
+    this.url = url;
+    this.later(() => this.open(), nextLatency());
+  }
+
+  send(raw: string): void {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new DOMException('WebSocket is not open', 'InvalidStateError');
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      this.emit({ type: 'error', message: 'Invalid JSON' });
+      return;
+    }
+
+    if (data.type === 'chat_message') {
+      this.respond(String(data.message || ''), data.model || 'standard');
+    } else if (data.type === 'settings_update') {
+      const { type: _type, ...settings } = data;
+      this.emit({ type: 'settings_updated', settings });
+    } else {
+      this.emit({ type: 'error', message: `Unknown message type: ${data.type}` });
+    }
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    if (this.readyState === MockWebSocket.CLOSED) return;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === 1000 }));
+  }
+
+  private open(): void {
+    const url = new URL(this.url, window.location.origin);
+    const match = SOCKET_PATH.exec(url.pathname);
+    this.userId = verifyAccessToken(url.searchParams.get('token'));
+    const session = match ? db.sessions.get(match[1]) : undefined;
+
+    const scripted = takeFailure('WS', url.pathname);
+    if (!match || this.userId === null || !session || session.ownerId !== this.userId || scripted) {
+      this.onerror?.(new Event('error'));
+      this.close(this.userId === null ? 4001 : 4004, 'Rejected by mock backend');
+      return;
+    }
+
+    [, this.chatId, this.documentId] = match;
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.(new Event('open'));
+    this.emit({
+      type: 'connection',
+      message: 'Connected to mock chat',
+      chat_id: this.chatId,
+      document_id: this.documentId,
+    });
+  }
+
+  private respond(question: string, model: string): void {
+    const document = db.documents.get(this.documentId);
+    const userMessage = saveChatExchange(this.chatId, 'user', question);
+    this.emit({ type: 'message_saved', message_id: userMessage.id, role: 'user' });
+
+    const scripted = takeFailure('WS', `/ws/chat/${this.chatId}/message`);
+    if (!document || scripted) {
+      this.later(() => this.emit({
+        type: 'error',
+        message: scripted?.body?.message || 'The assistant could not answer right now. Please try again.',
+      }), nextLatency());
+      return;
+    }
+
+    const startedAt = Date.now();
+    const { answer, chunks } = answerFor(document, question);
+    const messageId = `pending-${startedAt}`;
+    const words = answer.split(/(?<=\s)/);
+
+    this.later(() => {
+      this.emit({ type: 'response_start', message_id: messageId });
+      this.emit({ type: 'chunks_retrieved', chunks, count: chunks.length });
+
+      words.forEach((token, index) => {
+        this.later(
+          () => this.emit({ type: 'token', message_id: messageId, token }),
+          (index + 1) * mockConfig.tokenIntervalMs
+        );
+      });
+
+      this.later(() => {
+        const saved = saveChatExchange(this.chatId, 'assistant', answer, {
+          ai_model_used: model,
+          page_references: [...new Set(chunks.map((chunk) => chunk.page_number))],
+          response_time_ms: Date.now() - startedAt,
+          token_count: words.length,
+          context_documents: chunks,
+        });
+        this.emit({ type: 'response_complete', message_id: saved.id, content: answer, chunks });
+      }, (words.length + 1) * mockConfig.tokenIntervalMs);
+    }, nextLatency());
+  }
+
+  private emit(payload: Record<string, unknown>): void {
+    if (this.readyState !== MockWebSocket.OPEN) return;
+    const data = JSON.stringify({ ...payload, timestamp: new Date().toISOString() });
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
+  private later(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay);
+    this.timers.add(timer);
+  }
+}
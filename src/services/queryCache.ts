@@ -0,0 +1,173 @@
+/**
+ * Query Cache
+ *
+ * Shared cache for ApiClient GETs. Identical requests in flight at the same
+ * time share one network call; endpoints with a cache policy (see
+ * API_CONFIG.CACHE_POLICIES) are also kept in memory and served
+ * stale-while-revalidate. Mutations drop affected entries with invalidate().
+ */
+
+import axios from 'axios';
+
+export interface CachePolicy {
+  // Served straight from memory while younger than this
+  ttlMs: number;
+  // Past ttlMs, still served (and refreshed in the background) for this much longer
+  staleMs: number;
+}
+
+export interface CacheFetchOptions<T> {
+  signal?: AbortSignal;
+  // Endpoint policy override; false skips cached data (the response still refreshes it)
+  cache?: Partial<CachePolicy> | false;
+  // Called with newer data when a stale response was served and revalidation finishes
+  onUpdate?: (data: T) => void;
+}
+
+interface CacheEntry {
+  data: unknown;
+  updatedAt: number;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting; the request is cancelled when the last one aborts
+  waiters: number;
+}
+
+const NO_CACHE: CachePolicy = { ttlMs: 0, staleMs: 0 };
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, InFlight>();
+  private generation = 0;
+
+  constructor(private resolvePolicy: (key: string) => CachePolicy | undefined) {}
+
+  /**
+   * Return cached data for `key` when allowed by its policy, otherwise run
+   * (or join) `load`
+   */
+  async fetch<T>(key: string, load: (signal: AbortSignal) => Promise<T>, options: CacheFetchOptions<T> = {}): Promise<T> {
+    const policy = this.policyFor(key, options.cache);
+    const entry = options.cache === false ? undefined : this.entries.get(key);
+    const age = entry ? Date.now() - entry.updatedAt : Infinity;
+
+    if (entry && age < policy.ttlMs) {
+      return entry.data as T;
+    }
+
+    if (entry && age < policy.ttlMs + policy.staleMs) {
+      this.revalidate(key, load, options);
+      return entry.data as T;
+    }
+
+    return this.join(key, load, policy, options.signal);
+  }
+
+  /**
+   * Drop entries whose key starts with `prefix` (all entries if omitted).
+   * Requests already in flight still answer their callers but aren't cached,
+   * and later callers start a fresh request instead of joining them.
+   */
+  invalidate(prefix: string = ''): void {
+    this.generation++;
+    [...this.entries.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => this.entries.delete(key));
+    [...this.inFlight.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => this.inFlight.delete(key));
+  }
+
+  /**
+   * Forget everything, e.g. when the signed-in user changes
+   */
+  clear(): void {
+    this.inFlight.forEach((request) => request.controller.abort());
+    this.invalidate();
+  }
+
+  private policyFor(key: string, override: CacheFetchOptions<unknown>['cache']): CachePolicy {
+    const configured = this.resolvePolicy(key);
+    if (!override) {
+      return configured ?? NO_CACHE;
+    }
+    return { ...(configured ?? NO_CACHE), ...override };
+  }
+
+  private revalidate<T>(key: string, load: (signal: AbortSignal) => Promise<T>, options: CacheFetchOptions<T>): void {
+    // Background refresh keeps its own waiter, so it survives the caller unmounting
+    this.join(key, load, this.policyFor(key, options.cache))
+      .then((data) => {
+        if (!options.signal?.aborted) {
+          options.onUpdate?.(data);
+        }
+      })
+      .catch((error) => {
+        if (axios.isCancel(error)) return;
+        console.warn(`⚠️ Background refresh of ${key} failed:`, error);
+      });
+  }
+
+  private join<T>(key: string, load: (signal: AbortSignal) => Promise<T>, policy: CachePolicy, signal?: AbortSignal): Promise<T> {
+    let request = this.inFlight.get(key);
+
+    if (!request) {
+      const controller = new AbortController();
+      // Responses that started before an invalidate() must not repopulate the cache
+      const generation = this.generation;
+      const promise = load(controller.signal)
+        .then((data) => {
+          if (generation === this.generation && policy.ttlMs + policy.staleMs > 0) {
+            this.entries.set(key, { data, updatedAt: Date.now() });
+          }
+          return data;
+        })
+        .finally(() => {
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+          }
+        });
+      request = { promise, controller, waiters: 0 };
+      this.inFlight.set(key, request);
+    }
+
+    return this.wait(key, request, signal) as Promise<T>;
+  }
+
+  // Follow a shared request, letting this caller give up without cancelling it for the others
+  private wait(key: string, request: InFlight, signal?: AbortSignal): Promise<unknown> {
+    if (signal?.aborted) {
+      return Promise.reject(new axios.CanceledError());
+    }
+    request.waiters++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        request.waiters--;
+        if (request.waiters === 0) {
+          // An invalidate() may already have replaced it with a newer request
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+          }
+          request.controller.abort();
+        }
+        reject(new axios.CanceledError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      request.promise.then(
+        (data) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(data);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
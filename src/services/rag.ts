@@ -4,7 +4,9 @@
  * Handles document search, retrieval, and AI model interactions.
  */
 
-import { apiClient, API_CONFIG } from './api';
+import { apiClient, API_CONFIG, RequestOptions } from './api';
+import { s, Paginated } from './schema';
+import { ActivityTracker } from './activity';
 
 // Type definitions matching backend models
 export interface DocumentChunk {
@@ -78,12 +80,58 @@ export interface DocumentStats {
 }
 
 export interface AIModel {
+  id: string;
+  model_string: string;
   name: string;
-  display_name: string;
   description: string;
+  category: string;
   max_tokens: number;
-  supports_streaming: boolean;
-  cost_per_token?: number;
+  recommended_temperature: number;
+  icon: string;
+  is_default: boolean;
+  features: string[];
+}
+
+export interface AIModelsResponse {
+  models: AIModel[];
+  default_category?: string;
+}
+
+export interface DocumentValidation {
+  is_processed: boolean;
+  chunk_count: number;
+  processing_status: string;
+  error_message?: string;
+}
+
+export interface ReprocessResult {
+  message: string;
+  chunk_count: number;
+  processing_time_ms: number;
+}
+
+// One document's embeddings held in the server's vector cache
+export interface VectorCacheEntry {
+  document_id: string;
+  document_name: string;
+  owner_email: string;
+  vector_count: number;
+  size_bytes: number;
+  hits: number;
+  cached_at: string;
+  last_accessed: string;
+}
+
+export interface VectorCacheStats {
+  cached_documents: number;
+  total_vectors: number;
+  total_size_bytes: number;
+  entries: VectorCacheEntry[];
+}
+
+export interface VectorCachePurgeResult {
+  detail: string;
+  purged: number;
 }
 
 export interface SearchFilters {
@@ -93,45 +141,137 @@ export interface SearchFilters {
   include_metadata?: boolean;
 }
 
+// Runtime schemas for the responses above (see ./schema)
+export const DocumentChunkSchema = s.object<DocumentChunk>({
+  text: s.string(),
+  page_number: s.number(),
+  similarity_score: s.optional(s.number()),
+  metadata: s.any(),
+});
+
+export const SearchResultSchema = s.object<SearchResult>({
+  chunks: s.array(DocumentChunkSchema),
+  query: s.string(),
+  document_id: s.string(),
+  total_chunks: s.number(),
+  search_time_ms: s.number(),
+});
+
+export const AIResponseSchema = s.object<AIResponse>({
+  answer: s.string(),
+  chunks_used: s.array(DocumentChunkSchema),
+  ai_model_used: s.string(),
+  response_time_ms: s.number(),
+  token_count: s.optional(s.number()),
+  query_id: s.optional(s.string()),
+  context_quality_score: s.optional(s.number()),
+});
+
+export const QueryHistorySchema = s.object<QueryHistory>({
+  id: s.string(),
+  query: s.string(),
+  response: s.string(),
+  document_id: s.string(),
+  ai_model_used: s.string(),
+  response_time_ms: s.number(),
+  chunks_used_count: s.number(),
+  created_at: s.string(),
+});
+
+export const DocumentStatsSchema = s.object<DocumentStats>({
+  total_chunks: s.number(),
+  total_queries: s.number(),
+  average_response_time: s.number(),
+  most_common_topics: s.array(s.string()),
+  query_patterns: s.array(s.object<DocumentStats['query_patterns'][number]>({
+    topic: s.string(),
+    count: s.number(),
+    percentage: s.number(),
+  })),
+});
+
+export const AIModelSchema = s.object<AIModel>({
+  id: s.string(),
+  model_string: s.string(),
+  name: s.string('Unnamed model'),
+  description: s.string(),
+  category: s.string(),
+  max_tokens: s.number(),
+  recommended_temperature: s.number(0.7),
+  icon: s.string(),
+  is_default: s.boolean(),
+  features: s.array(s.string()),
+});
+
+export const AIModelsResponseSchema = s.object<AIModelsResponse>({
+  models: s.array(AIModelSchema),
+  default_category: s.optional(s.string()),
+});
+
+export const DocumentValidationSchema = s.object<DocumentValidation>({
+  is_processed: s.boolean(),
+  chunk_count: s.number(),
+  processing_status: s.string(),
+  error_message: s.optional(s.string()),
+});
+
+export const ReprocessResultSchema = s.object<ReprocessResult>({
+  message: s.string(),
+  chunk_count: s.number(),
+  processing_time_ms: s.number(),
+});
+
+export const VectorCacheEntrySchema = s.object<VectorCacheEntry>({
+  document_id: s.string(),
+  document_name: s.string(),
+  owner_email: s.string(),
+  vector_count: s.number(),
+  size_bytes: s.number(),
+  hits: s.number(),
+  cached_at: s.string(),
+  last_accessed: s.string(),
+});
+
+export const VectorCacheStatsSchema = s.object<VectorCacheStats>({
+  cached_documents: s.number(),
+  total_vectors: s.number(),
+  total_size_bytes: s.number(),
+  entries: s.array(VectorCacheEntrySchema),
+});
+
+export const VectorCachePurgeResultSchema = s.object<VectorCachePurgeResult>({
+  detail: s.string(),
+  purged: s.number(),
+});
+
 export class RAGService {
   /**
    * Search document chunks by query
    */
-  static async searchDocument(request: QueryRequest): Promise<SearchResult> {
-    return apiClient.post<SearchResult>(API_CONFIG.ENDPOINTS.RAG.SEARCH, request);
+  static async searchDocument(request: QueryRequest, options: RequestOptions = {}): Promise<SearchResult> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.RAG.SEARCH, request, { ...options, schema: SearchResultSchema });
   }
 
   /**
    * Get AI response with document context
    */
-  static async queryWithContext(request: ContextualQuery): Promise<AIResponse> {
-    return apiClient.post<AIResponse>(API_CONFIG.ENDPOINTS.RAG.QUERY, request);
+  static async queryWithContext(request: ContextualQuery, options: RequestOptions = {}): Promise<AIResponse> {
+    return apiClient.post(API_CONFIG.ENDPOINTS.RAG.QUERY, request, { ...options, schema: AIResponseSchema });
   }
 
   /**
    * Stream AI response with document context
    * Returns a ReadableStream for streaming responses
-   * Note: Uses fetch instead of axios for streaming support
    */
-  static async queryWithContextStream(request: ContextualQuery): Promise<ReadableStream> {
-    const response = await fetch(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.RAG.QUERY_STREAM}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiClient.getAccessToken()}`,
-      },
-      body: JSON.stringify({ ...request, stream: true }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    if (!response.body) {
-      throw new Error('Response body is not available');
-    }
-
-    return response.body;
+  static async queryWithContextStream(
+    request: ContextualQuery,
+    options: RequestOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    return apiClient.stream(
+      API_CONFIG.ENDPOINTS.RAG.QUERY_STREAM,
+      { ...request, stream: true },
+      options
+    );
   }
 
   /**
@@ -140,7 +280,8 @@ export class RAGService {
   static async getQueryHistory(
     documentId: string,
     page: number = 1,
-    pageSize: number = 20
+    pageSize: number = 20,
+    options: RequestOptions = {}
   ): Promise<QueryHistoryListResponse> {
     const params = new URLSearchParams({
       document_id: documentId,
@@ -148,62 +289,64 @@ export class RAGService {
       page_size: pageSize.toString(),
     });
 
-    return apiClient.get<QueryHistoryListResponse>(
-      `${API_CONFIG.ENDPOINTS.RAG.QUERY_HISTORY}?${params}`
+    return apiClient.get(
+      `${API_CONFIG.ENDPOINTS.RAG.QUERY_HISTORY}?${params}`,
+      { ...options, schema: s.paginated(QueryHistorySchema) }
     );
   }
 
   /**
    * Get query by ID
    */
-  static async getQuery(queryId: string): Promise<QueryHistory> {
-    return apiClient.get<QueryHistory>(API_CONFIG.ENDPOINTS.RAG.QUERY_DETAIL(queryId));
+  static async getQuery(queryId: string, options: RequestOptions = {}): Promise<QueryHistory> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.RAG.QUERY_DETAIL(queryId), { ...options, schema: QueryHistorySchema });
   }
 
   /**
    * Delete query from history
    */
-  static async deleteQuery(queryId: string): Promise<void> {
-    return apiClient.delete(API_CONFIG.ENDPOINTS.RAG.QUERY_DETAIL(queryId));
+  static async deleteQuery(queryId: string, options: RequestOptions = {}): Promise<void> {
+    return apiClient.delete(API_CONFIG.ENDPOINTS.RAG.QUERY_DETAIL(queryId), options);
   }
 
   /**
    * Get document analytics and statistics
    */
-  static async getDocumentStats(documentId: string): Promise<DocumentStats> {
-    return apiClient.get<DocumentStats>(
-      API_CONFIG.ENDPOINTS.RAG.DOCUMENT_STATS(documentId)
+  static async getDocumentStats(documentId: string, options: RequestOptions = {}): Promise<DocumentStats> {
+    return apiClient.get(
+      API_CONFIG.ENDPOINTS.RAG.DOCUMENT_STATS(documentId),
+      { ...options, schema: DocumentStatsSchema }
     );
   }
 
   /**
    * Get available AI models
    */
-  static async getAvailableModels(): Promise<AIModel[]> {
-    return apiClient.get<AIModel[]>(API_CONFIG.ENDPOINTS.RAG.MODELS);
+  static async getAvailableModels(options: RequestOptions = {}): Promise<AIModelsResponse> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.RAG.MODELS, { ...options, schema: AIModelsResponseSchema });
   }
 
   /**
    * Validate document processing status
    */
-  static async validateDocumentProcessing(documentId: string): Promise<{
-    is_processed: boolean;
-    chunk_count: number;
-    processing_status: string;
-    error_message?: string;
-  }> {
-    return apiClient.get(API_CONFIG.ENDPOINTS.RAG.VALIDATE_DOCUMENT(documentId));
+  static async validateDocumentProcessing(documentId: string, options: RequestOptions = {}): Promise<DocumentValidation> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.RAG.VALIDATE_DOCUMENT(documentId), {
+      ...options,
+      schema: DocumentValidationSchema,
+    });
   }
 
   /**
    * Reprocess document chunks (admin/debug function)
    */
-  static async reprocessDocument(documentId: string): Promise<{
-    message: string;
-    chunk_count: number;
-    processing_time_ms: number;
-  }> {
-    return apiClient.post(API_CONFIG.ENDPOINTS.RAG.REPROCESS_DOCUMENT(documentId));
+  static async reprocessDocument(documentId: string, options: RequestOptions = {}): Promise<ReprocessResult> {
+    const result = await apiClient.post(API_CONFIG.ENDPOINTS.RAG.REPROCESS_DOCUMENT(documentId), undefined, {
+      ...options,
+      schema: ReprocessResultSchema,
+    });
+    // Cached document list/detail entries now have out-of-date processing state
+    apiClient.invalidate(API_CONFIG.ENDPOINTS.DOCUMENTS.LIST);
+    return result;
   }
 
   /**
@@ -212,30 +355,47 @@ export class RAGService {
   static async getDocumentChunks(
     documentId: string,
     page: number = 1,
-    pageSize: number = 50
-  ): Promise<{
-    count: number;
-    next: string | null;
-    previous: string | null;
-    results: DocumentChunk[];
-  }> {
+    pageSize: number = 50,
+    options: RequestOptions = {}
+  ): Promise<Paginated<DocumentChunk>> {
     const params = new URLSearchParams({
       page: page.toString(),
       page_size: pageSize.toString(),
     });
 
     return apiClient.get(
-      `${API_CONFIG.ENDPOINTS.RAG.DOCUMENT_CHUNKS(documentId)}?${params}`
+      `${API_CONFIG.ENDPOINTS.RAG.DOCUMENT_CHUNKS(documentId)}?${params}`,
+      { ...options, schema: s.paginated(DocumentChunkSchema) }
     );
   }
 
+  /**
+   * Vector cache contents across all users (staff only)
+   */
+  static async getVectorCache(options: RequestOptions = {}): Promise<VectorCacheStats> {
+    return apiClient.get(API_CONFIG.ENDPOINTS.RAG.VECTOR_CACHE, { ...options, schema: VectorCacheStatsSchema });
+  }
+
+  /**
+   * Drop one document's vectors from the cache, or every entry when no
+   * document is given (staff only). Purged vectors are reloaded on the next query.
+   */
+  static async purgeVectorCache(documentId?: string, options: RequestOptions = {}): Promise<VectorCachePurgeResult> {
+    const query = documentId ? `?${new URLSearchParams({ document_id: documentId })}` : '';
+    return apiClient.delete(`${API_CONFIG.ENDPOINTS.RAG.VECTOR_CACHE}${query}`, {
+      ...options,
+      schema: VectorCachePurgeResultSchema,
+    });
+  }
+
   /**
    * Advanced search with filters
    */
   static async advancedSearch(
     query: string,
     documentId: string,
-    filters: SearchFilters = {}
+    filters: SearchFilters = {},
+    options: RequestOptions = {}
   ): Promise<SearchResult> {
     const request: QueryRequest & SearchFilters = {
       query,
@@ -246,15 +406,16 @@ export class RAGService {
       ...filters,
     };
 
-    return this.searchDocument(request);
+    return this.searchDocument(request, options);
   }
 
   /**
    * Get search suggestions based on document content
    */
-  static async getSearchSuggestions(documentId: string): Promise<string[]> {
-    return apiClient.get<string[]>(
-      API_CONFIG.ENDPOINTS.RAG.SEARCH_SUGGESTIONS(documentId)
+  static async getSearchSuggestions(documentId: string, options: RequestOptions = {}): Promise<string[]> {
+    return apiClient.get(
+      API_CONFIG.ENDPOINTS.RAG.SEARCH_SUGGESTIONS(documentId),
+      { ...options, schema: s.array(s.string()) }
     );
   }
 
@@ -264,7 +425,8 @@ export class RAGService {
   static async getSimilarQueries(
     query: string,
     documentId: string,
-    limit: number = 5
+    limit: number = 5,
+    options: RequestOptions = {}
   ): Promise<QueryHistory[]> {
     const params = new URLSearchParams({
       query,
@@ -272,8 +434,9 @@ export class RAGService {
       limit: limit.toString(),
     });
 
-    return apiClient.get<QueryHistory[]>(
-      `${API_CONFIG.ENDPOINTS.RAG.SIMILAR_QUERIES}?${params}`
+    return apiClient.get(
+      `${API_CONFIG.ENDPOINTS.RAG.SIMILAR_QUERIES}?${params}`,
+      { ...options, schema: s.array(QueryHistorySchema) }
     );
   }
 }
@@ -302,6 +465,9 @@ export class StreamingResponseParser {
 
         if (done) break;
 
+        // Output still arriving counts as activity for the idle timeout
+        ActivityTracker.recordActivity();
+
         // Decode the chunk and add to buffer
         const chunk = this.decoder.decode(value, { stream: true });
         this.buffer += chunk;
@@ -373,7 +539,8 @@ export class DocumentContextManager {
   async getContext(
     query: string,
     maxChunks: number = 5,
-    similarityThreshold: number = 0.1
+    similarityThreshold: number = 0.1,
+    options: RequestOptions = {}
   ): Promise<DocumentChunk[]> {
     // Use cached chunks if the query is similar to the last one
     if (this.isSimilarQuery(query) && this.cachedChunks.length > 0) {
@@ -386,7 +553,7 @@ export class DocumentContextManager {
       n_results: maxChunks,
       similarity_threshold: similarityThreshold,
       include_metadata: true,
-    });
+    }, options);
 
     this.cachedChunks = result.chunks;
     this.lastQuery = query;
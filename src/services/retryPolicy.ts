@@ -0,0 +1,62 @@
+/**
+ * Retry Policy
+ *
+ * Decides whether ApiClient repeats a failed request and how long it waits
+ * first. Policies are looked up per endpoint (see API_CONFIG.RETRY_POLICIES).
+ */
+
+import { RateLimitedError } from './errors';
+import { EndpointTree, UrlUtils } from './utils';
+
+export interface RetryPolicy {
+  // Attempts after the first one; 0 disables retries
+  maxRetries: number;
+  // Backoff grows as baseDelayMs * 2^attempt, capped at maxDelayMs, with full jitter
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Give up instead of waiting when a 429's Retry-After is longer than this
+  maxRetryAfterMs: number;
+  // Allow retrying POST/PATCH for endpoints that are safe to repeat (e.g. read-only searches)
+  idempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  idempotent: false,
+};
+
+// Methods that are safe to repeat by definition (RFC 9110)
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+export function isIdempotentRequest(method: string | undefined, policy: RetryPolicy): boolean {
+  return policy.idempotent || IDEMPOTENT_METHODS.includes((method || 'get').toLowerCase());
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), or null if the error
+ * says not to retry at all
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error: unknown): number | null {
+  if (error instanceof RateLimitedError && error.retryAfterMs !== null) {
+    return error.retryAfterMs <= policy.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Build a lookup from request URL to the policy configured for its endpoint entry.
+ * Policies are keyed by entry path, e.g. 'RAG.SEARCH' or 'DOCUMENTS.DETAIL'.
+ * Parameterised entries match any id; the first matching entry wins.
+ */
+export function createRetryPolicyResolver(
+  endpoints: EndpointTree,
+  policies: Record<string, Partial<RetryPolicy>>
+): (url: string | undefined) => RetryPolicy {
+  const resolve = UrlUtils.endpointResolver(endpoints, policies);
+  return (url) => ({ ...DEFAULT_RETRY_POLICY, ...resolve(url) });
+}
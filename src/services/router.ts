@@ -0,0 +1,211 @@
+/**
+ * URL Routing
+ *
+ * Maps the address bar to the screen being shown and back, on top of the
+ * History API. nginx (and the Vite dev server) answer every path with
+ * index.html, so any of these URLs can be opened directly or reloaded.
+ *
+ *   /                                  workspace, no document selected
+ *   /login, /signup                    sign-in screens (?next= is where to go afterwards)
+ *   /reset-password?token=             password reset (the token comes from the email)
+ *   /documents/:id?page=n              a document, optionally at a page
+ *   /documents/:id/chats/:sessionId    a chat session on that document
+ *   /shared/:shareId                   read-only shared chat, no sign-in needed
+ *   /oauth/callback, /verify-email     landing pages for OAuth and verification links
+ */
+
+import { OAUTH_CALLBACK_PATH } from './auth';
+
+export const PASSWORD_RESET_PATH = '/reset-password';
+export const EMAIL_VERIFICATION_PATH = '/verify-email';
+
+export type AppRoute =
+  | { name: 'home' }
+  | { name: 'login'; next?: string }
+  | { name: 'signup'; next?: string }
+  | { name: 'resetPassword'; token: string | null }
+  | { name: 'document'; documentId: string; sessionId?: string; page?: number }
+  | { name: 'shared'; shareId: string }
+  | { name: 'oauthCallback' }
+  | { name: 'verifyEmail' }
+  | { name: 'notFound' };
+
+export interface NavigateOptions {
+  // Replace the current history entry instead of adding one (e.g. for redirects)
+  replace?: boolean;
+}
+
+type RouteListener = (route: AppRoute) => void;
+
+// Routes that need a signed-in user
+const PROTECTED_ROUTES: ReadonlyArray<AppRoute['name']> = ['home', 'document'];
+
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+const parsePage = (value: string | null): number | undefined => {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : undefined;
+};
+
+// Only same-app paths are accepted as a post-login destination. Resolving against
+// our origin catches what a prefix check misses, e.g. "/\evil.com" parses as "//evil.com".
+const safeNext = (value: string | null): string | undefined => {
+  if (!value?.startsWith('/')) return undefined;
+  try {
+    const url = new URL(value, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Work out the route for a path and query string
+ */
+export function parseRoute(pathname: string, search: string = ''): AppRoute {
+  const params = new URLSearchParams(search);
+  const path = pathname.replace(/\/+$/, '') || '/';
+
+  switch (path) {
+    case '/':
+      return { name: 'home' };
+    case '/login':
+      return { name: 'login', next: safeNext(params.get('next')) };
+    case '/signup':
+      return { name: 'signup', next: safeNext(params.get('next')) };
+    case PASSWORD_RESET_PATH:
+      return { name: 'resetPassword', token: params.get('token') };
+    case OAUTH_CALLBACK_PATH:
+      return { name: 'oauthCallback' };
+    case EMAIL_VERIFICATION_PATH:
+      return { name: 'verifyEmail' };
+  }
+
+  const documentMatch = /^\/documents\/([^/]+)(?:\/chats\/([^/]+))?$/.exec(path);
+  if (documentMatch) {
+    const documentId = decodeSegment(documentMatch[1]);
+    const sessionId = documentMatch[2] === undefined ? undefined : decodeSegment(documentMatch[2]);
+    if (documentId && sessionId !== null) {
+      return { name: 'document', documentId, sessionId, page: parsePage(params.get('page')) };
+    }
+  }
+
+  const sharedMatch = /^\/shared\/([^/]+)$/.exec(path);
+  const shareId = sharedMatch && decodeSegment(sharedMatch[1]);
+  if (shareId) {
+    return { name: 'shared', shareId };
+  }
+
+  return { name: 'notFound' };
+}
+
+/**
+ * Path (with query string) that opens `route`
+ */
+export function buildPath(route: AppRoute): string {
+  const withQuery = (path: string, query: Record<string, string | number | null | undefined>) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== null && value !== undefined) params.set(key, String(value));
+    });
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+  };
+
+  switch (route.name) {
+    case 'home':
+    case 'notFound':
+      return '/';
+    case 'login':
+      return withQuery('/login', { next: route.next });
+    case 'signup':
+      return withQuery('/signup', { next: route.next });
+    case 'resetPassword':
+      return withQuery(PASSWORD_RESET_PATH, { token: route.token });
+    case 'document': {
+      const base = `/documents/${encodeURIComponent(route.documentId)}`;
+      const path = route.sessionId ? `${base}/chats/${encodeURIComponent(route.sessionId)}` : base;
+      return withQuery(path, { page: route.page && route.page > 1 ? route.page : undefined });
+    }
+    case 'shared':
+      return `/shared/${encodeURIComponent(route.shareId)}`;
+    case 'oauthCallback':
+      return OAUTH_CALLBACK_PATH;
+    case 'verifyEmail':
+      return EMAIL_VERIFICATION_PATH;
+  }
+}
+
+export const isProtectedRoute = (route: AppRoute): boolean => PROTECTED_ROUTES.includes(route.name);
+
+export class Router {
+  private static listeners = new Set<RouteListener>();
+  private static initialized = false;
+
+  /**
+   * Route for the current address bar
+   */
+  static current(): AppRoute {
+    return parseRoute(window.location.pathname, window.location.search);
+  }
+
+  /**
+   * Current path and query string, e.g. to come back to after signing in
+   */
+  static currentPath(): string {
+    return `${window.location.pathname}${window.location.search}`;
+  }
+
+  /**
+   * Go to a route or path. Listeners run for programmatic navigation as well
+   * as for the browser's back and forward buttons.
+   */
+  static navigate(target: AppRoute | string, { replace = false }: NavigateOptions = {}): void {
+    this.init();
+    const path = typeof target === 'string' ? target : buildPath(target);
+
+    // Going to the current path never adds a history entry
+    if (replace || path === this.currentPath()) {
+      window.history.replaceState(null, '', path);
+    } else {
+      window.history.pushState(null, '', path);
+    }
+    this.notify();
+  }
+
+  /**
+   * Listen for route changes. Returns an unsubscribe function.
+   */
+  static subscribe(listener: RouteListener): () => void {
+    this.init();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static init(): void {
+    if (this.initialized || typeof window === 'undefined') return;
+    this.initialized = true;
+    window.addEventListener('popstate', () => this.notify());
+  }
+
+  private static notify(): void {
+    const route = this.current();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(route);
+      } catch (error) {
+        console.error('Route listener failed:', error);
+      }
+    });
+  }
+}
+
+export default Router;
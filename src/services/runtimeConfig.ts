@@ -0,0 +1,149 @@
+/**
+ * Runtime Configuration
+ *
+ * Deployment settings read from /config.json (served next to index.html)
+ * before the app boots, so one image can be promoted between environments.
+ * The Docker image writes that file from container env at start-up; without
+ * it (e.g. `npm run dev`) the VITE_* build-time values are used instead.
+ */
+
+import { s, SchemaIssue } from './schema';
+
+export type OAuthProvider = 'google' | 'github';
+
+export interface FeatureToggles {
+  signup: boolean;
+  passwordReset: boolean;
+  // Hold back sharing and large uploads until the account's email is verified
+  requireVerifiedEmail: boolean;
+}
+
+export interface RuntimeConfig {
+  apiBaseUrl: string;
+  wsBaseUrl: string;
+  features: FeatureToggles;
+  oauthProviders: OAuthProvider[];
+  processingPollIntervalMs: number;
+  // Sign out after this long without activity (0 turns the idle timeout off)
+  idleTimeoutMs: number;
+  // How long before the idle sign-out the countdown dialog appears
+  idleWarningMs: number;
+}
+
+export const RUNTIME_CONFIG_URL = '/config.json';
+
+const OAUTH_PROVIDERS: readonly OAuthProvider[] = ['google', 'github'];
+
+export const OAUTH_PROVIDER_NAMES: Record<OAuthProvider, string> = {
+  google: 'Google',
+  github: 'GitHub',
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// ws(s):// twin of an http(s):// base, for configs that only set the API URL
+const toWebSocketUrl = (url: string) => url.replace(/^http(s?):\/\//i, 'ws$1://');
+
+const buildTimeApiBaseUrl = trimSlash(import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000');
+
+const BUILD_TIME_CONFIG: RuntimeConfig = {
+  apiBaseUrl: buildTimeApiBaseUrl,
+  wsBaseUrl: trimSlash(import.meta.env.VITE_WS_BASE_URL || toWebSocketUrl(buildTimeApiBaseUrl)),
+  features: {
+    signup: true,
+    passwordReset: true,
+    requireVerifiedEmail: false,
+  },
+  oauthProviders: [...OAUTH_PROVIDERS],
+  processingPollIntervalMs: 2000,
+  idleTimeoutMs: 30 * 60 * 1000,
+  idleWarningMs: 60 * 1000,
+};
+
+// Shape of /config.json: every key optional, unknown providers ignored
+interface RuntimeConfigFile {
+  apiBaseUrl?: string;
+  wsBaseUrl?: string;
+  features?: Partial<FeatureToggles>;
+  oauthProviders?: string[];
+  processingPollIntervalMs?: number;
+  idleTimeoutMs?: number;
+  idleWarningMs?: number;
+}
+
+const RuntimeConfigFileSchema = s.object<RuntimeConfigFile>({
+  apiBaseUrl: s.optional(s.string()),
+  wsBaseUrl: s.optional(s.string()),
+  features: s.optional(s.object<Partial<FeatureToggles>>({
+    signup: s.optional(s.boolean(BUILD_TIME_CONFIG.features.signup)),
+    passwordReset: s.optional(s.boolean(BUILD_TIME_CONFIG.features.passwordReset)),
+    requireVerifiedEmail: s.optional(s.boolean(BUILD_TIME_CONFIG.features.requireVerifiedEmail)),
+  })),
+  oauthProviders: s.optional(s.array(s.string())),
+  processingPollIntervalMs: s.optional(s.number(BUILD_TIME_CONFIG.processingPollIntervalMs)),
+  idleTimeoutMs: s.optional(s.number(BUILD_TIME_CONFIG.idleTimeoutMs)),
+  idleWarningMs: s.optional(s.number(BUILD_TIME_CONFIG.idleWarningMs)),
+});
+
+let runtimeConfig: RuntimeConfig = BUILD_TIME_CONFIG;
+
+function mergeConfig(file: unknown): RuntimeConfig {
+  const issues: SchemaIssue[] = [];
+  const overrides = RuntimeConfigFileSchema.decode(file, 'config', issues);
+  if (issues.length > 0) {
+    console.warn(`⚠️ Ignoring invalid values in ${RUNTIME_CONFIG_URL}:`, issues);
+  }
+
+  // Empty strings mean "not set", so a template with blank env vars keeps the defaults
+  const apiBaseUrl = overrides.apiBaseUrl ? trimSlash(overrides.apiBaseUrl) : BUILD_TIME_CONFIG.apiBaseUrl;
+  const wsBaseUrl = overrides.wsBaseUrl
+    ? trimSlash(overrides.wsBaseUrl)
+    : overrides.apiBaseUrl ? toWebSocketUrl(apiBaseUrl) : BUILD_TIME_CONFIG.wsBaseUrl;
+
+  return {
+    apiBaseUrl,
+    wsBaseUrl,
+    features: { ...BUILD_TIME_CONFIG.features, ...overrides.features },
+    oauthProviders: overrides.oauthProviders
+      ? OAUTH_PROVIDERS.filter((provider) => overrides.oauthProviders?.includes(provider))
+      : BUILD_TIME_CONFIG.oauthProviders,
+    processingPollIntervalMs: Math.max(500, overrides.processingPollIntervalMs ?? BUILD_TIME_CONFIG.processingPollIntervalMs),
+    idleTimeoutMs: Math.max(0, overrides.idleTimeoutMs ?? BUILD_TIME_CONFIG.idleTimeoutMs),
+    idleWarningMs: Math.max(0, overrides.idleWarningMs ?? BUILD_TIME_CONFIG.idleWarningMs),
+  };
+}
+
+/**
+ * Fetch /config.json and make it the active configuration. Call once before
+ * importing anything that talks to the API; a missing or broken file falls
+ * back to the build-time values so local development needs no config file.
+ */
+export async function loadRuntimeConfig(url: string = RUNTIME_CONFIG_URL): Promise<RuntimeConfig> {
+  try {
+    const response = await fetch(url, { cache: 'no-store', headers: { Accept: 'application/json' } });
+    const contentType = response.headers.get('content-type') || '';
+
+    // Dev servers answer unknown paths with index.html, which is as good as a 404 here
+    if (response.ok && contentType.includes('json')) {
+      runtimeConfig = mergeConfig(await response.json());
+      console.log('⚙️ Runtime config loaded:', runtimeConfig.apiBaseUrl);
+    } else {
+      console.log('⚙️ No runtime config found, using build-time settings');
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to load runtime config, using build-time settings:', error);
+  }
+
+  return runtimeConfig;
+}
+
+/**
+ * Active configuration (build-time values until loadRuntimeConfig resolves)
+ */
+export function getRuntimeConfig(): RuntimeConfig {
+  return runtimeConfig;
+}
+
+export function isFeatureEnabled(feature: keyof FeatureToggles): boolean {
+  return runtimeConfig.features[feature];
+}
@@ -0,0 +1,202 @@
+/**
+ * Response Schemas
+ *
+ * Lightweight runtime decoders for API responses. A schema checks a value
+ * against the shape the frontend expects; on a mismatch it records the field
+ * and substitutes a fallback, so backend drift degrades a component instead
+ * of crashing it. All mismatches in one response are reported together.
+ */
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  decode(value: unknown, path: string, issues: SchemaIssue[]): T;
+}
+
+// Short description of a received value for diagnostics
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined (missing)';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') return 'object';
+
+  const text = JSON.stringify(value) ?? String(value);
+  return `${typeof value} ${text.length > 40 ? `${text.slice(0, 37)}...` : text}`;
+};
+
+const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+const primitive = <T>(expected: string, check: (value: unknown) => value is T, fallback: T): Schema<T> => ({
+  expected,
+  decode(value, path, issues) {
+    if (check(value)) return value;
+    issues.push({ path, expected, received: describe(value) });
+    return fallback;
+  },
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const s = {
+  string: (fallback: string = ''): Schema<string> =>
+    primitive('string', (value): value is string => typeof value === 'string', fallback),
+
+  number: (fallback: number = 0): Schema<number> =>
+    primitive('number', (value): value is number => typeof value === 'number' && !Number.isNaN(value), fallback),
+
+  boolean: (fallback: boolean = false): Schema<boolean> =>
+    primitive('boolean', (value): value is boolean => typeof value === 'boolean', fallback),
+
+  // Free-form payloads (metadata, context blobs) that the frontend doesn't inspect
+  any: <T = any>(): Schema<T> => ({
+    expected: 'any',
+    decode: (value) => value as T,
+  }),
+
+  dict: <T = any>(): Schema<Record<string, T>> =>
+    primitive('object', isPlainObject as (value: unknown) => value is Record<string, T>, {}),
+
+  oneOf: <T extends string>(values: readonly T[], fallback: T): Schema<T> =>
+    primitive(
+      values.map((value) => JSON.stringify(value)).join(' | '),
+      (value): value is T => values.includes(value as T),
+      fallback
+    ),
+
+  nullable: <T>(schema: Schema<T>): Schema<T | null> => ({
+    expected: `${schema.expected} | null`,
+    decode(value, path, issues) {
+      return value === null ? null : schema.decode(value, path, issues);
+    },
+  }),
+
+  // Field may be absent; a present-but-null value is treated as absent too
+  optional: <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    expected: `${schema.expected} | undefined`,
+    decode(value, path, issues) {
+      return value === undefined || value === null ? undefined : schema.decode(value, path, issues);
+    },
+  }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    expected: `${item.expected}[]`,
+    decode(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: `${item.expected}[]`, received: describe(value) });
+        return [];
+      }
+      return value.map((entry, index) => item.decode(entry, joinPath(path, index), issues));
+    },
+  }),
+
+  /**
+   * Object with a schema for every field of T. Fields the schema doesn't
+   * mention are passed through untouched.
+   */
+  object: <T>(shape: { [K in keyof Required<T>]: Schema<T[K]> }): Schema<T> => ({
+    expected: 'object',
+    decode(value, path, issues) {
+      if (!isPlainObject(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+      }
+      const source = isPlainObject(value) ? value : {};
+      const decoded: Record<string, unknown> = { ...source };
+
+      (Object.keys(shape) as Array<keyof T & string>).forEach((key) => {
+        const result = shape[key].decode(source[key], joinPath(path, key), issues);
+        if (result === undefined) {
+          delete decoded[key];
+        } else {
+          decoded[key] = result;
+        }
+      });
+      return decoded as T;
+    },
+  }),
+
+  /**
+   * `base` plus the extra fields in `shape`, for responses that add to an
+   * existing type (e.g. a document with its owner)
+   */
+  extend: <B, T extends B>(
+    base: Schema<B>,
+    shape: { [K in Exclude<keyof Required<T>, keyof B>]: Schema<T[K]> }
+  ): Schema<T> => ({
+    expected: base.expected,
+    decode(value, path, issues) {
+      const decoded = base.decode(value, path, issues) as Record<string, unknown>;
+      (Object.keys(shape) as Array<keyof typeof shape & string>).forEach((key) => {
+        const result = (shape[key] as Schema<unknown>).decode(decoded[key], joinPath(path, key), issues);
+        if (result === undefined) {
+          delete decoded[key];
+        } else {
+          decoded[key] = result;
+        }
+      });
+      return decoded as T;
+    },
+  }),
+
+  // Standard DRF page: { count, next, previous, results }
+  paginated: <T>(item: Schema<T>): Schema<Paginated<T>> =>
+    s.object<Paginated<T>>({
+      count: s.number(),
+      next: s.nullable(s.string()),
+      previous: s.nullable(s.string()),
+      results: s.array(item),
+    }),
+};
+
+export interface Paginated<T> {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: T[];
+}
+
+// Each distinct mismatch is reported once, so polling doesn't flood the console
+const reportedMismatches = new Set<string>();
+
+function reportContractMismatch(endpoint: string, issues: SchemaIssue[]): void {
+  // Collapse array indexes so one drifted field in a 50-item list is a single line
+  const grouped = new Map<string, { issue: SchemaIssue; count: number }>();
+  issues.forEach((issue) => {
+    const field = issue.path.replace(/\[\d+\]/g, '[]') || '(root)';
+    const entry = grouped.get(field);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      grouped.set(field, { issue, count: 1 });
+    }
+  });
+
+  const key = `${endpoint.replace(/\?.*$/, '')}|${[...grouped.keys()].join(',')}`;
+  if (reportedMismatches.has(key)) return;
+  reportedMismatches.add(key);
+
+  const lines = [...grouped.entries()].map(([field, { issue, count }]) =>
+    `  ${field}: expected ${issue.expected}, received ${issue.received}${count > 1 ? ` (${count} items)` : ''}`
+  );
+  console.warn(`⚠️ API contract mismatch in ${endpoint}:\n${lines.join('\n')}`);
+}
+
+/**
+ * Decode a response body, reporting any contract mismatches for `endpoint`
+ */
+export function decodeResponse<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+  const issues: SchemaIssue[] = [];
+  const value = schema.decode(data, '', issues);
+  if (issues.length > 0) {
+    reportContractMismatch(endpoint, issues);
+  }
+  return value;
+}
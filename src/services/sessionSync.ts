@@ -0,0 +1,91 @@
+/**
+ * Session Sync Service
+ *
+ * Broadcasts auth events (login, logout, token refresh, profile changes)
+ * to every open tab of the app. Uses BroadcastChannel where available and
+ * falls back to localStorage `storage` events.
+ */
+
+import type { User } from './auth';
+
+// Why a session ended without the user logging out: the refresh token ran out, it was
+// signed out from another device, or the idle timeout fired
+export type SessionEndReason = 'expired' | 'revoked' | 'idle';
+
+export type SessionSyncEvent =
+  | { type: 'login'; user: User }
+  | { type: 'logout'; reason?: SessionEndReason }
+  | { type: 'token_refresh' }
+  | { type: 'profile_update'; user: User };
+
+type SessionSyncListener = (event: SessionSyncEvent) => void;
+
+const CHANNEL_NAME = 'chatpdf-session';
+const STORAGE_EVENT_KEY = 'chatpdf_session_event';
+
+export class SessionSync {
+  private static channel: BroadcastChannel | null = null;
+  private static listeners = new Set<SessionSyncListener>();
+  private static initialized = false;
+
+  /**
+   * Send an event to all other tabs (the sending tab does not receive it)
+   */
+  static broadcast(event: SessionSyncEvent): void {
+    this.init();
+
+    if (this.channel) {
+      this.channel.postMessage(event);
+      return;
+    }
+
+    try {
+      // Writing then removing the key fires a `storage` event in every other tab
+      localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ event, sentAt: Date.now() }));
+      localStorage.removeItem(STORAGE_EVENT_KEY);
+    } catch (error) {
+      console.warn('Failed to broadcast session event:', error);
+    }
+  }
+
+  /**
+   * Listen for events from other tabs. Returns an unsubscribe function.
+   */
+  static subscribe(listener: SessionSyncListener): () => void {
+    this.init();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static init(): void {
+    if (this.initialized || typeof window === 'undefined') return;
+    this.initialized = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<SessionSyncEvent>) => {
+        this.dispatch(message.data);
+      };
+      return;
+    }
+
+    window.addEventListener('storage', (storageEvent) => {
+      if (storageEvent.key !== STORAGE_EVENT_KEY || !storageEvent.newValue) return;
+
+      try {
+        const { event } = JSON.parse(storageEvent.newValue);
+        this.dispatch(event);
+      } catch (error) {
+        console.error('Failed to parse session event:', error);
+      }
+    });
+  }
+
+  private static dispatch(event: SessionSyncEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+export default SessionSync;
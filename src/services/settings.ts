@@ -4,9 +4,8 @@
  * Handles fetching and updating user preferences and AI settings.
  */
 
-import { TokenManager } from './api';
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
+import { apiClient, API_CONFIG, RequestOptions } from './api';
+import { s } from './schema';
 
 export interface UserSettings {
   ai_model: string;
@@ -29,33 +28,26 @@ export interface UpdateSettingsPayload {
   dark_mode?: boolean;
 }
 
+export const UserSettingsSchema = s.object<UserSettings>({
+  ai_model: s.string('standard'),
+  temperature: s.number(0.7),
+  context_length: s.number(4000),
+  auto_save: s.boolean(true),
+  page_references: s.boolean(true),
+  notifications: s.boolean(true),
+  dark_mode: s.boolean(false),
+  updated_at: s.string(),
+});
+
 /**
  * Fetch user settings from the backend
  */
-export async function getUserSettings(): Promise<UserSettings> {
-  const token = TokenManager.getAccessToken();
-  
-  if (!token) {
-    throw new Error('No authentication token found');
-  }
-  
-  const response = await fetch(`${API_BASE_URL}/api/auth/settings/`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    }
+export async function getUserSettings(options: RequestOptions = {}): Promise<UserSettings> {
+  const settings = await apiClient.get(API_CONFIG.ENDPOINTS.AUTH.SETTINGS, {
+    ...options,
+    schema: UserSettingsSchema,
   });
   
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error('Authentication expired. Please log in again.');
-    }
-    throw new Error('Failed to fetch settings');
-  }
-  
-  const settings = await response.json();
-  
   // Store in localStorage for offline access
   localStorage.setItem('user_settings', JSON.stringify(settings));
   
@@ -65,39 +57,16 @@ export async function getUserSettings(): Promise<UserSettings> {
 /**
  * Update user settings on the backend
  */
-export async function updateUserSettings(settings: UpdateSettingsPayload): Promise<UserSettings> {
-  const token = TokenManager.getAccessToken();
-  
-  if (!token) {
-    throw new Error('No authentication token found');
-  }
-  
-  const response = await fetch(`${API_BASE_URL}/api/auth/settings/`, {
-    method: 'PATCH',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(settings)
-  });
-  
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error('Authentication expired. Please log in again.');
-    }
-    
-    if (response.status === 400) {
-      const errorData = await response.json();
-      const errorMessages = Object.entries(errorData)
-        .map(([field, messages]) => `${field}: ${messages}`)
-        .join(', ');
-      throw new Error(errorMessages);
-    }
-    
-    throw new Error('Failed to update settings');
-  }
-  
-  const updatedSettings = await response.json();
+export async function updateUserSettings(
+  settings: UpdateSettingsPayload,
+  options: RequestOptions = {}
+): Promise<UserSettings> {
+  const updatedSettings = await apiClient.patch(
+    API_CONFIG.ENDPOINTS.AUTH.SETTINGS,
+    settings,
+    { ...options, schema: UserSettingsSchema }
+  );
+  apiClient.invalidate(API_CONFIG.ENDPOINTS.AUTH.SETTINGS);
   
   // Update localStorage
   localStorage.setItem('user_settings', JSON.stringify(updatedSettings));
@@ -0,0 +1,75 @@
+/**
+ * Token Storage Backends
+ *
+ * Storage strategies used by TokenManager to hold auth tokens:
+ * - persistent: localStorage, survives browser restarts ("remember me")
+ * - session: sessionStorage, cleared when the tab/browser session ends
+ * - memory: in-memory only, lost on reload
+ */
+
+export type TokenStorageMode = 'persistent' | 'session' | 'memory';
+
+export interface TokenStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// Wraps Web Storage so quota errors or disabled storage never break auth
+class WebTokenStorage implements TokenStorage {
+  constructor(private getStorage: () => Storage) {}
+
+  getItem(key: string): string | null {
+    try {
+      return this.getStorage().getItem(key);
+    } catch (error) {
+      console.error('Failed to read token storage:', error);
+      return null;
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    try {
+      this.getStorage().setItem(key, value);
+    } catch (error) {
+      console.error('Failed to write token storage:', error);
+    }
+  }
+
+  removeItem(key: string): void {
+    try {
+      this.getStorage().removeItem(key);
+    } catch (error) {
+      console.error('Failed to clear token storage:', error);
+    }
+  }
+}
+
+class MemoryTokenStorage implements TokenStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+export const TOKEN_STORAGE_BACKENDS: Record<TokenStorageMode, TokenStorage> = {
+  persistent: new WebTokenStorage(() => localStorage),
+  session: new WebTokenStorage(() => sessionStorage),
+  memory: new MemoryTokenStorage(),
+};
+
+/**
+ * Backend used when the user logs in without "remember me".
+ * Set VITE_EPHEMERAL_TOKEN_STORAGE=memory to also drop tokens on reload.
+ */
+export const EPHEMERAL_TOKEN_STORAGE_MODE: TokenStorageMode =
+  import.meta.env.VITE_EPHEMERAL_TOKEN_STORAGE === 'memory' ? 'memory' : 'session';
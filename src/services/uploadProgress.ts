@@ -0,0 +1,72 @@
+/**
+ * Upload Progress
+ *
+ * Turns the transport's raw progress events into what the UI shows: bytes
+ * sent, percentage, transfer speed and time remaining. Speed is measured over
+ * a short sliding window so it follows changes without jumping on every event.
+ */
+
+import type { AxiosProgressEvent } from 'axios';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  // 0-100
+  percent: number;
+  // null until there's enough of a sample to estimate
+  bytesPerSecond: number | null;
+  secondsRemaining: number | null;
+}
+
+// How far back speed samples are kept
+const SPEED_WINDOW_MS = 3000;
+// Shortest span of samples a speed is estimated from
+const MIN_SAMPLE_SPAN_MS = 250;
+
+/**
+ * Total size of the files and blobs in a form, for transports that don't report one
+ */
+export function formDataSize(formData: FormData): number {
+  let size = 0;
+  formData.forEach((value) => {
+    size += typeof value === 'string' ? value.length : value.size;
+  });
+  return size;
+}
+
+/**
+ * Build an onUploadProgress handler that reports UploadProgress to `onProgress`.
+ * `fallbackTotal` is used when the event has no total (length not computable).
+ */
+export function createUploadProgressTracker(
+  onProgress: (progress: UploadProgress) => void,
+  fallbackTotal: number = 0,
+  now: () => number = Date.now
+): (event: AxiosProgressEvent) => void {
+  const samples: Array<{ time: number; loaded: number }> = [];
+
+  return (event: AxiosProgressEvent) => {
+    const time = now();
+    const total = event.total || fallbackTotal;
+    const loaded = total ? Math.min(event.loaded, total) : event.loaded;
+
+    samples.push({ time, loaded });
+    while (samples.length > 2 && time - samples[0].time > SPEED_WINDOW_MS) {
+      samples.shift();
+    }
+
+    const oldest = samples[0];
+    const span = time - oldest.time;
+    const bytesPerSecond = span >= MIN_SAMPLE_SPAN_MS ? ((loaded - oldest.loaded) / span) * 1000 : null;
+    const remaining = total - loaded;
+
+    onProgress({
+      loaded,
+      total,
+      percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
+      bytesPerSecond,
+      secondsRemaining:
+        remaining <= 0 ? 0 : bytesPerSecond ? Math.ceil(remaining / bytesPerSecond) : null,
+    });
+  };
+}
@@ -4,6 +4,17 @@
  * Common utilities, helpers, and WebSocket management.
  */
 
+import {
+  AuthExpiredError,
+  NetworkError,
+  NotFoundError,
+  PermissionDeniedError,
+  QuotaExceededError,
+  RateLimitedError,
+  ServerError,
+  ValidationError,
+} from './errors';
+
 // File type validation
 export const SUPPORTED_FILE_TYPES = {
   'application/pdf': ['.pdf'],
@@ -13,6 +24,7 @@ export const SUPPORTED_FILE_TYPES = {
 } as const;
 
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const UNVERIFIED_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB until the email is verified (when required)
 
 // File validation utilities
 export class FileValidator {
@@ -21,15 +33,15 @@ export class FileValidator {
     return supportedTypes.includes(file.type);
   }
 
-  static validateFileSize(file: File): boolean {
-    return file.size <= MAX_FILE_SIZE;
+  static validateFileSize(file: File, maxSize: number = MAX_FILE_SIZE): boolean {
+    return file.size <= maxSize;
   }
 
   static getFileExtension(filename: string): string {
     return filename.toLowerCase().substring(filename.lastIndexOf('.'));
   }
 
-  static isValidFile(file: File): { valid: boolean; error?: string } {
+  static isValidFile(file: File, maxSize: number = MAX_FILE_SIZE): { valid: boolean; error?: string } {
     if (!this.validateFileType(file)) {
       return {
         valid: false,
@@ -37,10 +49,10 @@ export class FileValidator {
       };
     }
 
-    if (!this.validateFileSize(file)) {
+    if (!this.validateFileSize(file, maxSize)) {
       return {
         valid: false,
-        error: `File size exceeds maximum limit of ${Math.round(MAX_FILE_SIZE / (1024 * 1024))}MB`
+        error: `File size exceeds maximum limit of ${Math.round(maxSize / (1024 * 1024))}MB`
       };
     }
 
@@ -172,6 +184,17 @@ export class StorageUtils {
 }
 
 // Error handling utilities
+export type ErrorType =
+  | 'network'
+  | 'auth'
+  | 'permission'
+  | 'validation'
+  | 'not_found'
+  | 'rate_limited'
+  | 'quota'
+  | 'server'
+  | 'unknown';
+
 export class ErrorUtils {
   static getErrorMessage(error: any): string {
     if (typeof error === 'string') return error;
@@ -180,6 +203,12 @@ export class ErrorUtils {
     if (error?.errors?.non_field_errors?.length > 0) {
       return error.errors.non_field_errors[0];
     }
+
+    // Bare "HTTP 400" is unhelpful; surface the first field error instead
+    if (error instanceof ValidationError && /^HTTP \d+$/.test(error.message)) {
+      const [field, messages] = Object.entries(error.fieldErrors)[0] || [];
+      if (field && messages?.length) return `${field}: ${messages[0]}`;
+    }
     
     // Handle other error formats
     if (error?.message) return error.message;
@@ -188,27 +217,86 @@ export class ErrorUtils {
     return 'An unexpected error occurred';
   }
 
+  static isAbortError(error: any): boolean {
+    return error?.name === 'CanceledError' || error?.name === 'AbortError';
+  }
+
   static isNetworkError(error: any): boolean {
-    return error?.name === 'NetworkError' || 
-           error?.message?.includes('fetch') ||
-           error?.message?.includes('network');
+    return error instanceof NetworkError;
+  }
+
+  /**
+   * Whether the failed request is worth repeating (see ApiException.retryable)
+   */
+  static isRetryable(error: any): boolean {
+    return !!error?.retryable;
   }
 
-  static getErrorType(error: any): 'network' | 'auth' | 'validation' | 'server' | 'unknown' {
-    if (this.isNetworkError(error)) return 'network';
-    if (error?.status === 401 || error?.status === 403) return 'auth';
-    if (error?.status >= 400 && error?.status < 500) return 'validation';
-    if (error?.status >= 500) return 'server';
+  static getErrorType(error: any): ErrorType {
+    if (error instanceof NetworkError) return 'network';
+    if (error instanceof AuthExpiredError) return 'auth';
+    if (error instanceof PermissionDeniedError) return 'permission';
+    if (error instanceof ValidationError) return 'validation';
+    if (error instanceof NotFoundError) return 'not_found';
+    if (error instanceof RateLimitedError) return 'rate_limited';
+    if (error instanceof QuotaExceededError) return 'quota';
+    if (error instanceof ServerError) return 'server';
     return 'unknown';
   }
 }
 
+// URL utilities
+type EndpointEntry = string | ((id: string) => string);
+export type EndpointTree = { [key: string]: EndpointEntry | EndpointTree };
+
+export class UrlUtils {
+  /**
+   * Regex matching the paths produced by an API_CONFIG.ENDPOINTS entry.
+   * Parameterised entries match (and capture) any id segment.
+   */
+  static endpointPattern(entry: EndpointEntry): RegExp {
+    const path = typeof entry === 'function' ? entry('\u0000') : entry;
+    const source = path
+      .split('\u0000')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('([^/]+)');
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Build a lookup from request URL to the value configured for its endpoint
+   * entry. Values are keyed by entry path, e.g. 'RAG.SEARCH' or 'DOCUMENTS.DETAIL';
+   * the query string is ignored and the first matching entry wins.
+   */
+  static endpointResolver<T>(endpoints: EndpointTree, values: Record<string, T>): (url: string | undefined) => T | undefined {
+    const matchers: Array<{ pattern: RegExp; value: T }> = [];
+
+    const walk = (tree: EndpointTree, prefix: string) => {
+      Object.entries(tree).forEach(([key, entry]) => {
+        const name = prefix ? `${prefix}.${key}` : key;
+        if (typeof entry === 'object') {
+          walk(entry, name);
+        } else if (name in values) {
+          matchers.push({ pattern: UrlUtils.endpointPattern(entry), value: values[name] });
+        }
+      });
+    };
+    walk(endpoints, '');
+
+    return (url) => {
+      const path = (url || '').split('?')[0];
+      return matchers.find(({ pattern }) => pattern.test(path))?.value;
+    };
+  }
+}
+
 // Retry utility
 export class RetryUtils {
   static async withRetry<T>(
     fn: () => Promise<T>,
     maxAttempts: number = 3,
-    delay: number = 1000
+    delay: number = 1000,
+    shouldRetry: (error: any) => boolean = (error) => ErrorUtils.isRetryable(error)
   ): Promise<T> {
     let lastError: any;
 
@@ -218,12 +306,15 @@ export class RetryUtils {
       } catch (error) {
         lastError = error;
         
-        if (attempt === maxAttempts) {
+        if (attempt === maxAttempts || !shouldRetry(error)) {
           throw error;
         }
 
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, delay * attempt));
+        // Wait before retry, honouring the server's Retry-After when rate limited
+        const wait = error instanceof RateLimitedError && error.retryAfterMs !== null
+          ? error.retryAfterMs
+          : delay * attempt;
+        await new Promise(resolve => setTimeout(resolve, wait));
       }
     }
 
@@ -231,6 +322,40 @@ export class RetryUtils {
   }
 }
 
+// Abort controller bookkeeping for "latest call wins" actions
+export class AbortScope {
+  private controllers = new Map<string, AbortController>();
+
+  /**
+   * Abort the previous request under this key and return a signal for the next one
+   */
+  next(key: string): AbortSignal {
+    this.controllers.get(key)?.abort();
+    const controller = new AbortController();
+    this.controllers.set(key, controller);
+    return controller.signal;
+  }
+
+  /**
+   * Forget the controller for a key once its request settles (if it wasn't superseded)
+   */
+  release(key: string, signal: AbortSignal): void {
+    if (this.controllers.get(key)?.signal === signal) {
+      this.controllers.delete(key);
+    }
+  }
+
+  abort(key: string): void {
+    this.controllers.get(key)?.abort();
+    this.controllers.delete(key);
+  }
+
+  abortAll(): void {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+  }
+}
+
 // Debounce utility
 export class DebounceUtils {
   private static timeouts = new Map<string, number>();
@@ -384,7 +509,9 @@ export default {
   TextUtils,
   StorageUtils,
   ErrorUtils,
+  UrlUtils,
   RetryUtils,
+  AbortScope,
   DebounceUtils,
   WebSocketManager,
   PerformanceUtils,
@@ -5,9 +5,25 @@
  */
 
 import { create } from 'zustand';
-import { devtools, persist } from 'zustand/middleware';
-import { AuthService, User, LoginCredentials, RegisterData, ProfileUpdateData } from '../services/auth';
-import { TokenManager } from '../services/api';
+import { devtools, persist, createJSONStorage } from 'zustand/middleware';
+import {
+  AuthService,
+  User,
+  LoginCredentials,
+  RegisterData,
+  ProfileUpdateData,
+  OAuthCallbackResult,
+  TwoFactorChallenge,
+  TwoFactorVerifyData,
+  isTwoFactorChallenge,
+  AccountDeletionData,
+} from '../services/auth';
+import type { OAuthProvider } from '../services/runtimeConfig';
+import { TokenManager, apiClient } from '../services/api';
+import { AuthExpiredError, PermissionDeniedError } from '../services/errors';
+import { ChatService, WebSocketChatClient } from '../services/chat';
+import { SessionSync } from '../services/sessionSync';
+import type { SessionEndReason } from '../services/sessionSync';
 import { useDocumentsStore } from './documentsStore'; // Import for resetting on logout
 
 export interface AuthState {
@@ -16,16 +32,59 @@ export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  // False until checkAuth has confirmed (or ruled out) the stored session; not persisted
+  hasCheckedAuth: boolean;
+  // Set when the session ended without the user logging out (shown on the login screen), cleared on the next sign-in
+  sessionEndReason: SessionEndReason | null;
   
   // Actions
-  login: (credentials: LoginCredentials) => Promise<void>;
+  // Resolves with a challenge when the account needs a second factor (see verifyTwoFactor)
+  login: (credentials: LoginCredentials) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (data: TwoFactorVerifyData) => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
-  logout: () => Promise<void>;
+  // `reason` is shown on the login screen, e.g. 'idle' after the idle timeout
+  logout: (reason?: SessionEndReason) => Promise<void>;
   checkAuth: () => Promise<void>;
   clearError: () => void;
   updateProfile: (data: ProfileUpdateData) => Promise<void>;
+  completeOAuth: (params: URLSearchParams) => Promise<OAuthCallbackResult>;
+  unlinkOAuthProvider: (provider: OAuthProvider) => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  refreshProfile: () => Promise<void>;
+  deleteAccount: (data: AccountDeletionData) => Promise<void>;
 }
 
+// The user as it will look once a profile update is saved, shown while the request is in flight
+const applyProfileUpdate = (user: User, data: ProfileUpdateData, avatarUrl: string | null): User => {
+  const first_name = data.first_name ?? user.first_name;
+  const last_name = data.last_name ?? user.last_name;
+  return {
+    ...user,
+    first_name,
+    last_name,
+    full_name: `${first_name} ${last_name}`.trim(),
+    initials: `${first_name[0] || ''}${last_name[0] || ''}`.toUpperCase(),
+    ...(avatarUrl && { avatar: avatarUrl, avatar_url: avatarUrl }),
+  };
+};
+
+// The fields a profile update changes, as they were before it
+const profileFieldsTouched = (user: User, data: ProfileUpdateData): Partial<User> => ({
+  ...((data.first_name !== undefined || data.last_name !== undefined) && {
+    first_name: user.first_name,
+    last_name: user.last_name,
+    full_name: user.full_name,
+    initials: user.initials,
+  }),
+  ...(data.avatar && { avatar: user.avatar, avatar_url: user.avatar_url }),
+});
+
+// Close live connections and drop cached data when the session ends (here or in another tab)
+const teardownSession = () => {
+  WebSocketChatClient.disconnectAll();
+  useDocumentsStore.getState().reset();
+};
+
 export const useAuthStore = create<AuthState>()(
   devtools(
     persist(
@@ -35,18 +94,28 @@ export const useAuthStore = create<AuthState>()(
         isAuthenticated: false,
         isLoading: false,
         error: null,
+        hasCheckedAuth: false,
+        sessionEndReason: null,
 
         // Login action
         login: async (credentials: LoginCredentials) => {
           set({ isLoading: true, error: null });
           try {
             const response = await AuthService.login(credentials);
+            if (isTwoFactorChallenge(response)) {
+              set({ isLoading: false });
+              return response;
+            }
+
             set({ 
               user: response.user, 
               isAuthenticated: true, 
               isLoading: false,
-              error: null
+              error: null,
+              sessionEndReason: null
             });
+            SessionSync.broadcast({ type: 'login', user: response.user });
+            return null;
           } catch (error: any) {
             // Import ErrorUtils for proper error handling
             const { ErrorUtils } = await import('../services');
@@ -62,6 +131,25 @@ export const useAuthStore = create<AuthState>()(
           }
         },
 
+        // Second login step for accounts with 2FA
+        verifyTwoFactor: async (data: TwoFactorVerifyData) => {
+          set({ isLoading: true, error: null });
+          try {
+            const response = await AuthService.verifyTwoFactor(data);
+            set({
+              user: response.user,
+              isAuthenticated: true,
+              isLoading: false,
+              error: null,
+              sessionEndReason: null
+            });
+            SessionSync.broadcast({ type: 'login', user: response.user });
+          } catch (error: any) {
+            set({ isLoading: false });
+            throw error;
+          }
+        },
+
         // Register action
         register: async (data: RegisterData) => {
           set({ isLoading: true, error: null });
@@ -70,8 +158,10 @@ export const useAuthStore = create<AuthState>()(
             set({ 
               user: response.user, 
               isAuthenticated: true, 
-              isLoading: false 
+              isLoading: false,
+              sessionEndReason: null
             });
+            SessionSync.broadcast({ type: 'login', user: response.user });
           } catch (error: any) {
             set({ 
               error: error.message || 'Registration failed', 
@@ -82,22 +172,30 @@ export const useAuthStore = create<AuthState>()(
         },
 
         // Logout action
-        logout: async () => {
+        logout: async (reason?: SessionEndReason) => {
+          const userId = get().user?.id;
           try {
             await AuthService.logout();
           } catch (error) {
             // Silent fail for logout
           }
+
+          // Signing out on purpose leaves nothing unsent behind; drafts only outlive an idle sign-out
+          if (!reason && userId !== undefined) {
+            ChatService.clearDrafts(userId);
+          }
           
           // Reset auth state
           set({ 
             user: null, 
             isAuthenticated: false, 
-            error: null 
+            error: null,
+            sessionEndReason: reason ?? null
           });
           
-          // Reset documents store
-          useDocumentsStore.getState().reset();
+          // Close chat sockets and reset documents store
+          teardownSession();
+          SessionSync.broadcast({ type: 'logout', reason });
           console.log('🚪 Logout complete - all stores reset');
         },
 
@@ -110,20 +208,33 @@ export const useAuthStore = create<AuthState>()(
               set({ 
                 user, 
                 isAuthenticated: true, 
-                isLoading: false 
+                isLoading: false,
+                hasCheckedAuth: true
               });
             } else {
               set({ 
                 user: null, 
                 isAuthenticated: false, 
-                isLoading: false 
+                isLoading: false,
+                hasCheckedAuth: true
               });
             }
           } catch (error: any) {
+            // Only a rejected session ends it; being offline or a flaky server shouldn't log the user out
+            if (
+              !(error instanceof AuthExpiredError || error instanceof PermissionDeniedError) &&
+              TokenManager.isAuthenticated()
+            ) {
+              console.warn('⚠️ Could not verify session, keeping cached user:', error);
+              set({ isAuthenticated: true, isLoading: false, hasCheckedAuth: true });
+              return;
+            }
+
             set({ 
               user: null, 
               isAuthenticated: false, 
               isLoading: false,
+              hasCheckedAuth: true,
               error: error.message || 'Authentication check failed'
             });
           }
@@ -134,26 +245,93 @@ export const useAuthStore = create<AuthState>()(
           set({ error: null });
         },
 
-        // Update profile
+        // Update profile optimistically: the change shows at once and is undone if the server rejects it
         updateProfile: async (data: ProfileUpdateData) => {
-          set({ isLoading: true, error: null });
+          const previousUser = get().user;
+          const avatarPreview = data.avatar ? URL.createObjectURL(data.avatar) : null;
+          if (previousUser) {
+            set({ user: applyProfileUpdate(previousUser, data, avatarPreview), error: null });
+          }
+
           try {
             const updatedUser = await AuthService.updateProfile(data);
-            set({ 
-              user: updatedUser, 
-              isLoading: false 
+            set({ user: updatedUser });
+            SessionSync.broadcast({ type: 'profile_update', user: updatedUser });
+          } catch (error: any) {
+            // Restore only what this update changed, so an overlapping save isn't undone with it
+            const currentUser = get().user;
+            set({
+              user: currentUser && previousUser ? { ...currentUser, ...profileFieldsTouched(previousUser, data) } : currentUser,
+              error: error.message || 'Profile update failed',
             });
+            throw error;
+          } finally {
+            if (avatarPreview) URL.revokeObjectURL(avatarPreview);
+          }
+        },
+
+        // Finish an OAuth sign-in or account link on the callback page
+        completeOAuth: async (params: URLSearchParams) => {
+          set({ isLoading: true, error: null });
+          try {
+            const result = await AuthService.completeOAuth(params);
+            set({
+              user: result.user,
+              isAuthenticated: true,
+              isLoading: false,
+              sessionEndReason: null,
+            });
+            SessionSync.broadcast({ type: result.mode === 'login' ? 'login' : 'profile_update', user: result.user });
+            return result;
           } catch (error: any) {
-            set({ 
-              error: error.message || 'Profile update failed', 
-              isLoading: false 
+            set({
+              error: error.message || 'Sign-in failed',
+              isLoading: false,
             });
             throw error;
           }
         },
+
+        // Disconnect a Google/GitHub account
+        unlinkOAuthProvider: async (provider: OAuthProvider) => {
+          const updatedUser = await AuthService.unlinkOAuthProvider(provider);
+          set({ user: updatedUser });
+          SessionSync.broadcast({ type: 'profile_update', user: updatedUser });
+        },
+
+        // Confirm an email verification link, then pick up the new is_email_verified flag
+        verifyEmail: async (token: string) => {
+          await AuthService.verifyEmail(token);
+          if (TokenManager.isAuthenticated()) {
+            await get().refreshProfile();
+          }
+        },
+
+        // Re-read the user after a server-side change (e.g. 2FA turned on or off)
+        refreshProfile: async () => {
+          const updatedUser = await AuthService.getProfile();
+          set({ user: updatedUser });
+          SessionSync.broadcast({ type: 'profile_update', user: updatedUser });
+        },
+
+        // Permanently delete the account; other tabs are signed out like on logout
+        deleteAccount: async (data: AccountDeletionData) => {
+          const userId = get().user?.id;
+          await AuthService.deleteAccount(data);
+
+          if (userId !== undefined) {
+            ChatService.clearDrafts(userId);
+          }
+          set({ user: null, isAuthenticated: false, error: null, sessionEndReason: null });
+          teardownSession();
+          SessionSync.broadcast({ type: 'logout' });
+          console.log('🗑️ Account deleted - local data cleared');
+        },
       }),
       {
         name: 'auth-store',
+        // Keep the cached user in the same storage as the tokens (respects "remember me")
+        storage: createJSONStorage(() => TokenManager.storage),
         partialize: (state) => ({ 
           user: state.user, 
           isAuthenticated: state.isAuthenticated 
@@ -162,4 +340,36 @@ export const useAuthStore = create<AuthState>()(
     ),
     { name: 'AuthStore' }
   )
-);
\ No newline at end of file
+);
+
+// Apply auth changes made in other tabs
+SessionSync.subscribe((event) => {
+  switch (event.type) {
+    case 'login':
+    case 'profile_update':
+      // Tokens from a "don't remember me" login live in the other tab's sessionStorage only
+      if (TokenManager.isAuthenticated()) {
+        useAuthStore.setState({ user: event.user, isAuthenticated: true, error: null, sessionEndReason: null });
+      }
+      break;
+
+    case 'logout': {
+      // The other tab already told the server; only local state needs clearing
+      TokenManager.clearTokens();
+      const userId = useAuthStore.getState().user?.id;
+      if (!event.reason && userId !== undefined) {
+        ChatService.clearDrafts(userId);
+      }
+      useAuthStore.setState({ user: null, isAuthenticated: false, error: null, sessionEndReason: event.reason ?? null });
+      teardownSession();
+      console.log('🚪 Logged out in another tab - session cleared');
+      break;
+    }
+  }
+});
+
+// The server ended this tab's session: its refresh was rejected (expired, or revoked from another device)
+apiClient.onSessionEnd((reason) => {
+  useAuthStore.setState({ user: null, isAuthenticated: false, error: null, sessionEndReason: reason });
+  teardownSession();
+});
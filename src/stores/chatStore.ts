@@ -7,6 +7,10 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { ChatService, ChatSession, Message, ChatSessionCreate, ChatListResponse } from '../services/chat';
+import { AbortScope, ErrorUtils } from '../services/utils';
+
+// In-flight fetches that a newer call of the same action supersedes
+const requests = new AbortScope();
 
 export interface ChatState {
   // State
@@ -44,18 +48,22 @@ export const useChatStore = create<ChatState>()(
 
       // Fetch all chat sessions
       fetchSessions: async () => {
+        const signal = requests.next('sessions');
         set({ isLoading: true, error: null });
         try {
-          const response: ChatListResponse = await ChatService.getChatSessions();
+          const response: ChatListResponse = await ChatService.getChatSessions(1, 20, { signal });
           set({ 
             sessions: response.results, 
             isLoading: false 
           });
         } catch (error: any) {
+          if (ErrorUtils.isAbortError(error)) return;
           set({
             error: error.message || 'Failed to fetch chat sessions',
             isLoading: false,
           });
+        } finally {
+          requests.release('sessions', signal);
         }
       },
 
@@ -84,7 +92,10 @@ export const useChatStore = create<ChatState>()(
       selectSession: async (session: ChatSession | null) => {
         set({ currentSession: session, messages: [], isLoading: !!session });
         
-        if (session) {
+        if (!session) {
+          // Drop the previous session's message fetch so it can't land after deselecting
+          requests.abort('messages');
+        } else {
           try {
             await get().fetchMessages(session.id);
           } catch (error) {
@@ -95,18 +106,23 @@ export const useChatStore = create<ChatState>()(
 
       // Fetch messages for current session
       fetchMessages: async (sessionId: string) => {
+        // Only the most recently requested session's messages may land in state
+        const signal = requests.next('messages');
         set({ isLoading: true, error: null });
         try {
-          const messages = await ChatService.getChatMessages(sessionId);
+          const messages = await ChatService.getChatMessages(sessionId, 1, 50, { signal });
           set({ 
             messages: messages.results, 
             isLoading: false 
           });
         } catch (error: any) {
+          if (ErrorUtils.isAbortError(error)) return;
           set({
             error: error.message || 'Failed to fetch messages',
             isLoading: false,
           });
+        } finally {
+          requests.release('messages', signal);
         }
       },
 
@@ -6,22 +6,67 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import { DocumentService, Document, DocumentUpload, DocumentListResponse } from '../services/documents';
+import { DocumentService, Document, DocumentListResponse } from '../services/documents';
+import { AbortScope, ErrorUtils } from '../services/utils';
+import type { UploadProgress } from '../services/uploadProgress';
+import { NotFoundError } from '../services/errors';
+
+// In-flight fetches that a newer call of the same action supersedes
+const requests = new AbortScope();
+// One entry per running upload, keyed by upload id
+const uploadRequests = new AbortScope();
+
+// Files sent to the server at the same time; the rest wait in the queue
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+export type UploadStatus = 'invalid' | 'queued' | 'uploading' | 'completed' | 'failed' | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  // Document name sent with the file (the file name without its extension)
+  name: string;
+  status: UploadStatus;
+  // 0-100
+  progress: number;
+  // Bytes sent, speed and time left while uploading; null otherwise
+  transfer: UploadProgress | null;
+  error: string | null;
+  documentId: string | null;
+  // Uploads added while the queue was busy join its batch; see batchSummary
+  batchId: number;
+}
+
+export interface UploadBatchSummary {
+  batchId: number;
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  invalid: number;
+  documentIds: string[];
+}
 
 export interface DocumentsState {
   // State
   documents: Document[];
   selectedDocument: Document | null;
   isLoading: boolean;
-  isUploading: boolean;
-  uploadProgress: number;
+  uploads: UploadItem[];
+  // Set each time the queue runs dry, for the batch that just finished
+  batchSummary: UploadBatchSummary | null;
   error: string | null;
   totalCount: number;
   hasMore: boolean;
   
   // Actions
   fetchDocuments: (page?: number, pageSize?: number) => Promise<void>;
-  uploadDocument: (upload: DocumentUpload, onProgress?: (progress: number) => void) => Promise<Document>;
+  // `validate` returns why a file can't be uploaded; such files are listed as invalid and skipped
+  enqueueUploads: (files: File[], validate?: (file: File) => string | undefined) => UploadItem[];
+  cancelUpload: (uploadId: string) => void;
+  retryUpload: (uploadId: string) => void;
+  // Drop finished, failed, cancelled and invalid entries from the list
+  clearFinishedUploads: () => void;
   deleteDocument: (documentId: string) => Promise<void>;
   selectDocument: (document: Document | null) => void;
   clearError: () => void;
@@ -29,6 +74,11 @@ export interface DocumentsState {
   reset: () => void; // Reset store on logout
 }
 
+const isActiveUpload = (upload: UploadItem) => upload.status === 'queued' || upload.status === 'uploading';
+
+let nextUploadId = 1;
+let nextBatchId = 1;
+
 export const useDocumentsStore = create<DocumentsState>()(
   devtools(
     (set, get) => ({
@@ -36,8 +86,8 @@ export const useDocumentsStore = create<DocumentsState>()(
       documents: [],
       selectedDocument: null,
       isLoading: false,
-      isUploading: false,
-      uploadProgress: 0,
+      uploads: [],
+      batchSummary: null,
       error: null,
       totalCount: 0,
       hasMore: false,
@@ -45,9 +95,17 @@ export const useDocumentsStore = create<DocumentsState>()(
       // Fetch documents with pagination
       fetchDocuments: async (page = 1, pageSize = 20) => {
         console.log('📥 DocumentsStore: Fetching documents...');
+        const signal = requests.next('list');
         set({ isLoading: true, error: null });
         try {
-          const response: DocumentListResponse = await DocumentService.getDocuments(page, pageSize);
+          const response: DocumentListResponse = await DocumentService.getDocuments(page, pageSize, {
+            signal,
+            // A cached first page is shown immediately; swap in the revalidated one when it arrives
+            onUpdate: (fresh) => {
+              if (page !== 1) return;
+              set({ documents: fresh.results, totalCount: fresh.count, hasMore: !!fresh.next });
+            },
+          });
           
           console.log('✅ DocumentsStore: Documents fetched:', response.results.length);
           console.log('📋 DocumentsStore: First document has file_url?', !!response.results[0]?.file_url);
@@ -60,50 +118,74 @@ export const useDocumentsStore = create<DocumentsState>()(
             isLoading: false,
           });
         } catch (error: any) {
+          if (ErrorUtils.isAbortError(error)) return;
           console.error('❌ DocumentsStore: Fetch failed:', error);
           set({
             error: error.message || 'Failed to fetch documents',
             isLoading: false,
           });
+        } finally {
+          requests.release('list', signal);
         }
       },
 
-      // Upload document
-      uploadDocument: async (upload: DocumentUpload, onProgress?: (progress: number) => void) => {
-        console.log('📤 DocumentsStore: Starting upload...', upload.name);
-        set({ isUploading: true, uploadProgress: 0, error: null });
-        
-        try {
-          const document = await DocumentService.uploadDocument(upload);
-          console.log('✅ DocumentsStore: Upload successful!', document);
-          
-          // Add to documents list
-          set((state) => ({
-            documents: [document, ...state.documents],
-            totalCount: state.totalCount + 1,
-            isUploading: false,
-            uploadProgress: 100,
-          }));
-          
-          console.log('📋 DocumentsStore: Documents list updated, total:', get().documents.length);
-          
-          return document;
-        } catch (error: any) {
-          console.error('❌ DocumentsStore: Upload failed:', error);
-          set({
-            error: error.message || 'Upload failed',
-            isUploading: false,
-            uploadProgress: 0,
-          });
-          throw error;
+      // Queue files for upload
+      enqueueUploads: (files: File[], validate?: (file: File) => string | undefined) => {
+        const batchId = currentBatchId();
+        const added: UploadItem[] = files.map((file) => {
+          const error = validate?.(file) ?? null;
+          return {
+            id: `upload-${nextUploadId++}`,
+            file,
+            name: file.name.replace(/\.[^/.]+$/, ''), // Remove extension
+            status: error ? 'invalid' : 'queued',
+            progress: 0,
+            transfer: null,
+            error,
+            documentId: null,
+            batchId,
+          };
+        });
+
+        console.log(`📥 DocumentsStore: Queued ${added.filter(isActiveUpload).length}/${added.length} files for upload`);
+        set((state) => ({ uploads: [...state.uploads, ...added] }));
+        pumpUploads();
+        return added;
+      },
+
+      cancelUpload: (uploadId: string) => {
+        const upload = get().uploads.find(({ id }) => id === uploadId);
+        if (upload?.status === 'queued') {
+          updateUpload(uploadId, { status: 'cancelled' });
+          pumpUploads();
+        } else if (upload?.status === 'uploading') {
+          // runUpload marks it cancelled when the request rejects
+          uploadRequests.abort(uploadId);
         }
       },
 
+      retryUpload: (uploadId: string) => {
+        const upload = get().uploads.find(({ id }) => id === uploadId);
+        if (upload?.status !== 'failed' && upload?.status !== 'cancelled') return;
+
+        updateUpload(uploadId, { status: 'queued', progress: 0, transfer: null, error: null, batchId: currentBatchId() });
+        pumpUploads();
+      },
+
+      clearFinishedUploads: () => {
+        set((state) => ({ uploads: state.uploads.filter(isActiveUpload) }));
+      },
+
       // Delete document
       deleteDocument: async (documentId: string) => {
         set({ isLoading: true, error: null });
         try {
-          await DocumentService.deleteDocument(documentId);
+          try {
+            await DocumentService.deleteDocument(documentId);
+          } catch (error) {
+            // Already gone on the server (e.g. deleted in another tab) - treat as success
+            if (!(error instanceof NotFoundError)) throw error;
+          }
           
           set((state) => ({
             documents: state.documents.filter(doc => doc.id !== documentId),
@@ -132,8 +214,10 @@ export const useDocumentsStore = create<DocumentsState>()(
 
       // Refresh single document
       refreshDocument: async (documentId: string) => {
+        const key = `document:${documentId}`;
+        const signal = requests.next(key);
         try {
-          const document = await DocumentService.getDocument(documentId);
+          const document = await DocumentService.getDocument(documentId, { signal, cache: false });
           
           set((state) => ({
             documents: state.documents.map(doc => 
@@ -142,21 +226,35 @@ export const useDocumentsStore = create<DocumentsState>()(
             selectedDocument: state.selectedDocument?.id === documentId ? document : state.selectedDocument,
           }));
         } catch (error: any) {
+          if (ErrorUtils.isAbortError(error)) return;
+          if (error instanceof NotFoundError) {
+            console.warn('⚠️ DocumentsStore: Document no longer exists, removing:', documentId);
+            set((state) => ({
+              documents: state.documents.filter(doc => doc.id !== documentId),
+              selectedDocument: state.selectedDocument?.id === documentId ? null : state.selectedDocument,
+              totalCount: Math.max(0, state.totalCount - 1),
+            }));
+            return;
+          }
           set({
             error: error.message || 'Failed to refresh document',
           });
+        } finally {
+          requests.release(key, signal);
         }
       },
 
       // Reset store (call on logout)
       reset: () => {
         console.log('🔄 DocumentsStore: Resetting store');
+        requests.abortAll();
+        uploadRequests.abortAll();
         set({
           documents: [],
           selectedDocument: null,
           isLoading: false,
-          isUploading: false,
-          uploadProgress: 0,
+          uploads: [],
+          batchSummary: null,
           error: null,
           totalCount: 0,
           hasMore: false,
@@ -165,4 +263,91 @@ export const useDocumentsStore = create<DocumentsState>()(
     }),
     { name: 'DocumentsStore' }
   )
-);
\ No newline at end of file
+);
+
+// Upload queue: runs outside the actions so finished uploads can start the next ones
+const updateUpload = (uploadId: string, changes: Partial<UploadItem>) => {
+  useDocumentsStore.setState((state) => ({
+    uploads: state.uploads.map((upload) => (upload.id === uploadId ? { ...upload, ...changes } : upload)),
+  }));
+};
+
+// Batch of the work in progress, or a new one if the queue is idle
+const currentBatchId = () => {
+  const active = useDocumentsStore.getState().uploads.find(isActiveUpload);
+  return active ? active.batchId : nextBatchId++;
+};
+
+const runUpload = async (upload: UploadItem) => {
+  const signal = uploadRequests.next(upload.id);
+  updateUpload(upload.id, { status: 'uploading', progress: 0, transfer: null, error: null });
+  console.log('📤 DocumentsStore: Starting upload...', upload.name);
+
+  try {
+    const document = await DocumentService.uploadDocument(
+      { file: upload.file, name: upload.name },
+      {
+        signal,
+        onUploadProgress: (transfer) => {
+          // A late event can arrive after the upload was cancelled
+          if (signal.aborted) return;
+          updateUpload(upload.id, { progress: transfer.percent, transfer });
+        },
+      }
+    );
+    console.log('✅ DocumentsStore: Upload successful!', document.id);
+
+    useDocumentsStore.setState((state) => ({
+      documents: [document, ...state.documents],
+      totalCount: state.totalCount + 1,
+    }));
+    updateUpload(upload.id, { status: 'completed', progress: 100, transfer: null, documentId: document.id });
+  } catch (error: any) {
+    if (ErrorUtils.isAbortError(error)) {
+      console.log('🛑 DocumentsStore: Upload cancelled:', upload.name);
+      updateUpload(upload.id, { status: 'cancelled', progress: 0, transfer: null });
+    } else {
+      console.error('❌ DocumentsStore: Upload failed:', error);
+      updateUpload(upload.id, { status: 'failed', progress: 0, transfer: null, error: ErrorUtils.getErrorMessage(error) });
+    }
+  } finally {
+    uploadRequests.release(upload.id, signal);
+    pumpUploads();
+  }
+};
+
+// Start queued uploads up to the concurrency limit; report the batch once nothing is left
+const pumpUploads = () => {
+  const { uploads } = useDocumentsStore.getState();
+  let running = uploads.filter((upload) => upload.status === 'uploading').length;
+  const queued = uploads.filter((upload) => upload.status === 'queued');
+
+  queued.slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - running)).forEach((upload) => {
+    running++;
+    runUpload(upload);
+  });
+
+  if (running === 0 && queued.length === 0) {
+    reportBatch();
+  }
+};
+
+const reportBatch = () => {
+  const { uploads, batchSummary } = useDocumentsStore.getState();
+  const batchId = uploads.reduce((latest, upload) => Math.max(latest, upload.batchId), 0);
+  if (batchId === 0 || batchSummary?.batchId === batchId) return;
+
+  const batch = uploads.filter((upload) => upload.batchId === batchId);
+  const count = (status: UploadStatus) => batch.filter((upload) => upload.status === status).length;
+  const summary: UploadBatchSummary = {
+    batchId,
+    total: batch.length,
+    completed: count('completed'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+    invalid: count('invalid'),
+    documentIds: batch.flatMap((upload) => (upload.documentId ? [upload.documentId] : [])),
+  };
+  console.log('📦 DocumentsStore: Upload batch finished', summary);
+  useDocumentsStore.setState({ batchSummary: summary });
+};
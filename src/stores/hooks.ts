@@ -5,19 +5,73 @@
  */
 
 import { useAuthStore, useDocumentsStore, useChatStore, useAppStore } from './index';
+import { isFeatureEnabled } from '../services/runtimeConfig';
+import { FileValidator, MAX_FILE_SIZE, UNVERIFIED_MAX_FILE_SIZE } from '../services/utils';
 
 /**
- * Hook to check if the app is ready (initialized and authenticated)
+ * Hook to check if the app is ready (initialized and authenticated).
+ * The persisted isAuthenticated flag isn't trusted until checkAuth has run.
  */
 export const useAppReady = () => {
   const isInitialized = useAppStore((state) => state.isInitialized);
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
   const isLoading = useAuthStore((state) => state.isLoading);
+  const hasCheckedAuth = useAuthStore((state) => state.hasCheckedAuth);
+  const isReady = isInitialized && hasCheckedAuth && !isLoading;
   
   return {
-    isReady: isInitialized && !isLoading,
+    isReady,
     isAuthenticated,
-    needsAuth: isInitialized && !isAuthenticated && !isLoading,
+    hasCheckedAuth,
+    needsAuth: isReady && !isAuthenticated,
+  };
+};
+
+/**
+ * Hook for features held back until the user's email is verified
+ * (only when the requireVerifiedEmail feature is on)
+ */
+export const useEmailVerification = () => {
+  const user = useAuthStore((state) => state.user);
+  const isVerified = !user || user.is_email_verified;
+  const isGated = !isVerified && isFeatureEnabled('requireVerifiedEmail');
+
+  return {
+    isVerified,
+    canShare: !isGated,
+    maxUploadSize: isGated ? UNVERIFIED_MAX_FILE_SIZE : MAX_FILE_SIZE,
+  };
+};
+
+/**
+ * Hook for the upload queue: checks each file against the account's limits
+ * before it's queued, so rejected files show up in the queue with a reason
+ */
+export const useUploadQueue = () => {
+  const uploads = useDocumentsStore((state) => state.uploads);
+  const enqueueUploads = useDocumentsStore((state) => state.enqueueUploads);
+  const cancelUpload = useDocumentsStore((state) => state.cancelUpload);
+  const retryUpload = useDocumentsStore((state) => state.retryUpload);
+  const clearFinishedUploads = useDocumentsStore((state) => state.clearFinishedUploads);
+  const { maxUploadSize } = useEmailVerification();
+
+  const validate = (file: File): string | undefined => {
+    const validation = FileValidator.isValidFile(file, maxUploadSize);
+    if (validation.valid) return undefined;
+    // Within the normal limit, so only the unverified-account limit is in the way
+    return maxUploadSize < MAX_FILE_SIZE && FileValidator.isValidFile(file).valid
+      ? `Verify your email address to upload files larger than ${Math.round(maxUploadSize / (1024 * 1024))}MB`
+      : validation.error;
+  };
+
+  return {
+    uploads,
+    maxUploadSize,
+    isUploading: uploads.some((upload) => upload.status === 'queued' || upload.status === 'uploading'),
+    addFiles: (files: File[]) => enqueueUploads(files, validate),
+    cancelUpload,
+    retryUpload,
+    clearFinishedUploads,
   };
 };
 
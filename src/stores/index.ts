@@ -11,7 +11,8 @@ export type { AuthState } from './authStore';
 
 // Documents Store  
 export { useDocumentsStore } from './documentsStore';
-export type { DocumentsState } from './documentsStore';
+export { MAX_CONCURRENT_UPLOADS } from './documentsStore';
+export type { DocumentsState, UploadItem, UploadStatus, UploadBatchSummary } from './documentsStore';
 
 // Chat Store
 export { useChatStore } from './chatStore';
@@ -21,6 +22,10 @@ export type { ChatState } from './chatStore';
 export { useAppStore } from './appStore';
 export type { AppState, AppSettings } from './appStore';
 
+// Router Store
+export { useRouterStore } from './routerStore';
+export type { RouterState } from './routerStore';
+
 // Re-export service types for convenience
 export type { User, LoginCredentials, RegisterData, ProfileUpdateData } from '../services/auth';
 export type { Document, DocumentUpload } from '../services/documents';
@@ -0,0 +1,30 @@
+/**
+ * Router Store
+ *
+ * The current route as React state. The address bar stays the source of
+ * truth: navigating (or the browser's back and forward buttons) updates the
+ * URL first and this store follows.
+ */
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { Router, AppRoute, NavigateOptions } from '../services/router';
+
+export interface RouterState {
+  route: AppRoute;
+
+  navigate: (target: AppRoute | string, options?: NavigateOptions) => void;
+}
+
+export const useRouterStore = create<RouterState>()(
+  devtools(
+    () => ({
+      route: Router.current(),
+
+      navigate: (target, options) => Router.navigate(target, options),
+    }),
+    { name: 'RouterStore' }
+  )
+);
+
+Router.subscribe((route) => useRouterStore.setState({ route }));
@@ -5,6 +5,11 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_WS_BASE_URL: string
   readonly VITE_TOGETHER_API_KEY: string
+  readonly VITE_EPHEMERAL_TOKEN_STORAGE?: 'session' | 'memory'
+  readonly VITE_MOCK_API?: string
+  readonly VITE_MOCK_LATENCY_MS?: string
+  readonly VITE_MOCK_FAILURE_RATE?: string
+  readonly VITE_MOCK_UPLOAD_BYTES_PER_SECOND?: string
 }
 
 interface ImportMeta {
@@ -17,6 +22,3 @@ declare namespace NodeJS {
     WS_BASE_URL?: string
   }
 }
-
-declare const __API_BASE_URL__: string | null | undefined
-declare const __API_WS_BASE_URL__: string | null | undefined
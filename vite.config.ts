@@ -5,8 +5,6 @@
 
   export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, process.cwd(), 'VITE_');
-    const apiBaseUrl = env.API_BASE_URL ?? null;
-    const wsBaseUrl = env.WS_BASE_URL ?? null;
 
     const processEnv = Object.keys(env).reduce((acc, key) => {
       const newKey = key.replace(/^VITE_/, '');
@@ -17,8 +15,6 @@
     return {
       plugins: [react()],
       define: {
-        __API_BASE_URL__: JSON.stringify(apiBaseUrl),
-        __API_WS_BASE_URL__: JSON.stringify(wsBaseUrl),
         ...processEnv,
       },
       resolve: {